@@ -5,6 +5,14 @@ import express from 'express';
 import helmet from 'helmet';
 import { testConnection } from './database';
 import { formatUptime } from './utils/general';
+import { CatalogMirrorRefresher } from '@/components/web/catalog/catalogMirrorRefresher';
+import { CatalogReconciler } from '@/components/web/catalog/catalogReconciler';
+import { CatalogSyncWorker } from '@/components/web/catalog/catalogSyncWorker';
+import { ChatbotIntentRouter } from '@/components/web/chatbotIntents/chatbotIntentRouter';
+import { InventoryReservationSweeper } from '@/components/web/inventory/inventoryReservationSweeper';
+import { PaymentLinkScheduler } from '@/components/web/payments/paymentLinkScheduler';
+import { WebhookEventRetention } from '@/components/web/webhookEvents/webhookEventRetention';
+import { WebhookJobWorker } from '@/components/web/webhookJobs/webhookJobWorker';
 import env from '@/env';
 import { initLogWatcher } from '@/lib/watcher';
 import addErrorHandler from '@/middleware/error-handler';
@@ -31,6 +39,22 @@ export default class App {
 
 		RoleBaseAccess.init();
 
+		WebhookEventRetention.init();
+
+		ChatbotIntentRouter.init();
+
+		WebhookJobWorker.init();
+
+		InventoryReservationSweeper.init();
+
+		CatalogMirrorRefresher.init();
+
+		CatalogSyncWorker.init();
+
+		CatalogReconciler.init();
+
+		PaymentLinkScheduler.init();
+
 		// register the all routes
 		this.protectedRoutes();
 
@@ -68,7 +92,15 @@ export default class App {
 		this.express.use(cookieParser());
 
 		// Body parsing
-		this.express.use(express.json({ limit: '10000mb' }));
+		this.express.use(
+			express.json({
+				limit: '10000mb',
+				// Keep the raw bytes so webhook signatures can be verified
+				verify: (req: express.Request, _res, buf) => {
+					req.rawBody = buf;
+				},
+			}),
+		);
 		this.express.use(
 			express.urlencoded({ limit: '10000mb', extended: true }),
 		);
@@ -0,0 +1,130 @@
+import { Request, Response, Router } from 'express';
+import {
+	CatalogItemListQueryParser,
+	CatalogSyncIdParamsParser,
+	CatalogSyncListQueryParser,
+	ReconciliationFixBodyParser,
+	ReconciliationIdParamsParser,
+	ReconciliationItemsQueryParser,
+	ReconciliationListQueryParser,
+} from './catalog.parser';
+import { catalogMirrorService } from './catalogMirror.service';
+import { catalogReconciliationService } from './catalogReconciliation.service';
+import { catalogSyncService } from './catalogSync.service';
+import { CatalogSyncWorker } from './catalogSyncWorker';
+import BaseApi from '@/components/BaseApi';
+
+export default class CatalogController extends BaseApi {
+	constructor() {
+		super();
+	}
+
+	public register(): Router {
+		this.router.get('/status', this.getStatus.bind(this));
+		this.router.get('/items', this.getItems.bind(this));
+		this.router.post('/refresh', this.refresh.bind(this));
+		this.router.get('/sync', this.getSyncJobs.bind(this));
+		this.router.post('/sync/:id/retry', this.retrySyncJob.bind(this));
+		this.router.get('/reconciliations', this.getReconciliations.bind(this));
+		this.router.post(
+			'/reconciliations',
+			this.startReconciliation.bind(this),
+		);
+		this.router.get(
+			'/reconciliations/:id',
+			this.getReconciliation.bind(this),
+		);
+		this.router.post(
+			'/reconciliations/:id/fix',
+			this.fixDifferences.bind(this),
+		);
+
+		return this.router;
+	}
+
+	public async getStatus(req: Request, res: Response) {
+		const { data, message } = await catalogMirrorService.getStatus();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getItems(req: Request, res: Response) {
+		const query = CatalogItemListQueryParser.parse(req.query);
+		const { data, message } = await catalogMirrorService.listItems(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async refresh(req: Request, res: Response) {
+		const { data, message } = await catalogMirrorService.refresh();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getSyncJobs(req: Request, res: Response) {
+		const query = CatalogSyncListQueryParser.parse(req.query);
+		const { data, message } = await catalogSyncService.list(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async retrySyncJob(req: Request, res: Response) {
+		const { id } = CatalogSyncIdParamsParser.parse(req.params);
+		const { data, message } = await catalogSyncService.retry(id);
+		CatalogSyncWorker.trigger();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getReconciliations(req: Request, res: Response) {
+		const query = ReconciliationListQueryParser.parse(req.query);
+		const { data, message } =
+			await catalogReconciliationService.listReconciliations(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async startReconciliation(req: Request, res: Response) {
+		const { data, message } =
+			await catalogReconciliationService.startReconciliation(
+				req.user_details?.id,
+			);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getReconciliation(req: Request, res: Response) {
+		const { id } = ReconciliationIdParamsParser.parse(req.params);
+		const query = ReconciliationItemsQueryParser.parse(req.query);
+		const { data, message } =
+			await catalogReconciliationService.getReconciliation({
+				reconciliationId: id,
+				...query,
+			});
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async fixDifferences(req: Request, res: Response) {
+		const { id } = ReconciliationIdParamsParser.parse(req.params);
+		const { itemIds } = ReconciliationFixBodyParser.parse(req.body);
+		const { data, message } =
+			await catalogReconciliationService.fixDifferences(
+				id,
+				itemIds,
+				req.user_details?.id,
+			);
+		CatalogSyncWorker.trigger();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+}
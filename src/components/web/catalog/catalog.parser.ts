@@ -0,0 +1,56 @@
+import { z } from 'zod/v4';
+import { Zerror } from '@/utils/validations';
+
+export const CatalogItemListQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(200).default(50),
+	search: z.string().trim().min(1).optional(),
+	availability: z.string().trim().min(1).optional(),
+});
+
+export const CatalogSyncListQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+	status: z.enum(['pending', 'processing', 'synced', 'failed']).optional(),
+	productId: z
+		.uuid({ error: (issue) => Zerror(issue, 'Product id', 'uuid') })
+		.optional(),
+});
+
+export const CatalogSyncIdParamsParser = z.object({
+	id: z.uuid({
+		error: (issue) => Zerror(issue, 'Catalog sync job id', 'uuid'),
+	}),
+});
+
+export const ReconciliationListQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const ReconciliationIdParamsParser = z.object({
+	id: z.uuid({
+		error: (issue) => Zerror(issue, 'Reconciliation id', 'uuid'),
+	}),
+});
+
+export const ReconciliationItemsQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(200).default(50),
+	kind: z.enum(['missing', 'orphaned', 'mismatched']).optional(),
+	unfixed: z
+		.enum(['true', 'false'])
+		.transform((v) => v === 'true')
+		.optional(),
+});
+
+export const ReconciliationFixBodyParser = z.object({
+	itemIds: z
+		.array(
+			z.uuid({
+				error: (issue) => Zerror(issue, 'Difference id', 'uuid'),
+			}),
+		)
+		.min(1)
+		.max(500),
+});
@@ -0,0 +1,318 @@
+import axios from 'axios';
+import { and, count, eq, ilike, inArray, lt, max, or, sql } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import { catalogItems, InsertCatalogItem } from '@/database/schema';
+import env from '@/env';
+import logger from '@/lib/logger';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+interface GraphCatalogProduct {
+	id: string;
+	retailer_id: string;
+	name?: string;
+	availability?: string;
+	price?: string;
+	currency?: string;
+	image_url?: string;
+}
+
+interface GraphCatalogPage {
+	data?: GraphCatalogProduct[];
+	paging?: { next?: string };
+}
+
+export interface CatalogSyncResult {
+	pages: number;
+	items: number;
+	removed: number;
+	startedAt: Date;
+	finishedAt: Date;
+}
+
+export interface CatalogAvailability {
+	exists: boolean;
+	availability: string;
+}
+
+interface ListCatalogItemsInput {
+	page: number;
+	limit: number;
+	search?: string;
+	availability?: string;
+}
+
+const PAGE_SIZE = 500;
+const CATALOG_FIELDS =
+	'id,retailer_id,name,availability,price,currency,image_url';
+
+// Only one sync runs per process; concurrent callers share its result
+let inFlightSync: Promise<CatalogSyncResult> | null = null;
+let lastSyncedAt: Date | null = null;
+
+function toCatalogItem(
+	product: GraphCatalogProduct,
+	syncedAt: Date,
+): InsertCatalogItem {
+	return {
+		retailerId: product.retailer_id,
+		fbProductId: product.id,
+		name: product.name,
+		availability: product.availability,
+		price: product.price,
+		currency: product.currency,
+		imageUrl: product.image_url,
+		raw: product,
+		syncedAt,
+		updatedAt: syncedAt,
+	};
+}
+
+/**
+ * Walk every page of the catalog, upserting each page as it arrives, then
+ * drop mirror rows the catalog no longer has
+ */
+async function runSync(): Promise<CatalogSyncResult> {
+	if (!env.FB_ACCESS_TOKEN || !env.FB_CATALOG_ID) {
+		throw new AppError(
+			'Facebook catalog is not configured',
+			StatusCodes.INTERNAL_SERVER_ERROR,
+		);
+	}
+
+	const startedAt = new Date();
+	let url: string | undefined =
+		`https://graph.facebook.com/${env.FB_API_VERSION}/${env.FB_CATALOG_ID}/products` +
+		`?fields=${CATALOG_FIELDS}&limit=${PAGE_SIZE}&access_token=${env.FB_ACCESS_TOKEN}`;
+	let pages = 0;
+	let items = 0;
+
+	while (url) {
+		const { data: page } = await axios.get<GraphCatalogPage>(url);
+		const rows = (page.data ?? [])
+			.filter((product) => product.retailer_id)
+			.map((product) => toCatalogItem(product, startedAt));
+
+		if (rows.length > 0) {
+			await db
+				.insert(catalogItems)
+				.values(rows)
+				.onConflictDoUpdate({
+					target: catalogItems.retailerId,
+					set: {
+						fbProductId: sql`excluded.fb_product_id`,
+						name: sql`excluded.name`,
+						availability: sql`excluded.availability`,
+						price: sql`excluded.price`,
+						currency: sql`excluded.currency`,
+						imageUrl: sql`excluded.image_url`,
+						raw: sql`excluded.raw`,
+						syncedAt: startedAt,
+						updatedAt: startedAt,
+					},
+				});
+		}
+
+		pages += 1;
+		items += rows.length;
+		url = page.paging?.next;
+	}
+
+	// Only reached after a complete walk, so a failed page never deletes rows
+	const removed = await db
+		.delete(catalogItems)
+		.where(lt(catalogItems.syncedAt, startedAt))
+		.returning({ id: catalogItems.id });
+
+	lastSyncedAt = startedAt;
+	return {
+		pages,
+		items,
+		removed: removed.length,
+		startedAt,
+		finishedAt: new Date(),
+	};
+}
+
+export const catalogMirrorService = {
+	/**
+	 * Refresh the mirror from the Graph API
+	 */
+	async syncCatalog(): Promise<CatalogSyncResult> {
+		if (!inFlightSync) {
+			inFlightSync = runSync()
+				.then((result) => {
+					logger.info('[CatalogMirror] Catalog synced', result);
+					return result;
+				})
+				.finally(() => {
+					inFlightSync = null;
+				});
+		}
+		return inFlightSync;
+	},
+
+	async getLastSyncedAt(reload = false): Promise<Date | null> {
+		if (lastSyncedAt && !reload) return lastSyncedAt;
+
+		const [row] = await db
+			.select({ lastSyncedAt: max(catalogItems.syncedAt) })
+			.from(catalogItems);
+		lastSyncedAt = row?.lastSyncedAt ?? null;
+		return lastSyncedAt;
+	},
+
+	isStale(syncedAt: Date | null): boolean {
+		if (!syncedAt) return true;
+		const staleAfterMs = env.CATALOG_MIRROR_STALE_MINUTES * 60 * 1000;
+		return Date.now() - syncedAt.getTime() > staleAfterMs;
+	},
+
+	/**
+	 * Sync first if the mirror is older than the staleness threshold. A failed
+	 * sync is logged and the existing mirror is used.
+	 */
+	async ensureFresh() {
+		if (!this.isStale(await this.getLastSyncedAt())) return;
+		// Another instance may have synced since we last looked
+		if (!this.isStale(await this.getLastSyncedAt(true))) return;
+
+		try {
+			await this.syncCatalog();
+		} catch (error) {
+			logger.error('[CatalogMirror] Refresh failed, using stale mirror', {
+				error: error instanceof Error ? error.message : error,
+			});
+		}
+	},
+
+	/**
+	 * Catalog availability for a set of retailer ids in one query
+	 */
+	async getAvailability(
+		retailerIds: string[],
+	): Promise<Map<string, CatalogAvailability>> {
+		await this.ensureFresh();
+
+		const result = new Map<string, CatalogAvailability>();
+		if (retailerIds.length === 0) return result;
+
+		const rows = await db
+			.select({
+				retailerId: catalogItems.retailerId,
+				availability: catalogItems.availability,
+			})
+			.from(catalogItems)
+			.where(inArray(catalogItems.retailerId, retailerIds));
+
+		for (const row of rows) {
+			result.set(row.retailerId, {
+				exists: true,
+				availability: row.availability ?? 'unknown',
+			});
+		}
+		return result;
+	},
+
+	/**
+	 * Manual refresh from the admin route
+	 */
+	async refresh() {
+		try {
+			const data = await this.syncCatalog();
+			return { data, message: 'Catalog mirror refreshed successfully' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to refresh catalog mirror',
+				StatusCodes.BAD_GATEWAY,
+				'refreshCatalogMirror',
+			);
+		}
+	},
+
+	async getStatus() {
+		try {
+			const syncedAt = await this.getLastSyncedAt();
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(catalogItems);
+
+			return {
+				data: {
+					lastSyncedAt: syncedAt,
+					stale: this.isStale(syncedAt),
+					staleAfterMinutes: env.CATALOG_MIRROR_STALE_MINUTES,
+					syncing: inFlightSync !== null,
+					itemCount: total,
+				},
+				message: 'Catalog mirror status fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch catalog mirror status',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'getCatalogStatus',
+			);
+		}
+	},
+
+	async listItems({
+		page,
+		limit,
+		search,
+		availability,
+	}: ListCatalogItemsInput) {
+		try {
+			const filters = [];
+			if (search) {
+				filters.push(
+					or(
+						ilike(catalogItems.name, `%${search}%`),
+						ilike(catalogItems.retailerId, `%${search}%`),
+					),
+				);
+			}
+			if (availability) {
+				filters.push(eq(catalogItems.availability, availability));
+			}
+			const where = filters.length ? and(...filters) : undefined;
+
+			const items = await db
+				.select()
+				.from(catalogItems)
+				.where(where)
+				.orderBy(catalogItems.name)
+				.limit(limit)
+				.offset((page - 1) * limit);
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(catalogItems)
+				.where(where);
+
+			return {
+				data: {
+					items,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Catalog items fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch catalog items',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listCatalogItems',
+				{ page, limit, search, availability },
+			);
+		}
+	},
+};
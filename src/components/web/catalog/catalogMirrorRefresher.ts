@@ -0,0 +1,39 @@
+import { catalogMirrorService } from './catalogMirror.service';
+import env from '@/env';
+import logger from '@/lib/logger';
+
+export class CatalogMirrorRefresher {
+	private static intervalId: NodeJS.Timeout;
+
+	private static async refresh() {
+		try {
+			await catalogMirrorService.ensureFresh();
+		} catch (err) {
+			logger.error('Catalog mirror refresh failed', err);
+		}
+	}
+
+	// Keeps the mirror warm so order handling rarely waits on a sync.
+	// Polls at half the stale age: ensureFresh only syncs once the mirror
+	// is stale, so polling at the full age could leave it stale for almost
+	// another interval.
+	static init(
+		intervalMs: number = (env.CATALOG_MIRROR_STALE_MINUTES * 60 * 1000) / 2,
+	) {
+		if (!env.FB_ACCESS_TOKEN || !env.FB_CATALOG_ID) {
+			logger.warn(
+				'[CatalogMirrorRefresher] Facebook catalog not configured, not started',
+			);
+			return;
+		}
+
+		this.refresh();
+		this.intervalId = setInterval(() => this.refresh(), intervalMs);
+		logger.info('[CatalogMirrorRefresher] Interval started');
+	}
+
+	static stopIt() {
+		if (this.intervalId) clearInterval(this.intervalId);
+		logger.info('[CatalogMirrorRefresher] Interval stopped');
+	}
+}
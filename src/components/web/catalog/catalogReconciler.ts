@@ -0,0 +1,38 @@
+import { catalogReconciliationService } from './catalogReconciliation.service';
+import { isCatalogConfigured } from './catalogSync.service';
+import env from '@/env';
+import logger from '@/lib/logger';
+
+export class CatalogReconciler {
+	private static intervalId: NodeJS.Timeout;
+
+	private static async reconcile() {
+		try {
+			await catalogReconciliationService.reconcile();
+		} catch (err) {
+			logger.error('Catalog reconciliation failed', err);
+		}
+	}
+
+	static init(
+		intervalMs: number = env.CATALOG_RECONCILE_INTERVAL_HOURS *
+			60 *
+			60 *
+			1000,
+	) {
+		if (!isCatalogConfigured()) {
+			logger.warn(
+				'[CatalogReconciler] Facebook catalog not configured, not started',
+			);
+			return;
+		}
+
+		this.intervalId = setInterval(() => this.reconcile(), intervalMs);
+		logger.info('[CatalogReconciler] Interval started');
+	}
+
+	static stopIt() {
+		if (this.intervalId) clearInterval(this.intervalId);
+		logger.info('[CatalogReconciler] Interval stopped');
+	}
+}
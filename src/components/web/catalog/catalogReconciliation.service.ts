@@ -0,0 +1,557 @@
+import { and, count, desc, eq, inArray, isNull, lt } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import { catalogMirrorService } from './catalogMirror.service';
+import { catalogSyncService, describeSyncError } from './catalogSync.service';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import {
+	catalogItems,
+	catalogReconciliationItems,
+	catalogReconciliations,
+	CatalogFieldDifference,
+	InsertCatalogReconciliationItem,
+	products,
+	productVariants,
+	SelectCatalogItem,
+	SelectCatalogReconciliationItem,
+} from '@/database/schema';
+import logger from '@/lib/logger';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+type DifferenceKind = SelectCatalogReconciliationItem['kind'];
+
+interface GetReconciliationInput {
+	reconciliationId: string;
+	page: number;
+	limit: number;
+	kind?: DifferenceKind;
+	unfixed?: boolean;
+}
+
+interface ListReconciliationsInput {
+	page: number;
+	limit: number;
+}
+
+// A product, or one of its variants, as it should appear in the catalog
+interface ComparedProduct {
+	productID: string;
+	variantID: string | null;
+	retailerId: string;
+	name: string;
+	amount: number | null;
+	currency: string | null;
+	available: number;
+}
+
+const INSERT_CHUNK_SIZE = 500;
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+/**
+ * Graph formats prices for display ("₦1,500.00"), so compare the number
+ */
+function parseCatalogPrice(price: string | null): number | null {
+	if (!price) return null;
+	const value = parseFloat(price.replace(/[^0-9.]/g, ''));
+	return Number.isNaN(value) ? null : value;
+}
+
+function compareWithCatalog(
+	product: ComparedProduct,
+	item: SelectCatalogItem,
+): CatalogFieldDifference[] {
+	const differences: CatalogFieldDifference[] = [];
+	const expectedAvailability =
+		product.available > 0 ? 'in stock' : 'out of stock';
+
+	if (item.name !== product.name) {
+		differences.push({
+			field: 'name',
+			expected: product.name,
+			actual: item.name,
+		});
+	}
+	const catalogPrice = parseCatalogPrice(item.price);
+	if (product.amount !== null && catalogPrice !== product.amount) {
+		differences.push({
+			field: 'price',
+			expected: product.amount,
+			actual: item.price,
+		});
+	}
+	if (
+		item.currency &&
+		product.currency &&
+		item.currency.toUpperCase() !== product.currency.toUpperCase()
+	) {
+		differences.push({
+			field: 'currency',
+			expected: product.currency,
+			actual: item.currency,
+		});
+	}
+	if (item.availability !== expectedAvailability) {
+		differences.push({
+			field: 'availability',
+			expected: expectedAvailability,
+			actual: item.availability,
+		});
+	}
+
+	return differences;
+}
+
+/**
+ * Match products (contentId) and variants (retailerId) to catalog items on
+ * retailer_id
+ */
+function diffCatalog(
+	productRows: ComparedProduct[],
+	catalogRows: SelectCatalogItem[],
+	reconciliationID: string,
+): InsertCatalogReconciliationItem[] {
+	const catalogByRetailerId = new Map(
+		catalogRows.map((item) => [item.retailerId, item]),
+	);
+	const productRetailerIds = new Set<string>();
+	const differences: InsertCatalogReconciliationItem[] = [];
+
+	for (const product of productRows) {
+		productRetailerIds.add(product.retailerId);
+		const item = catalogByRetailerId.get(product.retailerId);
+
+		if (!item) {
+			differences.push({
+				reconciliationID,
+				kind: 'missing',
+				retailerId: product.retailerId,
+				productID: product.productID,
+				variantID: product.variantID,
+			});
+			continue;
+		}
+
+		const fields = compareWithCatalog(product, item);
+		if (fields.length > 0) {
+			differences.push({
+				reconciliationID,
+				kind: 'mismatched',
+				retailerId: product.retailerId,
+				productID: product.productID,
+				variantID: product.variantID,
+				differences: fields,
+			});
+		}
+	}
+
+	for (const item of catalogRows) {
+		if (productRetailerIds.has(item.retailerId)) continue;
+		differences.push({
+			reconciliationID,
+			kind: 'orphaned',
+			retailerId: item.retailerId,
+		});
+	}
+
+	return differences;
+}
+
+export const catalogReconciliationService = {
+	/**
+	 * Page through the Graph catalog (via a mirror sync), diff it against
+	 * products and store the differences as a report
+	 */
+	async reconcile(triggeredBy?: string) {
+		// A run still marked running after this long died with its process
+		await db
+			.update(catalogReconciliations)
+			.set({
+				status: 'failed',
+				error: 'Run did not finish',
+				finishedAt: new Date(),
+			})
+			.where(
+				and(
+					eq(catalogReconciliations.status, 'running'),
+					lt(
+						catalogReconciliations.startedAt,
+						new Date(Date.now() - STALE_RUN_MS),
+					),
+				),
+			);
+
+		const [running] = await db
+			.select({ id: catalogReconciliations.id })
+			.from(catalogReconciliations)
+			.where(eq(catalogReconciliations.status, 'running'))
+			.limit(1);
+		if (running) {
+			throw new AppError(
+				'A catalog reconciliation is already running',
+				StatusCodes.CONFLICT,
+			);
+		}
+
+		const [run] = await db
+			.insert(catalogReconciliations)
+			.values({ triggeredBy })
+			.returning();
+
+		try {
+			const sync = await catalogMirrorService.syncCatalog();
+
+			const productRows: ComparedProduct[] = (
+				await db.select().from(products)
+			).map((product) => ({
+				productID: product.id,
+				variantID: null,
+				retailerId: product.contentId,
+				name: product.productName,
+				amount: product.amount,
+				currency: product.currency,
+				available: Math.max(
+					(product.qty ?? 0) - product.reservedQty,
+					0,
+				),
+			}));
+			const variantRows = await db
+				.select({ variant: productVariants, product: products })
+				.from(productVariants)
+				.innerJoin(
+					products,
+					eq(products.id, productVariants.productID),
+				);
+			for (const { variant, product } of variantRows) {
+				productRows.push({
+					productID: product.id,
+					variantID: variant.id,
+					retailerId: variant.retailerId,
+					name: variant.name
+						? `${product.productName} - ${variant.name}`
+						: product.productName,
+					amount: variant.amount ?? product.amount,
+					currency: product.currency,
+					available: variant.isActive
+						? Math.max(variant.qty - variant.reservedQty, 0)
+						: 0,
+				});
+			}
+			const catalogRows = await db.select().from(catalogItems);
+
+			const differences = diffCatalog(productRows, catalogRows, run.id);
+			for (let i = 0; i < differences.length; i += INSERT_CHUNK_SIZE) {
+				await db
+					.insert(catalogReconciliationItems)
+					.values(differences.slice(i, i + INSERT_CHUNK_SIZE));
+			}
+
+			const countKind = (kind: DifferenceKind) =>
+				differences.filter((d) => d.kind === kind).length;
+			const [completed] = await db
+				.update(catalogReconciliations)
+				.set({
+					status: 'completed',
+					summary: {
+						products: productRows.length,
+						catalogItems: catalogRows.length,
+						catalogPages: sync.pages,
+						missing: countKind('missing'),
+						orphaned: countKind('orphaned'),
+						mismatched: countKind('mismatched'),
+					},
+					finishedAt: new Date(),
+				})
+				.where(eq(catalogReconciliations.id, run.id))
+				.returning();
+
+			logger.info('[CatalogReconciliation] Run completed', {
+				reconciliationId: run.id,
+				...(completed.summary as Record<string, number>),
+			});
+			return completed;
+		} catch (error) {
+			await db
+				.update(catalogReconciliations)
+				.set({
+					status: 'failed',
+					error: describeSyncError(error),
+					finishedAt: new Date(),
+				})
+				.where(eq(catalogReconciliations.id, run.id));
+			throw error;
+		}
+	},
+
+	/**
+	 * Manual run from the admin route
+	 */
+	async startReconciliation(userId?: string) {
+		try {
+			const data = await this.reconcile(userId);
+			return { data, message: 'Catalog reconciliation completed' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Catalog reconciliation failed',
+				StatusCodes.BAD_GATEWAY,
+				'startReconciliation',
+				{ userId },
+			);
+		}
+	},
+
+	/**
+	 * List reconciliation runs, newest first
+	 */
+	async listReconciliations({ page, limit }: ListReconciliationsInput) {
+		try {
+			const reconciliations = await db
+				.select()
+				.from(catalogReconciliations)
+				.orderBy(desc(catalogReconciliations.startedAt))
+				.limit(limit)
+				.offset((page - 1) * limit);
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(catalogReconciliations);
+
+			return {
+				data: {
+					reconciliations,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Catalog reconciliations fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch catalog reconciliations',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listReconciliations',
+				{ page, limit },
+			);
+		}
+	},
+
+	/**
+	 * One run with its differences, filterable by kind
+	 */
+	async getReconciliation({
+		reconciliationId,
+		page,
+		limit,
+		kind,
+		unfixed,
+	}: GetReconciliationInput) {
+		try {
+			const reconciliation =
+				await db.query.catalogReconciliations.findFirst({
+					where: eq(catalogReconciliations.id, reconciliationId),
+				});
+
+			if (!reconciliation) {
+				throw new AppError(
+					'Catalog reconciliation not found',
+					StatusCodes.NOT_FOUND,
+				);
+			}
+
+			const filters = [
+				eq(
+					catalogReconciliationItems.reconciliationID,
+					reconciliationId,
+				),
+			];
+			if (kind) filters.push(eq(catalogReconciliationItems.kind, kind));
+			if (unfixed)
+				filters.push(isNull(catalogReconciliationItems.fixedAt));
+			const where = and(...filters);
+
+			const items = await db.query.catalogReconciliationItems.findMany({
+				where,
+				with: {
+					product: {
+						columns: { id: true, productName: true, sku: true },
+					},
+				},
+				orderBy: [
+					catalogReconciliationItems.kind,
+					catalogReconciliationItems.retailerId,
+				],
+				limit,
+				offset: (page - 1) * limit,
+			});
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(catalogReconciliationItems)
+				.where(where);
+
+			return {
+				data: {
+					reconciliation,
+					items,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Catalog reconciliation fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch catalog reconciliation',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'getReconciliation',
+				{ reconciliationId, kind },
+			);
+		}
+	},
+
+	/**
+	 * Fix selected differences: missing and mismatched products are queued
+	 * for a catalog push, orphaned items for deletion from the catalog.
+	 * Orphans whose retailer id a product has taken since the run are left.
+	 */
+	async fixDifferences(
+		reconciliationId: string,
+		itemIds: string[],
+		userId?: string,
+	) {
+		try {
+			const selected = await db
+				.select()
+				.from(catalogReconciliationItems)
+				.where(
+					and(
+						eq(
+							catalogReconciliationItems.reconciliationID,
+							reconciliationId,
+						),
+						inArray(catalogReconciliationItems.id, itemIds),
+						isNull(catalogReconciliationItems.fixedAt),
+					),
+				);
+
+			if (selected.length === 0) {
+				throw new AppError(
+					'No unfixed differences found for the given ids',
+					StatusCodes.NOT_FOUND,
+				);
+			}
+
+			const markFixed = (ids: string[], fixAction: string) =>
+				ids.length
+					? db
+							.update(catalogReconciliationItems)
+							.set({
+								fixAction,
+								fixError: null,
+								fixedAt: new Date(),
+								fixedBy: userId,
+							})
+							.where(inArray(catalogReconciliationItems.id, ids))
+					: Promise.resolve();
+
+			const productItems = selected.filter((item) => item.productID);
+			const orphaned = selected.filter(
+				(item) => item.kind === 'orphaned',
+			);
+
+			const queued: string[] = [];
+			for (const item of productItems) {
+				const operation = item.kind === 'missing' ? 'create' : 'update';
+				if (item.variantID) {
+					await catalogSyncService.enqueueVariant(
+						{
+							id: item.variantID,
+							productID: item.productID,
+							retailerId: item.retailerId,
+						},
+						operation,
+					);
+				} else {
+					await catalogSyncService.enqueue(
+						{ id: item.productID, contentId: item.retailerId },
+						operation,
+					);
+				}
+				queued.push(item.id);
+			}
+			await markFixed(queued, 'queued_push');
+
+			// A product or variant may have taken an orphan's retailer id since
+			// the run; its item is live again and must stay
+			const deletable: SelectCatalogReconciliationItem[] = [];
+			const inUse: SelectCatalogReconciliationItem[] = [];
+			for (const item of orphaned) {
+				const taken = await catalogSyncService.isRetailerIdInUse(
+					item.retailerId,
+				);
+				(taken ? inUse : deletable).push(item);
+			}
+
+			await db.transaction(async (tx) => {
+				for (const item of deletable) {
+					await catalogSyncService.enqueueOrphanDelete(
+						item.retailerId,
+						tx,
+					);
+				}
+			});
+			await markFixed(
+				deletable.map((item) => item.id),
+				'queued_delete',
+			);
+
+			if (inUse.length > 0) {
+				await db
+					.update(catalogReconciliationItems)
+					.set({
+						fixError:
+							'Retailer id is now used by a product, not deleted',
+					})
+					.where(
+						inArray(
+							catalogReconciliationItems.id,
+							inUse.map((item) => item.id),
+						),
+					);
+			}
+
+			const skipped = selected.filter(
+				(item) => !item.productID && item.kind !== 'orphaned',
+			);
+
+			return {
+				data: {
+					queued: queued.length,
+					queuedDeletes: deletable.length,
+					inUse: inUse.length,
+					skipped: skipped.length,
+				},
+				message:
+					inUse.length > 0
+						? 'Some catalog differences could not be fixed'
+						: 'Catalog differences fixed',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fix catalog differences',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'fixDifferences',
+				{ reconciliationId, itemIds },
+			);
+		}
+	},
+};
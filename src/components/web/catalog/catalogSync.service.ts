@@ -0,0 +1,871 @@
+import axios from 'axios';
+import {
+	and,
+	count,
+	desc,
+	eq,
+	inArray,
+	isNull,
+	lt,
+	lte,
+	ne,
+	sql,
+} from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import AppError from '@/abstractions/AppError';
+import { getBackoffDelay } from '@/components/web/webhookJobs/webhookJobs.service';
+import { db } from '@/database';
+import {
+	catalogItems,
+	catalogSyncOutbox,
+	productMedia,
+	products,
+	productVariants,
+	SelectCatalogSyncOutbox,
+	SelectProduct,
+	SelectProductVariant,
+} from '@/database/schema';
+import { DbOrTx } from '@/database/transactionType/transactionType';
+import env from '@/env';
+import logger from '@/lib/logger';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+type SyncOperation = SelectCatalogSyncOutbox['operation'];
+
+// Operations that send the item's fields; deletes only carry a retailer id
+type PushOperation = Exclude<SyncOperation, 'delete'>;
+
+interface ListSyncJobsInput {
+	page: number;
+	limit: number;
+	status?: SelectCatalogSyncOutbox['status'];
+	productId?: string;
+}
+
+interface GraphBatchResponse {
+	handles?: string[];
+	validation_status?: {
+		retailer_id: string;
+		errors?: { message: string }[];
+	}[];
+}
+
+// A push locked longer than this is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+// No other push for the same product or variant is waiting, so this row may
+// go back to pending. A delete only gives way to a delete of the same item.
+const NO_PENDING_SIBLING = sql`NOT EXISTS (
+	SELECT 1 FROM catalog_sync_outbox AS pending
+	WHERE pending.product_id IS NOT DISTINCT FROM catalog_sync_outbox.product_id
+		AND pending.variant_id IS NOT DISTINCT FROM catalog_sync_outbox.variant_id
+		AND pending.status = 'pending'
+		AND (pending.operation = 'delete') = (catalog_sync_outbox.operation = 'delete')
+		AND (
+			catalog_sync_outbox.operation <> 'delete'
+			OR pending.retailer_id = catalog_sync_outbox.retailer_id
+		)
+)`;
+
+export function isCatalogConfigured(): boolean {
+	return !!env.FB_ACCESS_TOKEN && !!env.FB_CATALOG_ID;
+}
+
+/**
+ * Catalog fields for a product, or for one of its variants grouped under the
+ * product's contentId. Stock pushes only carry what changes with stock;
+ * create and update send the full item, with the product's primary image.
+ */
+function buildCatalogPayload(
+	product: SelectProduct,
+	operation: SyncOperation,
+	variant?: SelectProductVariant,
+	primaryImageUrl?: string,
+): Record<string, unknown> {
+	const stock = variant ?? product;
+	const available =
+		variant && !variant.isActive
+			? 0
+			: Math.max((stock.qty ?? 0) - stock.reservedQty, 0);
+	const stockFields = {
+		price: variant?.amount ?? product.amount,
+		currency: product.currency,
+		availability: available > 0 ? 'in stock' : 'out of stock',
+	};
+	if (operation === 'stock') return stockFields;
+
+	const productImage = primaryImageUrl || product.image_url;
+
+	return {
+		...stockFields,
+		name: variant?.name
+			? `${product.productName} - ${variant.name}`
+			: product.productName,
+		description: product.productName,
+		condition: 'new',
+		brand: 'Default',
+		image_url: variant?.imageUrl || productImage,
+		url:
+			product.redirection_url ||
+			`https://example.com/product/${product.contentId}`,
+		...(variant && {
+			item_group_id: product.contentId,
+			...(variant.size && { size: variant.size }),
+			...(variant.colour && { color: variant.colour }),
+			...(variant.length && {
+				additional_variant_attribute: `Length:${variant.length}`,
+			}),
+		}),
+	};
+}
+
+/**
+ * Graph error message when there is one, so the outbox row says why
+ */
+export function describeSyncError(error: unknown): string {
+	if (axios.isAxiosError(error)) {
+		const graphError = error.response?.data?.error;
+		if (graphError?.message) return graphError.message;
+	}
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Graph rejects a malformed item the same way on every attempt; timeouts,
+ * rate limits and server errors are worth another try
+ */
+function isRetryableSyncError(error: unknown): boolean {
+	if (!axios.isAxiosError(error) || !error.response) return true;
+	const { status } = error.response;
+	return status === StatusCodes.TOO_MANY_REQUESTS || status >= 500;
+}
+
+interface CatalogBatchRequest {
+	method: 'CREATE' | 'UPDATE' | 'DELETE';
+	retailer_id: string;
+	data?: Record<string, unknown>;
+}
+
+/**
+ * Send item requests through the catalog batch API, which answers
+ * synchronously. Used for single-item pushes and deletes. Errors are thrown,
+ * including per-item validation errors that come back with a 200.
+ */
+async function sendCatalogBatch(requests: CatalogBatchRequest[]) {
+	if (!isCatalogConfigured()) {
+		throw new AppError(
+			'Facebook catalog is not configured',
+			StatusCodes.INTERNAL_SERVER_ERROR,
+		);
+	}
+
+	const { data: response } = await axios.post<GraphBatchResponse>(
+		`https://graph.facebook.com/${env.FB_API_VERSION}/${env.FB_CATALOG_ID}/batch`,
+		{
+			access_token: env.FB_ACCESS_TOKEN,
+			allow_upsert: true,
+			requests,
+		},
+	);
+
+	const itemErrors = (response.validation_status ?? []).flatMap(
+		(status) => status.errors ?? [],
+	);
+	if (itemErrors.length > 0) {
+		throw new Error(itemErrors.map((e) => e.message).join('; '));
+	}
+}
+
+interface ItemsBatchStatusResponse {
+	data?: {
+		status: string;
+		errors?: { id?: string; line?: number; message: string }[];
+	}[];
+}
+
+interface PreparedPush {
+	job: SelectCatalogSyncOutbox;
+	retailerId: string;
+	payload: Record<string, unknown>;
+}
+
+const ITEMS_BATCH_STATUS_POLLS = 10;
+const ITEMS_BATCH_STATUS_DELAY_MS = 2 * 1000;
+
+function toBatchMethod(operation: SyncOperation): 'CREATE' | 'UPDATE' {
+	return operation === 'create' ? 'CREATE' : 'UPDATE';
+}
+
+// Batch API field names that the data feed format used by items_batch
+// calls differently; the rest are the same in both
+const ITEMS_BATCH_FIELD_NAMES: Record<string, string> = {
+	name: 'title',
+	url: 'link',
+	image_url: 'image_link',
+};
+
+/**
+ * items_batch takes items in the data feed format: feed field names, and the
+ * price and currency as one "1500 NGN" string
+ */
+function toItemsBatchData(
+	retailerId: string,
+	payload: Record<string, unknown>,
+): Record<string, unknown> {
+	const { price, currency, ...rest } = payload;
+	const fields = Object.fromEntries(
+		Object.entries(rest).map(([key, value]) => [
+			ITEMS_BATCH_FIELD_NAMES[key] ?? key,
+			value,
+		]),
+	);
+	return {
+		id: retailerId,
+		...fields,
+		...(price !== null && price !== undefined
+			? { price: `${price} ${currency ?? ''}`.trim() }
+			: {}),
+	};
+}
+
+/**
+ * Send many items in one items_batch call and wait for Graph to process it.
+ * Returns the error per retailer id; items not in the map went through.
+ * Throws when the batch as a whole fails or its status never settles.
+ */
+async function sendItemsBatch(
+	pushes: PreparedPush[],
+): Promise<Map<string, string>> {
+	if (!isCatalogConfigured()) {
+		throw new AppError(
+			'Facebook catalog is not configured',
+			StatusCodes.INTERNAL_SERVER_ERROR,
+		);
+	}
+
+	const catalogUrl = `https://graph.facebook.com/${env.FB_API_VERSION}/${env.FB_CATALOG_ID}`;
+	const { data: response } = await axios.post<GraphBatchResponse>(
+		`${catalogUrl}/items_batch`,
+		{
+			access_token: env.FB_ACCESS_TOKEN,
+			item_type: 'PRODUCT_ITEM',
+			allow_upsert: true,
+			requests: pushes.map(({ job, retailerId, payload }) => ({
+				method: toBatchMethod(job.operation),
+				data: toItemsBatchData(retailerId, payload),
+			})),
+		},
+	);
+
+	const handle = response.handles?.[0];
+	if (!handle) throw new Error('Graph returned no batch handle');
+
+	for (let poll = 0; poll < ITEMS_BATCH_STATUS_POLLS; poll++) {
+		await new Promise((resolve) =>
+			setTimeout(resolve, ITEMS_BATCH_STATUS_DELAY_MS),
+		);
+
+		const { data: status } = await axios.get<ItemsBatchStatusResponse>(
+			`${catalogUrl}/check_batch_request_status`,
+			{ params: { handle, access_token: env.FB_ACCESS_TOKEN } },
+		);
+		const result = status.data?.[0];
+		if (result?.status !== 'finished') continue;
+
+		const errors = new Map<string, string>();
+		for (const error of result.errors ?? []) {
+			const retailerId =
+				error.id ??
+				(error.line !== undefined
+					? pushes[error.line]?.retailerId
+					: undefined);
+			if (retailerId) errors.set(retailerId, error.message);
+		}
+		return errors;
+	}
+
+	throw new Error(`Batch ${handle} did not finish in time`);
+}
+
+interface QueuedPush {
+	productID: string;
+	variantID?: string;
+	retailerId: string;
+	operation: PushOperation;
+}
+
+/**
+ * Insert a push, or fold it into the one already waiting for the same
+ * product or variant, keeping the broader operation (create > update > stock)
+ */
+async function queuePush(push: QueuedPush, txOrDb: DbOrTx) {
+	const forVariant = !!push.variantID;
+
+	await txOrDb
+		.insert(catalogSyncOutbox)
+		.values({ ...push, maxAttempts: env.CATALOG_SYNC_MAX_ATTEMPTS })
+		.onConflictDoUpdate({
+			target: forVariant
+				? catalogSyncOutbox.variantID
+				: catalogSyncOutbox.productID,
+			targetWhere: forVariant
+				? sql`${catalogSyncOutbox.status} = 'pending' AND ${catalogSyncOutbox.variantID} IS NOT NULL AND ${catalogSyncOutbox.operation}::text <> 'delete'`
+				: sql`${catalogSyncOutbox.status} = 'pending' AND ${catalogSyncOutbox.variantID} IS NULL AND ${catalogSyncOutbox.operation}::text <> 'delete'`,
+			set: {
+				retailerId: sql`excluded.retailer_id`,
+				operation: sql`CASE
+					WHEN ${catalogSyncOutbox.operation} = 'create' OR excluded.operation = 'create' THEN 'create'
+					WHEN ${catalogSyncOutbox.operation} = 'update' OR excluded.operation = 'update' THEN 'update'
+					ELSE 'stock'
+				END::catalog_sync_operation`,
+				updatedAt: new Date(),
+			},
+		});
+}
+
+export const catalogSyncService = {
+	/**
+	 * Queue a catalog push for a product. Call it in the same transaction as
+	 * the product change.
+	 */
+	async enqueue(
+		product: Pick<SelectProduct, 'id' | 'contentId'>,
+		operation: PushOperation,
+		txOrDb: DbOrTx = db,
+	) {
+		await queuePush(
+			{ productID: product.id, retailerId: product.contentId, operation },
+			txOrDb,
+		);
+	},
+
+	/**
+	 * Queue a catalog push for one variant, sent under its own retailer id
+	 */
+	async enqueueVariant(
+		variant: Pick<SelectProductVariant, 'id' | 'productID' | 'retailerId'>,
+		operation: PushOperation,
+		txOrDb: DbOrTx = db,
+	) {
+		await queuePush(
+			{
+				productID: variant.productID,
+				variantID: variant.id,
+				retailerId: variant.retailerId,
+				operation,
+			},
+			txOrDb,
+		);
+	},
+
+	/**
+	 * Queue removal of a retailer id the variant no longer uses, so the
+	 * catalog does not keep selling the old item
+	 */
+	async enqueueVariantDelete(
+		variant: Pick<SelectProductVariant, 'id' | 'productID'>,
+		retailerId: string,
+		txOrDb: DbOrTx = db,
+	) {
+		await txOrDb.insert(catalogSyncOutbox).values({
+			productID: variant.productID,
+			variantID: variant.id,
+			retailerId,
+			operation: 'delete',
+			maxAttempts: env.CATALOG_SYNC_MAX_ATTEMPTS,
+		});
+	},
+
+	/**
+	 * Queue removal of a contentId the product no longer uses, so the catalog
+	 * does not keep selling the old item
+	 */
+	async enqueueProductDelete(
+		product: Pick<SelectProduct, 'id'>,
+		retailerId: string,
+		txOrDb: DbOrTx = db,
+	) {
+		await txOrDb.insert(catalogSyncOutbox).values({
+			productID: product.id,
+			retailerId,
+			operation: 'delete',
+			maxAttempts: env.CATALOG_SYNC_MAX_ATTEMPTS,
+		});
+	},
+
+	/**
+	 * Queue removal of a catalog item no product or variant owns (an orphan
+	 * found by reconciliation)
+	 */
+	async enqueueOrphanDelete(retailerId: string, txOrDb: DbOrTx = db) {
+		await txOrDb.insert(catalogSyncOutbox).values({
+			retailerId,
+			operation: 'delete',
+			maxAttempts: env.CATALOG_SYNC_MAX_ATTEMPTS,
+		});
+	},
+
+	/**
+	 * Whether a product or variant lists under this retailer id right now
+	 */
+	async isRetailerIdInUse(retailerId: string, txOrDb: DbOrTx = db) {
+		const [product] = await txOrDb
+			.select({ id: products.id })
+			.from(products)
+			.where(eq(products.contentId, retailerId))
+			.limit(1);
+		if (product) return true;
+
+		const [variant] = await txOrDb
+			.select({ id: productVariants.id })
+			.from(productVariants)
+			.where(eq(productVariants.retailerId, retailerId))
+			.limit(1);
+		return !!variant;
+	},
+
+	/**
+	 * Lock up to `limit` due pushes for this worker (SKIP LOCKED, same as the
+	 * webhook job queue)
+	 */
+	async claimDue(limit: number): Promise<SelectCatalogSyncOutbox[]> {
+		const due = db
+			.select({ id: catalogSyncOutbox.id })
+			.from(catalogSyncOutbox)
+			.where(
+				and(
+					eq(catalogSyncOutbox.status, 'pending'),
+					lte(catalogSyncOutbox.nextRunAt, sql`now()`),
+				),
+			)
+			.orderBy(catalogSyncOutbox.nextRunAt)
+			.limit(limit)
+			.for('update', { skipLocked: true });
+
+		return db
+			.update(catalogSyncOutbox)
+			.set({
+				status: 'processing',
+				attempts: sql`${catalogSyncOutbox.attempts} + 1`,
+				lockedAt: new Date(),
+				updatedAt: new Date(),
+			})
+			.where(inArray(catalogSyncOutbox.id, due))
+			.returning();
+	},
+
+	/**
+	 * Push claimed rows in one items_batch call. Payloads are built from the
+	 * products as they are now, so a push that waited in the queue never
+	 * sends stale values. Items the batch rejects (or the whole set, if the
+	 * batch call itself fails) fall back to one call each, so a single bad
+	 * item cannot hold up the rest.
+	 */
+	async pushBatch(jobs: SelectCatalogSyncOutbox[]) {
+		const result = { synced: 0, retry: 0, failed: 0 };
+		const productIds = jobs
+			.map((job) => job.productID)
+			.filter((id): id is string => !!id);
+		const productRows =
+			productIds.length > 0
+				? await db
+						.select()
+						.from(products)
+						.where(inArray(products.id, productIds))
+				: [];
+		const productsById = new Map(productRows.map((p) => [p.id, p]));
+
+		const variantIds = jobs
+			.map((job) => job.variantID)
+			.filter((id): id is string => !!id);
+		const variantRows =
+			variantIds.length > 0
+				? await db
+						.select()
+						.from(productVariants)
+						.where(inArray(productVariants.id, variantIds))
+				: [];
+		const variantsById = new Map(variantRows.map((v) => [v.id, v]));
+
+		const primaryImages =
+			productIds.length > 0
+				? await db
+						.select({
+							productID: productMedia.productID,
+							url: productMedia.url,
+						})
+						.from(productMedia)
+						.where(
+							and(
+								eq(productMedia.isPrimary, true),
+								inArray(productMedia.productID, productIds),
+							),
+						)
+				: [];
+		const primaryImageByProduct = new Map(
+			primaryImages.map((image) => [image.productID, image.url]),
+		);
+
+		const pushes: PreparedPush[] = [];
+		for (const job of jobs) {
+			if (job.operation === 'delete') {
+				result[await this.pushDelete(job)] += 1;
+				continue;
+			}
+
+			const product = job.productID
+				? productsById.get(job.productID)
+				: undefined;
+			if (!product) {
+				result[
+					await this.fail(
+						job,
+						new AppError(
+							'Product not found',
+							StatusCodes.NOT_FOUND,
+						),
+					)
+				] += 1;
+				continue;
+			}
+
+			const variant = job.variantID
+				? variantsById.get(job.variantID)
+				: undefined;
+			if (job.variantID && !variant) {
+				result[
+					await this.fail(
+						job,
+						new AppError(
+							'Product variant not found',
+							StatusCodes.NOT_FOUND,
+						),
+					)
+				] += 1;
+				continue;
+			}
+
+			const payload = buildCatalogPayload(
+				product,
+				job.operation,
+				variant,
+				primaryImageByProduct.get(product.id),
+			);
+			await db
+				.update(catalogSyncOutbox)
+				.set({ payload, updatedAt: new Date() })
+				.where(eq(catalogSyncOutbox.id, job.id));
+			pushes.push({
+				job,
+				retailerId: variant?.retailerId ?? product.contentId,
+				payload,
+			});
+		}
+		if (pushes.length === 0) return result;
+
+		let itemErrors: Map<string, string>;
+		try {
+			itemErrors = await sendItemsBatch(pushes);
+		} catch (error) {
+			const message = describeSyncError(error);
+			logger.warn(
+				'[CatalogSync] Batch push failed, sending items one by one',
+				{
+					items: pushes.length,
+					error: message,
+				},
+			);
+			itemErrors = new Map(pushes.map((p) => [p.retailerId, message]));
+		}
+
+		for (const { job, retailerId, payload } of pushes) {
+			if (!itemErrors.has(retailerId)) {
+				await this.complete(job.id);
+				result.synced += 1;
+				continue;
+			}
+
+			try {
+				await sendCatalogBatch([
+					{
+						method: toBatchMethod(job.operation),
+						retailer_id: retailerId,
+						data: payload,
+					},
+				]);
+				await this.complete(job.id);
+				result.synced += 1;
+			} catch (error) {
+				const outcome = await this.fail(job, error);
+				result[outcome] += 1;
+				logger.error(`[CatalogSync] Push failed (${outcome})`, {
+					jobId: job.id,
+					productId: job.productID,
+					operation: job.operation,
+					attempts: job.attempts,
+					batchError: itemErrors.get(retailerId),
+					error: describeSyncError(error),
+				});
+			}
+		}
+
+		return result;
+	},
+
+	/**
+	 * Send a queued delete on its own; the item no longer exists here, so
+	 * there is nothing to batch it with. Skipped when a product or variant
+	 * has taken the retailer id since it was queued, as the item is live
+	 * again.
+	 */
+	async pushDelete(job: SelectCatalogSyncOutbox) {
+		try {
+			if (await this.isRetailerIdInUse(job.retailerId)) {
+				await this.complete(job.id);
+				return 'synced' as const;
+			}
+
+			await sendCatalogBatch([
+				{ method: 'DELETE', retailer_id: job.retailerId },
+			]);
+			await db
+				.delete(catalogItems)
+				.where(eq(catalogItems.retailerId, job.retailerId));
+			await this.complete(job.id);
+			return 'synced' as const;
+		} catch (error) {
+			const outcome = await this.fail(job, error);
+			logger.error(`[CatalogSync] Delete failed (${outcome})`, {
+				jobId: job.id,
+				retailerId: job.retailerId,
+				attempts: job.attempts,
+				error: describeSyncError(error),
+			});
+			return outcome;
+		}
+	},
+
+	async complete(jobId: string) {
+		const now = new Date();
+		await db
+			.update(catalogSyncOutbox)
+			.set({
+				status: 'synced',
+				syncedAt: now,
+				lockedAt: null,
+				lastError: null,
+				updatedAt: now,
+			})
+			.where(eq(catalogSyncOutbox.id, jobId));
+	},
+
+	/**
+	 * Schedule a retry with exponential backoff, or mark the push failed once
+	 * it is out of attempts. A retry gives way to a newer push for the same
+	 * product, which will send the latest values anyway.
+	 */
+	async fail(job: SelectCatalogSyncOutbox, error: unknown) {
+		const message = describeSyncError(error);
+		const now = new Date();
+
+		if (job.attempts < job.maxAttempts && isRetryableSyncError(error)) {
+			const [retried] = await db
+				.update(catalogSyncOutbox)
+				.set({
+					status: 'pending',
+					nextRunAt: new Date(
+						now.getTime() + getBackoffDelay(job.attempts),
+					),
+					lockedAt: null,
+					lastError: message,
+					updatedAt: now,
+				})
+				.where(
+					and(eq(catalogSyncOutbox.id, job.id), NO_PENDING_SIBLING),
+				)
+				.returning({ id: catalogSyncOutbox.id });
+			if (retried) return 'retry' as const;
+		}
+
+		await db
+			.update(catalogSyncOutbox)
+			.set({
+				status: 'failed',
+				lockedAt: null,
+				lastError: message,
+				updatedAt: now,
+			})
+			.where(eq(catalogSyncOutbox.id, job.id));
+		return 'failed' as const;
+	},
+
+	/**
+	 * Release pushes left in `processing` by a worker that died mid-run
+	 */
+	async recoverStale(): Promise<number> {
+		const cutoff = new Date(Date.now() - STALE_LOCK_MS);
+		const stale = and(
+			eq(catalogSyncOutbox.status, 'processing'),
+			lt(catalogSyncOutbox.lockedAt, cutoff),
+		);
+
+		const recovered = await db
+			.update(catalogSyncOutbox)
+			.set({ status: 'pending', lockedAt: null, updatedAt: new Date() })
+			.where(and(stale, NO_PENDING_SIBLING))
+			.returning({ id: catalogSyncOutbox.id });
+
+		// The rest already have a newer push queued behind them
+		await db
+			.update(catalogSyncOutbox)
+			.set({
+				status: 'failed',
+				lockedAt: null,
+				lastError:
+					'Worker stopped mid-push, superseded by a newer push',
+				updatedAt: new Date(),
+			})
+			.where(stale);
+
+		return recovered.length;
+	},
+
+	/**
+	 * Sync state shown on the product (or one variant): the latest push and
+	 * when it last reached the catalog
+	 */
+	async getProductSyncStatus(productId: string, variantId?: string) {
+		const target = and(
+			eq(catalogSyncOutbox.productID, productId),
+			variantId
+				? eq(catalogSyncOutbox.variantID, variantId)
+				: isNull(catalogSyncOutbox.variantID),
+			ne(catalogSyncOutbox.operation, 'delete'),
+		);
+		const latest = await db.query.catalogSyncOutbox.findFirst({
+			where: target,
+			orderBy: [desc(catalogSyncOutbox.createdAt)],
+		});
+		const lastSynced = await db.query.catalogSyncOutbox.findFirst({
+			where: and(target, eq(catalogSyncOutbox.status, 'synced')),
+			orderBy: [desc(catalogSyncOutbox.syncedAt)],
+			columns: { syncedAt: true },
+		});
+
+		return {
+			status: latest?.status ?? null,
+			operation: latest?.operation ?? null,
+			attempts: latest?.attempts ?? 0,
+			lastError: latest?.lastError ?? null,
+			updatedAt: latest?.updatedAt ?? null,
+			lastSyncedAt: lastSynced?.syncedAt ?? null,
+		};
+	},
+
+	/**
+	 * List catalog pushes, newest first
+	 */
+	async list({ page, limit, status, productId }: ListSyncJobsInput) {
+		try {
+			const filters = [];
+			if (status) filters.push(eq(catalogSyncOutbox.status, status));
+			if (productId) {
+				filters.push(eq(catalogSyncOutbox.productID, productId));
+			}
+			const where = filters.length ? and(...filters) : undefined;
+
+			const jobs = await db
+				.select()
+				.from(catalogSyncOutbox)
+				.where(where)
+				.orderBy(desc(catalogSyncOutbox.createdAt))
+				.limit(limit)
+				.offset((page - 1) * limit);
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(catalogSyncOutbox)
+				.where(where);
+
+			return {
+				data: {
+					jobs,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Catalog sync jobs fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch catalog sync jobs',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listCatalogSyncJobs',
+				{ page, limit, status, productId },
+			);
+		}
+	},
+
+	/**
+	 * Put a failed push back on the queue with a fresh set of attempts
+	 */
+	async retry(jobId: string) {
+		try {
+			const job = await db.query.catalogSyncOutbox.findFirst({
+				where: eq(catalogSyncOutbox.id, jobId),
+			});
+
+			if (!job) {
+				throw new AppError(
+					'Catalog sync job not found',
+					StatusCodes.NOT_FOUND,
+				);
+			}
+			if (job.status !== 'failed') {
+				throw new AppError(
+					'Only failed catalog sync jobs can be retried',
+					StatusCodes.CONFLICT,
+				);
+			}
+
+			const [retried] = await db
+				.update(catalogSyncOutbox)
+				.set({
+					status: 'pending',
+					attempts: 0,
+					nextRunAt: new Date(),
+					lockedAt: null,
+					updatedAt: new Date(),
+				})
+				.where(
+					and(
+						eq(catalogSyncOutbox.id, jobId),
+						eq(catalogSyncOutbox.status, 'failed'),
+						NO_PENDING_SIBLING,
+					),
+				)
+				.returning();
+
+			if (!retried) {
+				throw new AppError(
+					'A newer catalog sync is already queued for this product',
+					StatusCodes.CONFLICT,
+				);
+			}
+
+			return { data: retried, message: 'Catalog sync job requeued' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to retry catalog sync job',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'retryCatalogSyncJob',
+				{ jobId },
+			);
+		}
+	},
+};
@@ -0,0 +1,57 @@
+import { catalogSyncService, isCatalogConfigured } from './catalogSync.service';
+import env from '@/env';
+import logger from '@/lib/logger';
+
+export class CatalogSyncWorker {
+	private static intervalId: NodeJS.Timeout;
+	private static running = false;
+
+	private static async poll() {
+		if (this.running) return;
+		this.running = true;
+
+		try {
+			await catalogSyncService.recoverStale();
+
+			let jobs = await catalogSyncService.claimDue(
+				env.CATALOG_SYNC_BATCH_SIZE,
+			);
+			while (jobs.length > 0) {
+				const result = await catalogSyncService.pushBatch(jobs);
+				logger.info('[CatalogSyncWorker] Batch pushed', result);
+				jobs = await catalogSyncService.claimDue(
+					env.CATALOG_SYNC_BATCH_SIZE,
+				);
+			}
+		} catch (err) {
+			logger.error('Catalog sync polling failed', err);
+		} finally {
+			this.running = false;
+		}
+	}
+
+	/**
+	 * Poll right away instead of waiting for the next tick
+	 */
+	static trigger() {
+		if (this.intervalId) this.poll();
+	}
+
+	static init(intervalMs: number = 10 * 1000) {
+		if (!isCatalogConfigured()) {
+			logger.warn(
+				'[CatalogSyncWorker] Facebook catalog not configured, not started',
+			);
+			return;
+		}
+
+		this.poll();
+		this.intervalId = setInterval(() => this.poll(), intervalMs);
+		logger.info('[CatalogSyncWorker] Interval started');
+	}
+
+	static stopIt() {
+		if (this.intervalId) clearInterval(this.intervalId);
+		logger.info('[CatalogSyncWorker] Interval stopped');
+	}
+}
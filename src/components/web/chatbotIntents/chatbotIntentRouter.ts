@@ -0,0 +1,115 @@
+import { db } from '@/database';
+import { chatbotIntents, InsertChatbotIntent } from '@/database/schema';
+import { DEFAULT_CHATBOT_INTENTS } from '@/database/seeds/chatbotIntents.seed';
+import logger from '@/lib/logger';
+
+export type ChatbotIntentRoute = Pick<
+	InsertChatbotIntent,
+	'name' | 'action' | 'responseText' | 'journey'
+>;
+
+interface MatchInput {
+	text?: string | null;
+	buttonId?: string | null;
+}
+
+/**
+ * Normalise text/button ids so "add_points", "Add  Points" and "ADD POINTS"
+ * all match the same keyword
+ */
+export function normalizeIntentKey(value: string): string {
+	return value.toUpperCase().replace(/_/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export class ChatbotIntentRouter {
+	private static textRoutes: Map<string, ChatbotIntentRoute> = new Map();
+	private static buttonRoutes: Map<string, ChatbotIntentRoute> = new Map();
+	private static loading: Promise<void> | null = null;
+	private static intervalId: NodeJS.Timeout;
+
+	private static buildRoutes(intents: InsertChatbotIntent[]) {
+		const textRoutes = new Map<string, ChatbotIntentRoute>();
+		const buttonRoutes = new Map<string, ChatbotIntentRoute>();
+
+		// Highest priority first so it claims shared keywords
+		const sorted = [...intents].sort(
+			(a, b) => (b.priority ?? 0) - (a.priority ?? 0),
+		);
+
+		for (const intent of sorted) {
+			const route: ChatbotIntentRoute = {
+				name: intent.name,
+				action: intent.action,
+				responseText: intent.responseText,
+				journey: intent.journey,
+			};
+
+			for (const keyword of [
+				...(intent.keywords ?? []),
+				...(intent.synonyms ?? []),
+			]) {
+				const key = normalizeIntentKey(keyword);
+				if (key && !textRoutes.has(key)) textRoutes.set(key, route);
+			}
+
+			for (const buttonId of intent.buttonIds ?? []) {
+				const key = normalizeIntentKey(buttonId);
+				if (key && !buttonRoutes.has(key)) buttonRoutes.set(key, route);
+			}
+		}
+
+		this.textRoutes = textRoutes;
+		this.buttonRoutes = buttonRoutes;
+	}
+
+	/**
+	 * Reload the routing table from `chatbot_intents`. Until the table has
+	 * been populated the bot keeps its built-in defaults.
+	 */
+	static async refresh() {
+		try {
+			const rows = await db.select().from(chatbotIntents);
+			const active = rows.filter((intent) => intent.isActive);
+
+			this.buildRoutes(rows.length ? active : DEFAULT_CHATBOT_INTENTS);
+			logger.info(
+				`[ChatbotIntentRouter] Loaded ${rows.length ? active.length : 'default'} intents`,
+			);
+		} catch (err) {
+			logger.error('Chatbot intent refresh failed', err);
+		}
+	}
+
+	/**
+	 * Find the intent for an incoming text message or button reply
+	 */
+	static async match({
+		text,
+		buttonId,
+	}: MatchInput): Promise<ChatbotIntentRoute | null> {
+		if (!this.loading) this.loading = this.refresh();
+		await this.loading;
+
+		if (buttonId) {
+			const route = this.buttonRoutes.get(normalizeIntentKey(buttonId));
+			if (route) return route;
+		}
+
+		if (text) {
+			return this.textRoutes.get(normalizeIntentKey(text)) ?? null;
+		}
+
+		return null;
+	}
+
+	static init(intervalMs: number = 5 * 60 * 1000) {
+		this.loading = this.refresh();
+		this.intervalId = setInterval(() => this.refresh(), intervalMs);
+		logger.info('[ChatbotIntentRouter] Interval started');
+	}
+
+	static stopIt() {
+		if (this.intervalId) clearInterval(this.intervalId);
+		logger.info('[ChatbotIntentRouter] Interval stopped');
+	}
+}
@@ -0,0 +1,73 @@
+import { Request, Response, Router } from 'express';
+import {
+	ChatbotIntentIdParamsParser,
+	ChatbotIntentListQueryParser,
+	CreateChatbotIntentBodyParser,
+	UpdateChatbotIntentBodyParser,
+} from './chatbotIntents.parser';
+import { chatbotIntentService } from './chatbotIntents.service';
+import BaseApi from '@/components/BaseApi';
+
+export default class ChatbotIntentController extends BaseApi {
+	constructor() {
+		super();
+	}
+
+	public register(): Router {
+		this.router.get('/', this.getIntents.bind(this));
+		this.router.get('/:id', this.getIntentById.bind(this));
+		this.router.post('/', this.createIntent.bind(this));
+		this.router.patch('/:id', this.updateIntent.bind(this));
+		this.router.delete('/:id', this.deleteIntent.bind(this));
+
+		return this.router;
+	}
+
+	public async getIntents(req: Request, res: Response) {
+		const query = ChatbotIntentListQueryParser.parse(req.query);
+		const { data, message } = await chatbotIntentService.listIntents(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getIntentById(req: Request, res: Response) {
+		const { id } = ChatbotIntentIdParamsParser.parse(req.params);
+		const { data, message } = await chatbotIntentService.getIntentById(id);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async createIntent(req: Request, res: Response) {
+		const body = CreateChatbotIntentBodyParser.parse(req.body);
+		const { data, message } = await chatbotIntentService.createIntent(
+			body,
+			req.user_details?.id,
+		);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async updateIntent(req: Request, res: Response) {
+		const { id } = ChatbotIntentIdParamsParser.parse(req.params);
+		const body = UpdateChatbotIntentBodyParser.parse(req.body);
+		const { data, message } = await chatbotIntentService.updateIntent(
+			id,
+			body,
+			req.user_details?.id,
+		);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async deleteIntent(req: Request, res: Response) {
+		const { id } = ChatbotIntentIdParamsParser.parse(req.params);
+		const { data, message } = await chatbotIntentService.deleteIntent(id);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+}
@@ -0,0 +1,75 @@
+import { z } from 'zod/v4';
+import { JOURNEY_NAMES } from '../journeys/definitions';
+import { Zerror } from '@/utils/validations';
+
+const phraseList = z.array(z.string().trim().min(1).max(100)).max(100);
+
+const ChatbotIntentFields = z.object({
+	name: z.string().trim().min(1).max(100),
+	description: z.string().trim().max(1000).nullish(),
+	keywords: phraseList.default([]),
+	synonyms: phraseList.default([]),
+	buttonIds: phraseList.default([]),
+	action: z.enum([
+		'menu',
+		'add_points',
+		'catalog',
+		'balance',
+		'try_wig',
+		'reply_text',
+		'start_journey',
+	]),
+	responseText: z.string().trim().min(1).max(4096).nullish(),
+	journey: z.enum(JOURNEY_NAMES).nullish(),
+	priority: z.coerce.number().int().default(0),
+	isActive: z.boolean().default(true),
+});
+
+export const CreateChatbotIntentBodyParser = ChatbotIntentFields.refine(
+	(v) => v.keywords.length + v.synonyms.length + v.buttonIds.length > 0,
+	{ message: 'Provide at least one keyword, synonym or button id' },
+)
+	.refine((v) => v.action !== 'reply_text' || !!v.responseText, {
+		message: 'responseText is required for the reply_text action',
+		path: ['responseText'],
+	})
+	.refine((v) => v.action !== 'start_journey' || !!v.journey, {
+		message: 'journey is required for the start_journey action',
+		path: ['journey'],
+	});
+
+export const UpdateChatbotIntentBodyParser = z
+	.object({
+		name: ChatbotIntentFields.shape.name,
+		description: ChatbotIntentFields.shape.description,
+		keywords: phraseList,
+		synonyms: phraseList,
+		buttonIds: phraseList,
+		action: ChatbotIntentFields.shape.action,
+		responseText: ChatbotIntentFields.shape.responseText,
+		journey: ChatbotIntentFields.shape.journey,
+		priority: z.coerce.number().int(),
+		isActive: z.boolean(),
+	})
+	.partial();
+
+export const ChatbotIntentListQueryParser = z.object({
+	isActive: z
+		.enum(['true', 'false'])
+		.transform((v) => v === 'true')
+		.optional(),
+	action: ChatbotIntentFields.shape.action.optional(),
+});
+
+export const ChatbotIntentIdParamsParser = z.object({
+	id: z.uuid({
+		error: (issue) => Zerror(issue, 'Intent id', 'uuid'),
+	}),
+});
+
+export type CreateChatbotIntentInput = z.infer<
+	typeof CreateChatbotIntentBodyParser
+>;
+export type UpdateChatbotIntentInput = z.infer<
+	typeof UpdateChatbotIntentBodyParser
+>;
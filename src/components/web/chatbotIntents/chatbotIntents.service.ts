@@ -0,0 +1,209 @@
+import { and, desc, eq, ne } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import { ChatbotIntentRouter } from './chatbotIntentRouter';
+import {
+	CreateChatbotIntentInput,
+	UpdateChatbotIntentInput,
+} from './chatbotIntents.parser';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import { chatbotIntents } from '@/database/schema';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+interface ListChatbotIntentsInput {
+	isActive?: boolean;
+	action?: CreateChatbotIntentInput['action'];
+}
+
+async function assertNameAvailable(name: string, excludeId?: string) {
+	const [existing] = await db
+		.select({ id: chatbotIntents.id })
+		.from(chatbotIntents)
+		.where(
+			excludeId
+				? and(
+						eq(chatbotIntents.name, name),
+						ne(chatbotIntents.id, excludeId),
+					)
+				: eq(chatbotIntents.name, name),
+		)
+		.limit(1);
+
+	if (existing) {
+		throw new AppError(
+			`An intent named "${name}" already exists`,
+			StatusCodes.CONFLICT,
+		);
+	}
+}
+
+export const chatbotIntentService = {
+	async listIntents({ isActive, action }: ListChatbotIntentsInput) {
+		try {
+			const filters = [];
+			if (isActive !== undefined) {
+				filters.push(eq(chatbotIntents.isActive, isActive));
+			}
+			if (action) filters.push(eq(chatbotIntents.action, action));
+
+			const data = await db
+				.select()
+				.from(chatbotIntents)
+				.where(filters.length ? and(...filters) : undefined)
+				.orderBy(desc(chatbotIntents.priority), chatbotIntents.name);
+
+			return { data, message: 'Chatbot intents fetched successfully' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch chatbot intents',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listChatbotIntents',
+				{ isActive, action },
+			);
+		}
+	},
+
+	async getIntentById(intentId: string) {
+		try {
+			const intent = await db.query.chatbotIntents.findFirst({
+				where: eq(chatbotIntents.id, intentId),
+			});
+
+			if (!intent) {
+				throw new AppError(
+					'Chatbot intent not found',
+					StatusCodes.NOT_FOUND,
+				);
+			}
+
+			return {
+				data: intent,
+				message: 'Chatbot intent fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch chatbot intent',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'getChatbotIntentById',
+				{ intentId },
+			);
+		}
+	},
+
+	async createIntent(input: CreateChatbotIntentInput, userId?: string) {
+		try {
+			await assertNameAvailable(input.name);
+
+			const [intent] = await db
+				.insert(chatbotIntents)
+				.values({ ...input, createdBy: userId, updatedBy: userId })
+				.returning();
+
+			await ChatbotIntentRouter.refresh();
+
+			return {
+				data: intent,
+				message: 'Chatbot intent created successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to create chatbot intent',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'createChatbotIntent',
+				{ name: input.name, userId },
+			);
+		}
+	},
+
+	async updateIntent(
+		intentId: string,
+		input: UpdateChatbotIntentInput,
+		userId?: string,
+	) {
+		try {
+			const existing = await db.query.chatbotIntents.findFirst({
+				where: eq(chatbotIntents.id, intentId),
+			});
+
+			if (!existing) {
+				throw new AppError(
+					'Chatbot intent not found',
+					StatusCodes.NOT_FOUND,
+				);
+			}
+
+			if (input.name && input.name !== existing.name) {
+				await assertNameAvailable(input.name, intentId);
+			}
+
+			const merged = { ...existing, ...input };
+			if (merged.action === 'reply_text' && !merged.responseText) {
+				throw new AppError(
+					'responseText is required for the reply_text action',
+					StatusCodes.BAD_REQUEST,
+				);
+			}
+			if (merged.action === 'start_journey' && !merged.journey) {
+				throw new AppError(
+					'journey is required for the start_journey action',
+					StatusCodes.BAD_REQUEST,
+				);
+			}
+
+			const [intent] = await db
+				.update(chatbotIntents)
+				.set({ ...input, updatedBy: userId, updatedAt: new Date() })
+				.where(eq(chatbotIntents.id, intentId))
+				.returning();
+
+			await ChatbotIntentRouter.refresh();
+
+			return {
+				data: intent,
+				message: 'Chatbot intent updated successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to update chatbot intent',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'updateChatbotIntent',
+				{ intentId, userId },
+			);
+		}
+	},
+
+	async deleteIntent(intentId: string) {
+		try {
+			const [deleted] = await db
+				.delete(chatbotIntents)
+				.where(eq(chatbotIntents.id, intentId))
+				.returning({ id: chatbotIntents.id });
+
+			if (!deleted) {
+				throw new AppError(
+					'Chatbot intent not found',
+					StatusCodes.NOT_FOUND,
+				);
+			}
+
+			await ChatbotIntentRouter.refresh();
+
+			return {
+				data: deleted,
+				message: 'Chatbot intent deleted successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to delete chatbot intent',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'deleteChatbotIntent',
+				{ intentId },
+			);
+		}
+	},
+};
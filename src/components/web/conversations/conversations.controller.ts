@@ -0,0 +1,134 @@
+import { Request, Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { WhatsAppMessageService } from '../webhook/whatsapp-message.service';
+import {
+	ConversationIdParamsParser,
+	ConversationListQueryParser,
+	ConversationMessagesQueryParser,
+	ConversationReplyBodyParser,
+	DeliveryReportQueryParser,
+	FailedMessagesQueryParser,
+} from './conversations.parser';
+import { conversationService } from './conversations.service';
+import AppError from '@/abstractions/AppError';
+import BaseApi from '@/components/BaseApi';
+import logger from '@/lib/logger';
+
+export default class ConversationController extends BaseApi {
+	private whatsappMessageService: WhatsAppMessageService;
+
+	constructor() {
+		super();
+		this.whatsappMessageService = new WhatsAppMessageService();
+	}
+
+	public register(): Router {
+		this.router.get('/', this.getConversations.bind(this));
+		this.router.get('/reports/delivery', this.getDeliveryReport.bind(this));
+		this.router.get('/reports/failures', this.getFailedMessages.bind(this));
+		this.router.get('/media/:mediaId', this.getMedia.bind(this));
+		this.router.get('/:id', this.getConversationById.bind(this));
+		this.router.get('/:id/window', this.getWindow.bind(this));
+		this.router.post('/:id/messages', this.sendReply.bind(this));
+		this.router.patch('/:id/read', this.markAsRead.bind(this));
+
+		return this.router;
+	}
+
+	public async getConversations(req: Request, res: Response) {
+		const query = ConversationListQueryParser.parse(req.query);
+		const { data, message } =
+			await conversationService.listConversations(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getConversationById(req: Request, res: Response) {
+		const { id } = ConversationIdParamsParser.parse(req.params);
+		const query = ConversationMessagesQueryParser.parse(req.query);
+		const { data, message } =
+			await conversationService.getConversationMessages(id, query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getWindow(req: Request, res: Response) {
+		const { id } = ConversationIdParamsParser.parse(req.params);
+		const { data, message } =
+			await conversationService.getConversationWindow(id);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async sendReply(req: Request, res: Response) {
+		const { id } = ConversationIdParamsParser.parse(req.params);
+		const body = ConversationReplyBodyParser.parse(req.body);
+		const { data, message } = await conversationService.sendReply(
+			id,
+			body,
+			req.user_details?.id,
+		);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async markAsRead(req: Request, res: Response) {
+		const { id } = ConversationIdParamsParser.parse(req.params);
+		const { data, message } =
+			await conversationService.markConversationRead(id);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getDeliveryReport(req: Request, res: Response) {
+		const query = DeliveryReportQueryParser.parse(req.query);
+		const { data, message } =
+			await conversationService.getDeliveryReport(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getFailedMessages(req: Request, res: Response) {
+		const query = FailedMessagesQueryParser.parse(req.query);
+		const { data, message } =
+			await conversationService.listFailedMessages(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getMedia(req: Request, res: Response) {
+		const { mediaId } = req.params;
+		if (!mediaId) {
+			throw new AppError('Missing media id', StatusCodes.BAD_REQUEST);
+		}
+
+		let media: Awaited<ReturnType<WhatsAppMessageService['downloadMedia']>>;
+		try {
+			media = await this.whatsappMessageService.downloadMedia(mediaId);
+		} catch {
+			throw new AppError('Media not available', StatusCodes.NOT_FOUND);
+		}
+
+		if (media.mimeType) res.setHeader('Content-Type', media.mimeType);
+		if (media.fileSize) {
+			res.setHeader('Content-Length', media.fileSize.toString());
+		}
+		res.setHeader('Cache-Control', 'private, max-age=3600');
+
+		media.stream.on('error', (streamErr) => {
+			logger.error('Media stream error:', streamErr);
+			if (!res.headersSent) {
+				res.status(StatusCodes.BAD_GATEWAY).end();
+			}
+		});
+
+		media.stream.pipe(res);
+	}
+}
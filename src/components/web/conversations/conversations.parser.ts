@@ -0,0 +1,64 @@
+import { z } from 'zod/v4';
+import { Zerror } from '@/utils/validations';
+
+export const ConversationListQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+	unreadOnly: z
+		.enum(['true', 'false'])
+		.transform((v) => v === 'true')
+		.optional(),
+	search: z.string().trim().min(1).optional(),
+});
+
+export const ConversationMessagesQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const ConversationIdParamsParser = z.object({
+	id: z.uuid({
+		error: (issue) => Zerror(issue, 'Conversation id', 'uuid'),
+	}),
+});
+
+const MediaReplyParser = z.object({
+	type: z.enum(['image', 'video', 'audio', 'document']),
+	link: z.url({ error: (issue) => Zerror(issue, 'Media link', 'url') }),
+	caption: z.string().trim().max(1024).optional(),
+	filename: z.string().trim().max(240).optional(),
+});
+
+export const ConversationReplyBodyParser = z.discriminatedUnion('type', [
+	z.object({
+		type: z.literal('text'),
+		text: z.string().trim().min(1).max(4096),
+	}),
+	MediaReplyParser,
+	z.object({
+		type: z.literal('template'),
+		templateName: z.string().trim().min(1),
+		languageCode: z.string().trim().min(2).default('en'),
+		components: z.array(z.record(z.string(), z.unknown())).optional(),
+	}),
+]);
+
+export type ConversationReplyInput = z.infer<
+	typeof ConversationReplyBodyParser
+>;
+
+export const DeliveryReportQueryParser = z.object({
+	from: z.coerce.date().optional(),
+	to: z.coerce.date().optional(),
+	templateName: z.string().trim().min(1).optional(),
+});
+
+export const FailedMessagesQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+	customerId: z.uuid().optional(),
+	conversationId: z.uuid().optional(),
+	errorCode: z.coerce.number().int().optional(),
+	from: z.coerce.date().optional(),
+	to: z.coerce.date().optional(),
+});
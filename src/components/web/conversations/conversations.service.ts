@@ -0,0 +1,561 @@
+import {
+	and,
+	count,
+	desc,
+	eq,
+	gt,
+	gte,
+	ilike,
+	isNull,
+	lte,
+	or,
+	sql,
+} from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import { WhatsAppMessageService } from '../webhook/whatsapp-message.service';
+import { ConversationReplyInput } from './conversations.parser';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import {
+	conversations,
+	customerMaster,
+	messages,
+	SelectConversation,
+} from '@/database/schema';
+import logger from '@/lib/logger';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+interface ListConversationsInput {
+	page: number;
+	limit: number;
+	unreadOnly?: boolean;
+	search?: string;
+}
+
+interface DeliveryReportInput {
+	from?: Date;
+	to?: Date;
+	templateName?: string;
+}
+
+interface FailedMessagesInput extends PaginationInput {
+	customerId?: string;
+	conversationId?: string;
+	errorCode?: number;
+	from?: Date;
+	to?: Date;
+}
+
+interface PaginationInput {
+	page: number;
+	limit: number;
+}
+
+function toRate(part: number, total: number): number {
+	return total ? Math.round((part / total) * 10000) / 100 : 0;
+}
+
+// WhatsApp only allows free-form messages within 24h of the customer's last message
+const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+function getServiceWindow(
+	conversation: Pick<SelectConversation, 'lastInboundAt'>,
+) {
+	const { lastInboundAt } = conversation;
+	const expiresAt = lastInboundAt
+		? new Date(lastInboundAt.getTime() + SERVICE_WINDOW_MS)
+		: null;
+
+	return {
+		isOpen: !!expiresAt && expiresAt.getTime() > Date.now(),
+		lastInboundAt,
+		expiresAt,
+	};
+}
+
+export const conversationService = {
+	/**
+	 * List conversation threads, most recently active first
+	 */
+	async listConversations({
+		page,
+		limit,
+		unreadOnly,
+		search,
+	}: ListConversationsInput) {
+		try {
+			const filters = [];
+			if (unreadOnly) filters.push(gt(conversations.unreadCount, 0));
+			if (search) {
+				const term = `%${search}%`;
+				filters.push(
+					or(
+						ilike(conversations.waId, term),
+						ilike(conversations.profileName, term),
+						ilike(customerMaster.name, term),
+						ilike(customerMaster.phone, term),
+					),
+				);
+			}
+			const where = filters.length ? and(...filters) : undefined;
+
+			const rows = await db
+				.select({
+					id: conversations.id,
+					waId: conversations.waId,
+					profileName: conversations.profileName,
+					lastMessageAt: conversations.lastMessageAt,
+					lastMessagePreview: conversations.lastMessagePreview,
+					unreadCount: conversations.unreadCount,
+					customer: {
+						id: customerMaster.id,
+						customerID: customerMaster.customerID,
+						name: customerMaster.name,
+						phone: customerMaster.phone,
+					},
+				})
+				.from(conversations)
+				.leftJoin(
+					customerMaster,
+					eq(customerMaster.id, conversations.customerID),
+				)
+				.where(where)
+				.orderBy(sql`${conversations.lastMessageAt} DESC NULLS LAST`)
+				.limit(limit)
+				.offset((page - 1) * limit);
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(conversations)
+				.leftJoin(
+					customerMaster,
+					eq(customerMaster.id, conversations.customerID),
+				)
+				.where(where);
+
+			return {
+				data: {
+					conversations: rows,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Conversations fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch conversations',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listConversations',
+				{ page, limit, unreadOnly, search },
+			);
+		}
+	},
+
+	/**
+	 * Fetch a single thread with a page of its messages (newest first)
+	 */
+	async getConversationMessages(
+		conversationId: string,
+		{ page, limit }: PaginationInput,
+	) {
+		try {
+			const conversation = await db.query.conversations.findFirst({
+				where: eq(conversations.id, conversationId),
+				with: { customer: true },
+			});
+
+			if (!conversation) {
+				throw new AppError(
+					'Conversation not found',
+					StatusCodes.NOT_FOUND,
+				);
+			}
+
+			const threadMessages = await db.query.messages.findMany({
+				where: eq(messages.conversationID, conversationId),
+				orderBy: [desc(messages.sentAt)],
+				limit,
+				offset: (page - 1) * limit,
+			});
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(messages)
+				.where(eq(messages.conversationID, conversationId));
+
+			return {
+				data: {
+					conversation,
+					window: getServiceWindow(conversation),
+					messages: threadMessages,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Conversation fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch conversation',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'getConversationMessages',
+				{ conversationId, page, limit },
+			);
+		}
+	},
+
+	/**
+	 * Mark every inbound message in a thread as read
+	 */
+	async markConversationRead(conversationId: string) {
+		try {
+			const conversation = await db.query.conversations.findFirst({
+				where: eq(conversations.id, conversationId),
+			});
+
+			if (!conversation) {
+				throw new AppError(
+					'Conversation not found',
+					StatusCodes.NOT_FOUND,
+				);
+			}
+
+			const readAt = new Date();
+			const readMessages = await db
+				.update(messages)
+				.set({ readAt })
+				.where(
+					and(
+						eq(messages.conversationID, conversationId),
+						eq(messages.direction, 'inbound'),
+						isNull(messages.readAt),
+					),
+				)
+				.returning({
+					waMessageId: messages.waMessageId,
+					sentAt: messages.sentAt,
+				});
+
+			await db
+				.update(conversations)
+				.set({ unreadCount: 0, updatedAt: readAt })
+				.where(eq(conversations.id, conversationId));
+
+			// Show the blue ticks to the customer for the latest message
+			const latest = readMessages
+				.filter((m) => m.waMessageId)
+				.sort((a, b) => b.sentAt.getTime() - a.sentAt.getTime())[0];
+			if (latest) {
+				new WhatsAppMessageService()
+					.markMessageAsRead(latest.waMessageId)
+					.catch((error) => {
+						logger.warn('Failed to send read receipt', {
+							error:
+								error instanceof Error ? error.message : error,
+							conversationId,
+						});
+					});
+			}
+
+			return {
+				data: { id: conversationId, markedRead: readMessages.length },
+				message: 'Conversation marked as read',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to mark conversation as read',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'markConversationRead',
+				{ conversationId },
+			);
+		}
+	},
+
+	/**
+	 * Report whether free-form replies are currently allowed for a thread
+	 */
+	async getConversationWindow(conversationId: string) {
+		try {
+			const conversation = await db.query.conversations.findFirst({
+				where: eq(conversations.id, conversationId),
+				columns: { id: true, lastInboundAt: true },
+			});
+
+			if (!conversation) {
+				throw new AppError(
+					'Conversation not found',
+					StatusCodes.NOT_FOUND,
+				);
+			}
+
+			return {
+				data: {
+					id: conversation.id,
+					...getServiceWindow(conversation),
+				},
+				message: 'Conversation window fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch conversation window',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'getConversationWindow',
+				{ conversationId },
+			);
+		}
+	},
+
+	/**
+	 * Send an agent reply to a thread. Text and media are refused once the
+	 * 24-hour window has closed; templates can always be sent.
+	 */
+	async sendReply(
+		conversationId: string,
+		input: ConversationReplyInput,
+		userId?: string,
+	) {
+		try {
+			const conversation = await db.query.conversations.findFirst({
+				where: eq(conversations.id, conversationId),
+			});
+
+			if (!conversation) {
+				throw new AppError(
+					'Conversation not found',
+					StatusCodes.NOT_FOUND,
+				);
+			}
+
+			const window = getServiceWindow(conversation);
+			if (input.type !== 'template' && !window.isOpen) {
+				throw new AppError(
+					'The 24-hour customer service window has closed. Send an approved template message instead.',
+					StatusCodes.UNPROCESSABLE_ENTITY,
+				);
+			}
+
+			const whatsappMessageService = new WhatsAppMessageService();
+			const options = { sentBy: userId };
+			let waMessageId: string;
+
+			if (input.type === 'text') {
+				waMessageId = await whatsappMessageService.sendText(
+					conversation.waId,
+					input.text,
+					options,
+				);
+			} else if (input.type === 'template') {
+				waMessageId = await whatsappMessageService.sendTemplate(
+					conversation.waId,
+					{
+						name: input.templateName,
+						languageCode: input.languageCode,
+						components: input.components,
+					},
+					options,
+				);
+			} else {
+				waMessageId = await whatsappMessageService.sendMedia(
+					conversation.waId,
+					input,
+					options,
+				);
+			}
+
+			// The send is recorded by WhatsAppMessageService
+			const stored = await db.query.messages.findFirst({
+				where: eq(messages.waMessageId, waMessageId),
+			});
+
+			return {
+				data: { message: stored, window },
+				message: 'Reply sent successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to send reply',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'sendReply',
+				{ conversationId, type: input.type },
+			);
+		}
+	},
+
+	/**
+	 * Delivery and read rates for outbound messages, overall and per template
+	 */
+	async getDeliveryReport({ from, to, templateName }: DeliveryReportInput) {
+		try {
+			const filters = [eq(messages.direction, 'outbound')];
+			if (from) filters.push(gte(messages.sentAt, from));
+			if (to) filters.push(lte(messages.sentAt, to));
+			if (templateName) {
+				filters.push(eq(messages.templateName, templateName));
+			}
+
+			const rows = await db
+				.select({
+					templateName: messages.templateName,
+					total: count(),
+					delivered: sql<number>`count(${messages.deliveredAt})::int`,
+					read: sql<number>`count(*) filter (where ${messages.status} = 'read')::int`,
+					failed: sql<number>`count(*) filter (where ${messages.status} = 'failed')::int`,
+				})
+				.from(messages)
+				.where(and(...filters))
+				.groupBy(messages.templateName);
+
+			const withRates = <
+				T extends {
+					total: number;
+					delivered: number;
+					read: number;
+					failed: number;
+				},
+			>(
+				row: T,
+			) => ({
+				...row,
+				deliveryRate: toRate(row.delivered, row.total),
+				readRate: toRate(row.read, row.total),
+				failureRate: toRate(row.failed, row.total),
+			});
+
+			const totals = rows.reduce(
+				(acc, row) => ({
+					total: acc.total + row.total,
+					delivered: acc.delivered + row.delivered,
+					read: acc.read + row.read,
+					failed: acc.failed + row.failed,
+				}),
+				{ total: 0, delivered: 0, read: 0, failed: 0 },
+			);
+
+			return {
+				data: {
+					summary: withRates(totals),
+					byTemplate: rows.map(withRates),
+				},
+				message: 'Delivery report fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch delivery report',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'getDeliveryReport',
+				{ from, to, templateName },
+			);
+		}
+	},
+
+	/**
+	 * Failed outbound messages with their WhatsApp error codes, filterable
+	 * by customer or thread
+	 */
+	async listFailedMessages({
+		page,
+		limit,
+		customerId,
+		conversationId,
+		errorCode,
+		from,
+		to,
+	}: FailedMessagesInput) {
+		try {
+			const filters = [
+				eq(messages.direction, 'outbound'),
+				eq(messages.status, 'failed'),
+			];
+			if (customerId) {
+				filters.push(eq(conversations.customerID, customerId));
+			}
+			if (conversationId) {
+				filters.push(eq(messages.conversationID, conversationId));
+			}
+			if (errorCode !== undefined) {
+				filters.push(eq(messages.errorCode, errorCode));
+			}
+			if (from) filters.push(gte(messages.sentAt, from));
+			if (to) filters.push(lte(messages.sentAt, to));
+			const where = and(...filters);
+
+			const rows = await db
+				.select({
+					id: messages.id,
+					conversationID: messages.conversationID,
+					waMessageId: messages.waMessageId,
+					recipient: messages.recipient,
+					type: messages.type,
+					templateName: messages.templateName,
+					body: messages.body,
+					errorCode: messages.errorCode,
+					errorTitle: messages.errorTitle,
+					errorDetails: messages.errorDetails,
+					sentAt: messages.sentAt,
+					failedAt: messages.failedAt,
+					customer: {
+						id: customerMaster.id,
+						customerID: customerMaster.customerID,
+						name: customerMaster.name,
+						phone: customerMaster.phone,
+					},
+				})
+				.from(messages)
+				.innerJoin(
+					conversations,
+					eq(conversations.id, messages.conversationID),
+				)
+				.leftJoin(
+					customerMaster,
+					eq(customerMaster.id, conversations.customerID),
+				)
+				.where(where)
+				.orderBy(desc(messages.failedAt))
+				.limit(limit)
+				.offset((page - 1) * limit);
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(messages)
+				.innerJoin(
+					conversations,
+					eq(conversations.id, messages.conversationID),
+				)
+				.where(where);
+
+			return {
+				data: {
+					messages: rows,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Failed messages fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch failed messages',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listFailedMessages',
+				{ page, limit, customerId, conversationId, errorCode },
+			);
+		}
+	},
+};
@@ -0,0 +1,401 @@
+import { eq, or, sql } from 'drizzle-orm';
+import { PgUpdateSetSource } from 'drizzle-orm/pg-core';
+import { parseWaIdToCustomerID } from '../webhook/webhook-utils';
+import { db } from '@/database';
+import {
+	conversations,
+	customerMaster,
+	messages,
+	SelectMessage,
+} from '@/database/schema';
+import logger from '@/lib/logger';
+
+interface InboundMessageInput {
+	message: any;
+	waId: string;
+	profileName?: string;
+}
+
+interface OutboundMessageInput {
+	to: string;
+	payload: Record<string, any>;
+	waMessageId?: string;
+	sentBy?: string;
+	error?: WhatsAppError | null;
+}
+
+interface WhatsAppError {
+	code?: number;
+	title?: string;
+	message?: string;
+	error_data?: { details?: string };
+}
+
+interface ParsedMessageContent {
+	type: string;
+	body: string | null;
+	media: Record<string, unknown> | null;
+	location: Record<string, unknown> | null;
+}
+
+const MEDIA_TYPES = ['image', 'video', 'audio', 'document', 'sticker'];
+const PREVIEW_LENGTH = 120;
+
+// Callbacks can arrive out of order; never move a message backwards
+const STATUS_RANK: Record<string, number> = {
+	accepted: 0,
+	sent: 1,
+	delivered: 2,
+	read: 3,
+	failed: 4,
+};
+
+/**
+ * Normalise a WhatsApp message object into the columns stored in `messages`
+ */
+export function parseMessageContent(message: any): ParsedMessageContent {
+	const type: string = message?.type || 'unknown';
+	const parsed: ParsedMessageContent = {
+		type,
+		body: null,
+		media: null,
+		location: null,
+	};
+
+	if (type === 'text') {
+		parsed.body = message?.text?.body ?? null;
+	} else if (MEDIA_TYPES.includes(type)) {
+		const media = message?.[type] || {};
+		parsed.media = {
+			id: media.id,
+			mimeType: media.mime_type,
+			sha256: media.sha256,
+			caption: media.caption,
+			filename: media.filename,
+			voice: media.voice,
+			animated: media.animated,
+		};
+		parsed.body = media.caption || media.filename || `[${type}]`;
+	} else if (type === 'location') {
+		const location = message?.location || {};
+		parsed.location = {
+			latitude: location.latitude,
+			longitude: location.longitude,
+			name: location.name,
+			address: location.address,
+			url: location.url,
+		};
+		parsed.body =
+			location.name ||
+			location.address ||
+			`[Location: ${location.latitude}, ${location.longitude}]`;
+	} else if (type === 'interactive') {
+		const interactive = message?.interactive;
+		parsed.body =
+			interactive?.button_reply?.title ||
+			interactive?.list_reply?.title ||
+			(interactive?.nfm_reply || interactive?.type === 'flow'
+				? '[Flow Response]'
+				: `[${interactive?.type || 'interactive'}]`);
+	} else if (type === 'button') {
+		parsed.body = message?.button?.text ?? null;
+	} else if (type === 'order') {
+		const items = message?.order?.product_items || [];
+		parsed.body =
+			message?.order?.text || `[Order: ${items.length} item(s)]`;
+	} else if (type === 'reaction') {
+		parsed.body = message?.reaction?.emoji ?? null;
+	} else {
+		parsed.body = `[${type}]`;
+	}
+
+	return parsed;
+}
+
+/**
+ * Derive the stored columns from a Cloud API send payload
+ */
+export function parseOutboundPayload(payload: Record<string, any>) {
+	const type: string = payload?.type || 'unknown';
+	let body: string | null = null;
+	let media: Record<string, unknown> | null = null;
+	let templateName: string | null = null;
+
+	if (type === 'text') {
+		body = payload.text?.body ?? null;
+	} else if (type === 'template') {
+		templateName = payload.template?.name ?? null;
+		body = `[Template: ${templateName}]`;
+	} else if (type === 'interactive') {
+		body =
+			payload.interactive?.body?.text ??
+			`[${payload.interactive?.type || 'interactive'}]`;
+	} else if (MEDIA_TYPES.includes(type)) {
+		const { link, caption, filename } = payload[type] || {};
+		media = { link, caption, filename };
+		body = caption || filename || `[${type}]`;
+	} else {
+		body = `[${type}]`;
+	}
+
+	return { type, body, media, templateName };
+}
+
+/**
+ * Pull the first WhatsApp error out of a failed Graph API call
+ */
+export function extractWhatsAppError(error: unknown): WhatsAppError | null {
+	const graphError = (error as any)?.response?.data?.error;
+	if (graphError) return graphError;
+	return error instanceof Error ? { message: error.message } : null;
+}
+
+function toPreview(body: string | null): string | null {
+	if (!body) return null;
+	return body.length > PREVIEW_LENGTH
+		? `${body.substring(0, PREVIEW_LENGTH)}…`
+		: body;
+}
+
+export const messageLogService = {
+	/**
+	 * Find the customer behind a WhatsApp number (by wa_id based customerID or phone)
+	 */
+	async findCustomerIdByWaId(waId: string): Promise<string | null> {
+		const customerID = parseWaIdToCustomerID(waId);
+		const [customer] = await db
+			.select({ id: customerMaster.id })
+			.from(customerMaster)
+			.where(
+				or(
+					eq(customerMaster.customerID, customerID),
+					eq(customerMaster.phone, waId),
+				),
+			)
+			.limit(1);
+
+		return customer?.id ?? null;
+	},
+
+	/**
+	 * Get (or create) the conversation thread for a WhatsApp number and
+	 * link it to the customer when one exists
+	 */
+	async upsertConversation(waId: string, profileName?: string) {
+		const customerID = await this.findCustomerIdByWaId(waId);
+
+		const [conversation] = await db
+			.insert(conversations)
+			.values({ waId, customerID, profileName })
+			.onConflictDoUpdate({
+				target: conversations.waId,
+				set: {
+					customerID: sql`COALESCE(${conversations.customerID}, excluded.customer_id)`,
+					profileName: sql`COALESCE(excluded.profile_name, ${conversations.profileName})`,
+					updatedAt: new Date(),
+				},
+			})
+			.returning();
+
+		return conversation;
+	},
+
+	/**
+	 * Persist an inbound WhatsApp message. Re-deliveries of the same wamid are ignored.
+	 */
+	async recordInboundMessage({
+		message,
+		waId,
+		profileName,
+	}: InboundMessageInput) {
+		try {
+			const conversation = await this.upsertConversation(
+				waId,
+				profileName,
+			);
+			const content = parseMessageContent(message);
+			const sentAt = message?.timestamp
+				? new Date(Number(message.timestamp) * 1000)
+				: new Date();
+
+			const [stored] = await db
+				.insert(messages)
+				.values({
+					conversationID: conversation.id,
+					waMessageId: message?.id,
+					direction: 'inbound',
+					type: content.type,
+					body: content.body,
+					media: content.media,
+					location: content.location,
+					payload: message,
+					sentAt,
+				})
+				.onConflictDoNothing({ target: messages.waMessageId })
+				.returning();
+
+			if (!stored) {
+				logger.info('Inbound message already stored, skipping', {
+					waId,
+					messageId: message?.id,
+				});
+				return null;
+			}
+
+			await db
+				.update(conversations)
+				.set({
+					lastInboundAt: sql`GREATEST(${conversations.lastInboundAt}, ${sentAt})`,
+					lastMessageAt: sentAt,
+					lastMessagePreview: toPreview(content.body),
+					unreadCount: sql`${conversations.unreadCount} + 1`,
+					updatedAt: new Date(),
+				})
+				.where(eq(conversations.id, conversation.id));
+
+			return stored;
+		} catch (error) {
+			// Persisting must never block the chatbot flow
+			logger.error('Failed to store inbound message', {
+				error: error instanceof Error ? error.message : error,
+				waId,
+				messageId: message?.id,
+			});
+			return null;
+		}
+	},
+
+	/**
+	 * Persist a message we sent (or failed to send) with its wamid so status
+	 * callbacks can update it later. Never throws.
+	 */
+	async recordOutboundMessage({
+		to,
+		payload,
+		waMessageId,
+		sentBy,
+		error,
+	}: OutboundMessageInput) {
+		try {
+			const conversation = await this.upsertConversation(to);
+			const content = parseOutboundPayload(payload);
+			const sentAt = new Date();
+
+			const [stored] = await db
+				.insert(messages)
+				.values({
+					conversationID: conversation.id,
+					waMessageId,
+					direction: 'outbound',
+					type: content.type,
+					body: content.body,
+					media: content.media,
+					payload,
+					status: error ? 'failed' : 'accepted',
+					recipient: to,
+					templateName: content.templateName,
+					errorCode: error?.code,
+					errorTitle: error?.title ?? error?.message,
+					errorDetails: error?.error_data?.details,
+					failedAt: error ? sentAt : null,
+					sentBy,
+					sentAt,
+				})
+				.onConflictDoNothing({ target: messages.waMessageId })
+				.returning();
+
+			if (!error) {
+				await db
+					.update(conversations)
+					.set({
+						lastMessageAt: sentAt,
+						lastMessagePreview: toPreview(content.body),
+						updatedAt: sentAt,
+					})
+					.where(eq(conversations.id, conversation.id));
+			}
+
+			return stored ?? null;
+		} catch (recordError) {
+			logger.error('Failed to store outbound message', {
+				error:
+					recordError instanceof Error
+						? recordError.message
+						: recordError,
+				to,
+				messageId: waMessageId,
+			});
+			return null;
+		}
+	},
+
+	/**
+	 * Apply a webhook status callback (sent/delivered/read/failed) to the
+	 * stored outbound message
+	 */
+	async applyStatusUpdate(status: any) {
+		const waMessageId: string | undefined = status?.id;
+		const nextStatus: string | undefined = status?.status;
+		if (!waMessageId || !nextStatus || !(nextStatus in STATUS_RANK)) {
+			return null;
+		}
+
+		try {
+			const existing = await db.query.messages.findFirst({
+				where: eq(messages.waMessageId, waMessageId),
+				columns: { id: true, status: true },
+			});
+
+			if (!existing) {
+				logger.info('Status update for unknown message, skipping', {
+					messageId: waMessageId,
+					status: nextStatus,
+				});
+				return null;
+			}
+
+			const at = status?.timestamp
+				? new Date(Number(status.timestamp) * 1000)
+				: new Date();
+			const error: WhatsAppError | undefined = status?.errors?.[0];
+
+			const updates: PgUpdateSetSource<typeof messages> = {};
+			if (nextStatus === 'delivered' || nextStatus === 'read') {
+				updates.deliveredAt = sql`COALESCE(${messages.deliveredAt}, ${at})`;
+			}
+			if (nextStatus === 'read') {
+				updates.readAt = sql`COALESCE(${messages.readAt}, ${at})`;
+			}
+			if (nextStatus === 'failed') {
+				updates.failedAt = at;
+				updates.errorCode = error?.code;
+				updates.errorTitle = error?.title ?? error?.message;
+				updates.errorDetails = error?.error_data?.details;
+			}
+
+			const currentRank = existing.status
+				? STATUS_RANK[existing.status]
+				: -1;
+			if (STATUS_RANK[nextStatus] > currentRank) {
+				updates.status = nextStatus as SelectMessage['status'];
+			}
+
+			if (Object.keys(updates).length === 0) return null;
+
+			const [updated] = await db
+				.update(messages)
+				.set(updates)
+				.where(eq(messages.id, existing.id))
+				.returning();
+
+			return updated;
+		} catch (error) {
+			logger.error('Failed to apply message status update', {
+				error: error instanceof Error ? error.message : error,
+				messageId: waMessageId,
+				status: nextStatus,
+			});
+			return null;
+		}
+	},
+};
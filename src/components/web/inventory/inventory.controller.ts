@@ -0,0 +1,78 @@
+import { Request, Response, Router } from 'express';
+import {
+	MovementListQueryParser,
+	ProductIdParamsParser,
+	ReservationListQueryParser,
+	StockAdjustmentBodyParser,
+	StockListQueryParser,
+} from './inventory.parser';
+import { inventoryService } from './inventory.service';
+import { inventoryMovementService } from './inventoryMovement.service';
+import BaseApi from '@/components/BaseApi';
+
+export default class InventoryController extends BaseApi {
+	constructor() {
+		super();
+	}
+
+	public register(): Router {
+		this.router.get('/stock', this.getStock.bind(this));
+		this.router.get('/stock/:productId', this.getProductStock.bind(this));
+		this.router.get(
+			'/stock/:productId/movements',
+			this.getMovements.bind(this),
+		);
+		this.router.post('/adjustments', this.adjustStock.bind(this));
+		this.router.get('/reservations', this.getReservations.bind(this));
+
+		return this.router;
+	}
+
+	public async getStock(req: Request, res: Response) {
+		const query = StockListQueryParser.parse(req.query);
+		const { data, message } = await inventoryService.listStock(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getProductStock(req: Request, res: Response) {
+		const { productId } = ProductIdParamsParser.parse(req.params);
+		const { data, message } =
+			await inventoryService.getProductStock(productId);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getReservations(req: Request, res: Response) {
+		const query = ReservationListQueryParser.parse(req.query);
+		const { data, message } =
+			await inventoryService.listReservations(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getMovements(req: Request, res: Response) {
+		const { productId } = ProductIdParamsParser.parse(req.params);
+		const query = MovementListQueryParser.parse(req.query);
+		const { data, message } = await inventoryMovementService.listForProduct(
+			{ productId, ...query },
+		);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async adjustStock(req: Request, res: Response) {
+		const body = StockAdjustmentBodyParser.parse(req.body);
+		const { data, message } = await inventoryMovementService.adjustStock({
+			...body,
+			userId: req.user_details?.id,
+		});
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+}
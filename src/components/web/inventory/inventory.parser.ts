@@ -0,0 +1,65 @@
+import { z } from 'zod/v4';
+import { Zerror } from '@/utils/validations';
+
+export const StockListQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+	search: z.string().trim().min(1).optional(),
+	lowStockOnly: z
+		.enum(['true', 'false'])
+		.transform((v) => v === 'true')
+		.optional(),
+	threshold: z.coerce.number().int().min(0).default(0),
+});
+
+export const ProductIdParamsParser = z.object({
+	productId: z.uuid({
+		error: (issue) => Zerror(issue, 'Product id', 'uuid'),
+	}),
+});
+
+export const ReservationListQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+	status: z.enum(['active', 'converted', 'released', 'expired']).optional(),
+	orderId: z.uuid().optional(),
+	productId: z.uuid().optional(),
+});
+
+export const StockAdjustmentBodyParser = z
+	.object({
+		productId: z.uuid({
+			error: (issue) => Zerror(issue, 'Product id', 'uuid'),
+		}),
+		variantId: z
+			.uuid({ error: (issue) => Zerror(issue, 'Variant id', 'uuid') })
+			.optional(),
+		type: z.enum(['restock', 'adjustment', 'return']),
+		quantity: z.coerce
+			.number()
+			.int()
+			.refine((v) => v !== 0, 'Quantity cannot be zero'),
+		reason: z.string().trim().min(3).max(1000),
+		referenceID: z.string().trim().min(1).max(255).optional(),
+	})
+	.refine((v) => v.type === 'adjustment' || v.quantity > 0, {
+		message: 'Restock and return quantities must be positive',
+		path: ['quantity'],
+	});
+
+export const MovementListQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(200).default(50),
+	type: z
+		.enum([
+			'sale',
+			'restock',
+			'adjustment',
+			'return',
+			'reservation',
+			'release',
+		])
+		.optional(),
+	from: z.coerce.date().optional(),
+	to: z.coerce.date().optional(),
+});
@@ -0,0 +1,228 @@
+import { and, asc, count, desc, eq, ilike, or, sql } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import {
+	inventoryReservations,
+	products,
+	productVariants,
+	SelectInventoryReservation,
+} from '@/database/schema';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+interface ListStockInput {
+	page: number;
+	limit: number;
+	search?: string;
+	lowStockOnly?: boolean;
+	threshold: number;
+}
+
+interface ListReservationsInput {
+	page: number;
+	limit: number;
+	status?: SelectInventoryReservation['status'];
+	orderId?: string;
+	productId?: string;
+}
+
+const onHand = sql<number>`COALESCE(${products.qty}, 0)`.mapWith(Number);
+const available = sql<number>`COALESCE(${products.qty}, 0) - ${products.reservedQty}`;
+
+const stockColumns = {
+	id: products.id,
+	contentId: products.contentId,
+	sku: products.sku,
+	productName: products.productName,
+	onHand,
+	reserved: products.reservedQty,
+	available: available.mapWith(Number),
+	updatedAt: products.updatedAt,
+};
+
+export const inventoryService = {
+	/**
+	 * On-hand, reserved and available quantity for every product
+	 */
+	async listStock({
+		page,
+		limit,
+		search,
+		lowStockOnly,
+		threshold,
+	}: ListStockInput) {
+		try {
+			const filters = [];
+			if (search) {
+				filters.push(
+					or(
+						ilike(products.productName, `%${search}%`),
+						ilike(products.sku, `%${search}%`),
+						ilike(products.contentId, `%${search}%`),
+					),
+				);
+			}
+			if (lowStockOnly) filters.push(sql`${available} <= ${threshold}`);
+			const where = filters.length ? and(...filters) : undefined;
+
+			const stock = await db
+				.select(stockColumns)
+				.from(products)
+				.where(where)
+				.orderBy(asc(available), asc(products.productName))
+				.limit(limit)
+				.offset((page - 1) * limit);
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(products)
+				.where(where);
+
+			return {
+				data: {
+					stock,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Stock levels fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch stock levels',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listStock',
+				{ page, limit, search },
+			);
+		}
+	},
+
+	/**
+	 * Stock for one product and its variants, with the orders currently
+	 * holding it
+	 */
+	async getProductStock(productId: string) {
+		try {
+			const [stock] = await db
+				.select(stockColumns)
+				.from(products)
+				.where(eq(products.id, productId))
+				.limit(1);
+
+			if (!stock) {
+				throw new AppError('Product not found', StatusCodes.NOT_FOUND);
+			}
+
+			const variants = await db
+				.select({
+					id: productVariants.id,
+					sku: productVariants.sku,
+					retailerId: productVariants.retailerId,
+					name: productVariants.name,
+					onHand: productVariants.qty,
+					reserved: productVariants.reservedQty,
+					available:
+						sql<number>`${productVariants.qty} - ${productVariants.reservedQty}`.mapWith(
+							Number,
+						),
+					isActive: productVariants.isActive,
+				})
+				.from(productVariants)
+				.where(eq(productVariants.productID, productId))
+				.orderBy(asc(productVariants.name));
+
+			const reservations = await db.query.inventoryReservations.findMany({
+				where: and(
+					eq(inventoryReservations.productID, productId),
+					eq(inventoryReservations.status, 'active'),
+				),
+				with: {
+					variant: {
+						columns: { id: true, sku: true, name: true },
+					},
+					order: {
+						columns: { id: true, orderNo: true, status: true },
+					},
+				},
+				orderBy: [asc(inventoryReservations.expiresAt)],
+			});
+
+			return {
+				data: { ...stock, variants, reservations },
+				message: 'Product stock fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch product stock',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'getProductStock',
+				{ productId },
+			);
+		}
+	},
+
+	async listReservations({
+		page,
+		limit,
+		status,
+		orderId,
+		productId,
+	}: ListReservationsInput) {
+		try {
+			const filters = [];
+			if (status) filters.push(eq(inventoryReservations.status, status));
+			if (orderId)
+				filters.push(eq(inventoryReservations.orderID, orderId));
+			if (productId) {
+				filters.push(eq(inventoryReservations.productID, productId));
+			}
+			const where = filters.length ? and(...filters) : undefined;
+
+			const reservations = await db.query.inventoryReservations.findMany({
+				where,
+				with: {
+					product: {
+						columns: { id: true, productName: true, sku: true },
+					},
+					order: {
+						columns: { id: true, orderNo: true, status: true },
+					},
+				},
+				orderBy: [desc(inventoryReservations.createdAt)],
+				limit,
+				offset: (page - 1) * limit,
+			});
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(inventoryReservations)
+				.where(where);
+
+			return {
+				data: {
+					reservations,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Inventory reservations fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch inventory reservations',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listReservations',
+				{ page, limit, status, orderId, productId },
+			);
+		}
+	},
+};
@@ -0,0 +1,304 @@
+import { and, count, desc, eq, gte, lte, sql } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import AppError from '@/abstractions/AppError';
+import { catalogSyncService } from '@/components/web/catalog/catalogSync.service';
+import { db } from '@/database';
+import {
+	inventoryMovements,
+	products,
+	productVariants,
+	SelectInventoryMovement,
+	SelectProduct,
+	SelectProductVariant,
+} from '@/database/schema';
+import { DbOrTx } from '@/database/transactionType/transactionType';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+type MovementType = SelectInventoryMovement['type'];
+
+interface RecordMovementInput {
+	// Row as it is after the movement: the product, or the variant when the
+	// stock belongs to a variant
+	product?: Pick<SelectProduct, 'id' | 'contentId' | 'qty' | 'reservedQty'>;
+	variant?: Pick<
+		SelectProductVariant,
+		'id' | 'productID' | 'retailerId' | 'qty' | 'reservedQty'
+	>;
+	type: MovementType;
+	qtyChange: number;
+	reservedChange?: number;
+	reason?: string;
+	referenceType?: string;
+	referenceID?: string;
+	createdBy?: string;
+}
+
+interface AdjustStockInput {
+	productId: string;
+	variantId?: string;
+	type: Extract<MovementType, 'restock' | 'adjustment' | 'return'>;
+	quantity: number;
+	reason: string;
+	referenceID?: string;
+	userId?: string;
+}
+
+interface ListMovementsInput {
+	productId: string;
+	page: number;
+	limit: number;
+	type?: MovementType;
+	from?: Date;
+	to?: Date;
+}
+
+export const inventoryMovementService = {
+	/**
+	 * Append a row to the stock ledger and queue a catalog stock push. Call
+	 * it in the same transaction as the product or variant update it
+	 * describes.
+	 */
+	async record(input: RecordMovementInput, txOrDb: DbOrTx = db) {
+		const { product, variant } = input;
+		const stock = variant ?? product;
+
+		const [movement] = await txOrDb
+			.insert(inventoryMovements)
+			.values({
+				productID: variant ? variant.productID : product.id,
+				variantID: variant?.id,
+				type: input.type,
+				qtyChange: input.qtyChange,
+				reservedChange: input.reservedChange ?? 0,
+				qtyAfter: stock.qty ?? 0,
+				reservedAfter: stock.reservedQty,
+				reason: input.reason,
+				referenceType: input.referenceType,
+				referenceID: input.referenceID,
+				createdBy: input.createdBy,
+			})
+			.returning();
+
+		if (variant) {
+			await catalogSyncService.enqueueVariant(variant, 'stock', txOrDb);
+		} else {
+			await catalogSyncService.enqueue(product, 'stock', txOrDb);
+		}
+
+		return movement;
+	},
+
+	/**
+	 * Manual stock change by staff: restock and return add stock, an
+	 * adjustment can go either way but never below what unpaid orders hold
+	 * (or zero). With a variantId the variant's stock changes instead of the
+	 * product's.
+	 */
+	async adjustStock({
+		productId,
+		variantId,
+		type,
+		quantity,
+		reason,
+		referenceID,
+		userId,
+	}: AdjustStockInput) {
+		try {
+			const qtyChange =
+				type === 'adjustment' ? quantity : Math.abs(quantity);
+
+			return await db.transaction(async (tx) => {
+				const belowZero = new AppError(
+					'Adjustment would take stock below zero or below what unpaid orders hold',
+					StatusCodes.BAD_REQUEST,
+				);
+
+				if (variantId) {
+					const [variant] = await tx
+						.update(productVariants)
+						.set({
+							qty: sql`${productVariants.qty} + ${qtyChange}`,
+							updatedBy: userId,
+							updatedAt: new Date(),
+						})
+						.where(
+							and(
+								eq(productVariants.id, variantId),
+								eq(productVariants.productID, productId),
+								sql`${productVariants.qty} + ${qtyChange} >= GREATEST(${productVariants.reservedQty}, 0)`,
+							),
+						)
+						.returning();
+
+					if (!variant) {
+						const [exists] = await tx
+							.select({ id: productVariants.id })
+							.from(productVariants)
+							.where(
+								and(
+									eq(productVariants.id, variantId),
+									eq(productVariants.productID, productId),
+								),
+							)
+							.limit(1);
+
+						throw exists
+							? belowZero
+							: new AppError(
+									'Variant not found',
+									StatusCodes.NOT_FOUND,
+								);
+					}
+
+					const movement = await this.record(
+						{
+							variant,
+							type,
+							qtyChange,
+							reason,
+							referenceType: 'manual',
+							referenceID,
+							createdBy: userId,
+						},
+						tx,
+					);
+
+					return {
+						data: { variant, movement },
+						message: 'Stock adjusted successfully',
+					};
+				}
+
+				const [product] = await tx
+					.update(products)
+					.set({
+						qty: sql`COALESCE(${products.qty}, 0) + ${qtyChange}`,
+						updatedBy: userId,
+						updatedAt: new Date(),
+					})
+					.where(
+						and(
+							eq(products.id, productId),
+							sql`COALESCE(${products.qty}, 0) + ${qtyChange} >= GREATEST(${products.reservedQty}, 0)`,
+						),
+					)
+					.returning();
+
+				if (!product) {
+					const [exists] = await tx
+						.select({ id: products.id })
+						.from(products)
+						.where(eq(products.id, productId))
+						.limit(1);
+
+					throw exists
+						? belowZero
+						: new AppError(
+								'Product not found',
+								StatusCodes.NOT_FOUND,
+							);
+				}
+
+				const movement = await this.record(
+					{
+						product,
+						type,
+						qtyChange,
+						reason,
+						referenceType: 'manual',
+						referenceID,
+						createdBy: userId,
+					},
+					tx,
+				);
+
+				return {
+					data: { product, movement },
+					message: 'Stock adjusted successfully',
+				};
+			});
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to adjust stock',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'adjustStock',
+				{ productId, variantId, type, quantity },
+			);
+		}
+	},
+
+	/**
+	 * Ledger for one product, newest first
+	 */
+	async listForProduct({
+		productId,
+		page,
+		limit,
+		type,
+		from,
+		to,
+	}: ListMovementsInput) {
+		try {
+			const product = await db.query.products.findFirst({
+				where: eq(products.id, productId),
+				columns: {
+					id: true,
+					productName: true,
+					sku: true,
+					qty: true,
+					reservedQty: true,
+				},
+			});
+
+			if (!product) {
+				throw new AppError('Product not found', StatusCodes.NOT_FOUND);
+			}
+
+			const filters = [eq(inventoryMovements.productID, productId)];
+			if (type) filters.push(eq(inventoryMovements.type, type));
+			if (from) filters.push(gte(inventoryMovements.createdAt, from));
+			if (to) filters.push(lte(inventoryMovements.createdAt, to));
+			const where = and(...filters);
+
+			const movements = await db.query.inventoryMovements.findMany({
+				where,
+				with: {
+					createdByUser: {
+						columns: { id: true, name: true, email: true },
+					},
+				},
+				orderBy: [desc(inventoryMovements.createdAt)],
+				limit,
+				offset: (page - 1) * limit,
+			});
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(inventoryMovements)
+				.where(where);
+
+			return {
+				data: {
+					product,
+					movements,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Stock movements fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch stock movements',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listForProduct',
+				{ productId, page, limit, type },
+			);
+		}
+	},
+};
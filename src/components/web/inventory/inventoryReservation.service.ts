@@ -0,0 +1,525 @@
+import { and, eq, lt, sql, SQL } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import { inventoryMovementService } from './inventoryMovement.service';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import {
+	inventoryReservations,
+	orderItems,
+	products,
+	productVariants,
+	SelectInventoryReservation,
+} from '@/database/schema';
+import { DbOrTx } from '@/database/transactionType/transactionType';
+import env from '@/env';
+
+export interface ReservationItem {
+	productID: string;
+	// Stock is held on the variant when the item is for one
+	variantID?: string | null;
+	qty: number | null;
+}
+
+type StockTarget = Pick<SelectInventoryReservation, 'productID' | 'variantID'>;
+
+type ReleaseStatus = Extract<
+	SelectInventoryReservation['status'],
+	'released' | 'expired'
+>;
+
+/**
+ * Sum quantities per product or variant and sort so concurrent reservations
+ * always lock stock rows in the same order
+ */
+function aggregateItems(items: ReservationItem[]): [StockTarget, number][] {
+	const totals = new Map<string, [StockTarget, number]>();
+	for (const item of items) {
+		const qty = item.qty ?? 1;
+		if (qty <= 0) continue;
+
+		const variantID = item.variantID ?? null;
+		const key = `${item.productID}:${variantID ?? ''}`;
+		const [, current] = totals.get(key) ?? [null, 0];
+		totals.set(key, [
+			{ productID: item.productID, variantID },
+			current + qty,
+		]);
+	}
+	return [...totals.entries()]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([, total]) => total);
+}
+
+function getReservationExpiry(): Date {
+	return new Date(
+		Date.now() + env.INVENTORY_RESERVATION_TTL_MINUTES * 60 * 1000,
+	);
+}
+
+/**
+ * Conditional increment of the reserved quantity: only succeeds while enough
+ * stock is free. Throws when it is not.
+ */
+async function holdStock(target: StockTarget, qty: number, tx: DbOrTx) {
+	if (target.variantID) {
+		const [variant] = await tx
+			.update(productVariants)
+			.set({
+				reservedQty: sql`${productVariants.reservedQty} + ${qty}`,
+				updatedAt: new Date(),
+			})
+			.where(
+				and(
+					eq(productVariants.id, target.variantID),
+					eq(productVariants.productID, target.productID),
+					eq(productVariants.isActive, true),
+					sql`${productVariants.qty} - ${productVariants.reservedQty} >= ${qty}`,
+				),
+			)
+			.returning();
+		if (variant) return { variant };
+
+		const [current] = await tx
+			.select({ name: productVariants.name, sku: productVariants.sku })
+			.from(productVariants)
+			.where(eq(productVariants.id, target.variantID))
+			.limit(1);
+
+		throw current
+			? new AppError(
+					`Variant ${current.name || current.sku} does not have enough available stock`,
+					StatusCodes.BAD_REQUEST,
+				)
+			: new AppError(
+					`Variant ${target.variantID} not found`,
+					StatusCodes.NOT_FOUND,
+				);
+	}
+
+	const [product] = await tx
+		.update(products)
+		.set({
+			reservedQty: sql`${products.reservedQty} + ${qty}`,
+			updatedAt: new Date(),
+		})
+		.where(
+			and(
+				eq(products.id, target.productID),
+				sql`COALESCE(${products.qty}, 0) - ${products.reservedQty} >= ${qty}`,
+			),
+		)
+		.returning();
+	if (product) return { product };
+
+	const [current] = await tx
+		.select({ productName: products.productName })
+		.from(products)
+		.where(eq(products.id, target.productID))
+		.limit(1);
+
+	throw current
+		? new AppError(
+				`Product ${current.productName} does not have enough available stock`,
+				StatusCodes.BAD_REQUEST,
+			)
+		: new AppError(
+				`Product ${target.productID} not found`,
+				StatusCodes.NOT_FOUND,
+			);
+}
+
+/**
+ * Take a closed hold off the reserved quantity, and off on-hand stock too
+ * when it was sold. Neither goes below zero, and the changes returned for
+ * the ledger are the ones actually applied. Returns null if the row no
+ * longer exists.
+ */
+async function settleStock(
+	target: StockTarget,
+	qty: number,
+	sold: boolean,
+	tx: DbOrTx,
+) {
+	const now = new Date();
+
+	if (target.variantID) {
+		const [current] = await tx
+			.select({
+				qty: productVariants.qty,
+				reservedQty: productVariants.reservedQty,
+			})
+			.from(productVariants)
+			.where(eq(productVariants.id, target.variantID))
+			.for('update');
+		if (!current) return null;
+
+		const qtyChange = sold ? -Math.min(qty, Math.max(current.qty, 0)) : 0;
+		const reservedChange = -Math.min(qty, Math.max(current.reservedQty, 0));
+		const [variant] = await tx
+			.update(productVariants)
+			.set({
+				...(sold && {
+					qty: sql`${productVariants.qty} + ${qtyChange}`,
+				}),
+				reservedQty: sql`${productVariants.reservedQty} + ${reservedChange}`,
+				updatedAt: now,
+			})
+			.where(eq(productVariants.id, target.variantID))
+			.returning();
+		return { stock: { variant }, qtyChange, reservedChange };
+	}
+
+	const [current] = await tx
+		.select({ qty: products.qty, reservedQty: products.reservedQty })
+		.from(products)
+		.where(eq(products.id, target.productID))
+		.for('update');
+	if (!current) return null;
+
+	const qtyChange = sold ? -Math.min(qty, Math.max(current.qty ?? 0, 0)) : 0;
+	const reservedChange = -Math.min(qty, Math.max(current.reservedQty, 0));
+	const [product] = await tx
+		.update(products)
+		.set({
+			...(sold && {
+				qty: sql`COALESCE(${products.qty}, 0) + ${qtyChange}`,
+			}),
+			reservedQty: sql`${products.reservedQty} + ${reservedChange}`,
+			updatedAt: now,
+		})
+		.where(eq(products.id, target.productID))
+		.returning();
+	return { stock: { product }, qtyChange, reservedChange };
+}
+
+/**
+ * Put sold quantity back on hand. Returns the changed row for the ledger, or
+ * null if it no longer exists.
+ */
+async function returnStock(target: StockTarget, qty: number, tx: DbOrTx) {
+	const now = new Date();
+
+	if (target.variantID) {
+		const [variant] = await tx
+			.update(productVariants)
+			.set({
+				qty: sql`${productVariants.qty} + ${qty}`,
+				updatedAt: now,
+			})
+			.where(eq(productVariants.id, target.variantID))
+			.returning();
+		return variant ? { variant } : null;
+	}
+
+	const [product] = await tx
+		.update(products)
+		.set({
+			qty: sql`COALESCE(${products.qty}, 0) + ${qty}`,
+			updatedAt: now,
+		})
+		.where(eq(products.id, target.productID))
+		.returning();
+	return product ? { product } : null;
+}
+
+/**
+ * Close the matching active reservations and give their quantity back to
+ * available stock. The status guard makes a double release a no-op.
+ */
+async function releaseWhere(
+	where: SQL,
+	status: ReleaseStatus,
+	reason: string,
+	tx: DbOrTx,
+) {
+	const now = new Date();
+	const released = await tx
+		.update(inventoryReservations)
+		.set({
+			status,
+			releasedAt: now,
+			releaseReason: reason,
+			updatedAt: now,
+		})
+		.where(and(where, eq(inventoryReservations.status, 'active')))
+		.returning();
+
+	for (const reservation of released) {
+		const settled = await settleStock(
+			reservation,
+			reservation.qty,
+			false,
+			tx,
+		);
+
+		if (settled) {
+			await inventoryMovementService.record(
+				{
+					...settled.stock,
+					type: 'release',
+					qtyChange: 0,
+					reservedChange: settled.reservedChange,
+					reason,
+					referenceType: 'order',
+					referenceID: reservation.orderID,
+				},
+				tx,
+			);
+		}
+	}
+
+	return released;
+}
+
+export const inventoryReservationService = {
+	/**
+	 * Hold stock for every item of an order. Products already held for the
+	 * order keep their reservation (with a fresh expiry), so calling this
+	 * again before payment is safe. Throws if any product is short, which
+	 * rolls back the holds taken so far. A payment link holds the stock until
+	 * it expires instead of for the default time; a later call never
+	 * shortens that.
+	 */
+	async reserveForOrder(
+		orderId: string,
+		items: ReservationItem[],
+		txOrDb: DbOrTx = db,
+		expiresAt: Date = getReservationExpiry(),
+	): Promise<SelectInventoryReservation[]> {
+		if (txOrDb === db) {
+			return db.transaction((tx) =>
+				this.reserveForOrder(orderId, items, tx, expiresAt),
+			);
+		}
+
+		const held = await txOrDb
+			.update(inventoryReservations)
+			.set({
+				expiresAt: sql`GREATEST(${inventoryReservations.expiresAt}, ${expiresAt.toISOString()}::timestamp)`,
+				updatedAt: new Date(),
+			})
+			.where(
+				and(
+					eq(inventoryReservations.orderID, orderId),
+					eq(inventoryReservations.status, 'active'),
+				),
+			)
+			.returning();
+		const heldKeys = new Set(
+			held.map((r) => `${r.productID}:${r.variantID ?? ''}`),
+		);
+
+		const reservations = [...held];
+		for (const [target, qty] of aggregateItems(items)) {
+			const key = `${target.productID}:${target.variantID ?? ''}`;
+			if (heldKeys.has(key)) continue;
+
+			const stock = await holdStock(target, qty, txOrDb);
+
+			const [reservation] = await txOrDb
+				.insert(inventoryReservations)
+				.values({ ...target, orderID: orderId, qty, expiresAt })
+				.returning();
+			reservations.push(reservation);
+
+			await inventoryMovementService.record(
+				{
+					...stock,
+					type: 'reservation',
+					qtyChange: 0,
+					reservedChange: qty,
+					reason: 'Held for unpaid order',
+					referenceType: 'order',
+					referenceID: orderId,
+				},
+				txOrDb,
+			);
+		}
+
+		return reservations;
+	},
+
+	/**
+	 * Give back everything an order is holding (cancellation)
+	 */
+	async releaseForOrder(
+		orderId: string,
+		reason: string,
+		txOrDb: DbOrTx = db,
+	): Promise<SelectInventoryReservation[]> {
+		if (txOrDb === db) {
+			return db.transaction((tx) =>
+				this.releaseForOrder(orderId, reason, tx),
+			);
+		}
+
+		return releaseWhere(
+			eq(inventoryReservations.orderID, orderId),
+			'released',
+			reason,
+			txOrDb,
+		);
+	},
+
+	/**
+	 * Make sure every item of an order is held, taking again the holds that
+	 * lapsed. Runs in a savepoint, so a shortfall leaves the caller's
+	 * transaction usable. Returns why the stock could not be held, or null
+	 * when it all is.
+	 */
+	async holdForPaidOrder(
+		orderId: string,
+		txOrDb: DbOrTx = db,
+	): Promise<string | null> {
+		const items = await txOrDb
+			.select({
+				productID: orderItems.productID,
+				variantID: orderItems.variantID,
+				qty: orderItems.qty,
+			})
+			.from(orderItems)
+			.where(eq(orderItems.orderID, orderId));
+
+		try {
+			await txOrDb.transaction((sp) =>
+				this.reserveForOrder(orderId, items, sp),
+			);
+			return null;
+		} catch (error) {
+			if (!(error instanceof AppError)) throw error;
+			return error.message;
+		}
+	},
+
+	/**
+	 * Turn an order's holds into a real stock decrement once it is paid.
+	 * Items whose hold lapsed before the payment are held again first, so
+	 * the sale still comes off stock; throws if that stock is gone. Payments
+	 * check holdForPaidOrder first so this does not fail after capture.
+	 * Returns the converted reservations.
+	 */
+	async convertForOrder(
+		orderId: string,
+		txOrDb: DbOrTx = db,
+	): Promise<SelectInventoryReservation[]> {
+		if (txOrDb === db) {
+			return db.transaction((tx) => this.convertForOrder(orderId, tx));
+		}
+
+		const shortfall = await this.holdForPaidOrder(orderId, txOrDb);
+		if (shortfall) {
+			throw new AppError(
+				`Order was paid after its stock hold lapsed: ${shortfall}`,
+				StatusCodes.CONFLICT,
+			);
+		}
+
+		const now = new Date();
+		const converted = await txOrDb
+			.update(inventoryReservations)
+			.set({ status: 'converted', convertedAt: now, updatedAt: now })
+			.where(
+				and(
+					eq(inventoryReservations.orderID, orderId),
+					eq(inventoryReservations.status, 'active'),
+				),
+			)
+			.returning();
+
+		for (const reservation of converted) {
+			const settled = await settleStock(
+				reservation,
+				reservation.qty,
+				true,
+				txOrDb,
+			);
+			if (!settled) continue;
+
+			await inventoryMovementService.record(
+				{
+					...settled.stock,
+					type: 'sale',
+					qtyChange: settled.qtyChange,
+					reservedChange: settled.reservedChange,
+					reason: 'Order paid',
+					referenceType: 'order',
+					referenceID: orderId,
+				},
+				txOrDb,
+			);
+		}
+
+		return converted;
+	},
+
+	/**
+	 * Put the stock an order bought back on hand (cancelled after payment,
+	 * returned or refunded). Only converted reservations are restocked, so
+	 * calling it twice is a no-op.
+	 */
+	async restockForOrder(
+		orderId: string,
+		reason: string,
+		userId?: string,
+		txOrDb: DbOrTx = db,
+	): Promise<SelectInventoryReservation[]> {
+		if (txOrDb === db) {
+			return db.transaction((tx) =>
+				this.restockForOrder(orderId, reason, userId, tx),
+			);
+		}
+
+		const now = new Date();
+		const restocked = await txOrDb
+			.update(inventoryReservations)
+			.set({ status: 'restocked', restockedAt: now, updatedAt: now })
+			.where(
+				and(
+					eq(inventoryReservations.orderID, orderId),
+					eq(inventoryReservations.status, 'converted'),
+				),
+			)
+			.returning();
+
+		for (const reservation of restocked) {
+			const stock = await returnStock(
+				reservation,
+				reservation.qty,
+				txOrDb,
+			);
+			if (!stock) continue;
+
+			await inventoryMovementService.record(
+				{
+					...stock,
+					type: 'return',
+					qtyChange: reservation.qty,
+					reason,
+					referenceType: 'order',
+					referenceID: orderId,
+					createdBy: userId,
+				},
+				txOrDb,
+			);
+		}
+
+		return restocked;
+	},
+
+	/**
+	 * Release holds whose order was not paid in time. Returns how many
+	 * reservations expired.
+	 */
+	async expireStale(): Promise<number> {
+		const expired = await db.transaction((tx) =>
+			releaseWhere(
+				lt(inventoryReservations.expiresAt, new Date()),
+				'expired',
+				'Reservation expired before payment',
+				tx,
+			),
+		);
+
+		return expired.length;
+	},
+};
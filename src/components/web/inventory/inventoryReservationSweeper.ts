@@ -0,0 +1,30 @@
+import { inventoryReservationService } from './inventoryReservation.service';
+import logger from '@/lib/logger';
+
+export class InventoryReservationSweeper {
+	private static intervalId: NodeJS.Timeout;
+
+	private static async sweep() {
+		try {
+			const expired = await inventoryReservationService.expireStale();
+			if (expired > 0) {
+				logger.info(
+					`[InventoryReservationSweeper] Released ${expired} expired stock reservations`,
+				);
+			}
+		} catch (err) {
+			logger.error('Inventory reservation sweep failed', err);
+		}
+	}
+
+	static init(intervalMs: number = 60 * 1000) {
+		this.sweep();
+		this.intervalId = setInterval(() => this.sweep(), intervalMs);
+		logger.info('[InventoryReservationSweeper] Interval started');
+	}
+
+	static stopIt() {
+		if (this.intervalId) clearInterval(this.intervalId);
+		logger.info('[InventoryReservationSweeper] Interval stopped');
+	}
+}
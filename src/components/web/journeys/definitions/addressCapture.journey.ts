@@ -0,0 +1,60 @@
+import { eq } from 'drizzle-orm';
+import { JourneyDefinition } from '../journey.types';
+import { NO_BUTTON, readAddress, readConfirmation, YES_BUTTON } from './common';
+import { db } from '@/database';
+import { customerMaster } from '@/database/schema';
+
+export const addressCaptureJourney: JourneyDefinition = {
+	name: 'address_capture',
+	description: 'Ask for a delivery address, confirm it and save it',
+	ttlMinutes: 30,
+	initialStep: 'ask_address',
+
+	async start(ctx) {
+		if (!ctx.customerID) {
+			return {
+				abort: 'Please enroll in Lush Rewards first so we can save your address 🌸',
+			};
+		}
+		return {};
+	},
+
+	steps: {
+		ask_address: {
+			prompt: () => ({
+				text: '📍 Please type your full delivery address, or share your location pin.\n\nReply *CANCEL* to stop.',
+			}),
+			handle: (input) => {
+				const address = readAddress(input);
+				if (!address) {
+					return {
+						reply: 'That address looks too short. Please include street, area and city.',
+					};
+				}
+				return { next: 'confirm', data: { address } };
+			},
+		},
+
+		confirm: {
+			prompt: (ctx) => ({
+				text: `Is this address correct?\n\n🏠 ${ctx.data.address}`,
+				buttons: [YES_BUTTON, NO_BUTTON],
+			}),
+			handle: async (input, ctx) => {
+				const confirmed = readConfirmation(input);
+				if (confirmed === null) return {};
+				if (!confirmed) return { next: 'ask_address' };
+
+				await db
+					.update(customerMaster)
+					.set({ address: ctx.data.address, updatedAt: new Date() })
+					.where(eq(customerMaster.id, ctx.customerID));
+
+				return {
+					complete: true,
+					reply: '✅ Your delivery address has been saved. Thank you! 💚',
+				};
+			},
+		},
+	},
+};
@@ -0,0 +1,37 @@
+import { JourneyInput } from '../journey.types';
+
+export const YES_BUTTON = { id: 'JOURNEY_YES', title: '✅ Yes' };
+export const NO_BUTTON = { id: 'JOURNEY_NO', title: '❌ No' };
+
+const YES_WORDS = ['YES', 'Y', 'OK', 'CONFIRM'];
+const NO_WORDS = ['NO', 'N', 'CHANGE'];
+
+/**
+ * Read a yes/no answer from a button tap or typed reply
+ */
+export function readConfirmation(input: JourneyInput): boolean | null {
+	if (input.buttonId === YES_BUTTON.id) return true;
+	if (input.buttonId === NO_BUTTON.id) return false;
+
+	const text = input.text?.trim().toUpperCase();
+	if (!text) return null;
+	if (YES_WORDS.includes(text)) return true;
+	if (NO_WORDS.includes(text)) return false;
+	return null;
+}
+
+/**
+ * Read a delivery address from typed text or a shared location pin
+ */
+export function readAddress(input: JourneyInput): string | null {
+	if (input.location) {
+		const { name, address, latitude, longitude } = input.location;
+		const label = [name, address].filter(Boolean).join(', ');
+		return label
+			? `${label} (${latitude}, ${longitude})`
+			: `${latitude}, ${longitude}`;
+	}
+
+	const text = input.text?.trim();
+	return text && text.length >= 10 ? text : null;
+}
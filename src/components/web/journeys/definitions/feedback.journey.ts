@@ -0,0 +1,41 @@
+import { JourneyDefinition } from '../journey.types';
+
+export const feedbackJourney: JourneyDefinition = {
+	name: 'feedback',
+	description: 'Collect a 1-5 rating and an optional comment',
+	ttlMinutes: 60,
+	initialStep: 'rating',
+
+	steps: {
+		rating: {
+			prompt: () => ({
+				text: '⭐ How would you rate your Lush experience?\n\nReply with a number from *1* (poor) to *5* (excellent).',
+			}),
+			handle: (input) => {
+				const rating = Number(input.text?.trim());
+				if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+					return { reply: 'Please reply with a number from 1 to 5.' };
+				}
+				return { next: 'comment', data: { rating } };
+			},
+		},
+
+		comment: {
+			prompt: () => ({
+				text: "💬 Anything you'd like to tell us? Type your comment, or reply *SKIP*.",
+			}),
+			handle: (input) => {
+				const text = input.text?.trim();
+				if (!text) return {};
+
+				return {
+					complete: true,
+					data: {
+						comment: text.toUpperCase() === 'SKIP' ? null : text,
+					},
+					reply: '💚 Thank you for your feedback!',
+				};
+			},
+		},
+	},
+};
@@ -0,0 +1,17 @@
+import { JourneyDefinition } from '../journey.types';
+import { addressCaptureJourney } from './addressCapture.journey';
+import { feedbackJourney } from './feedback.journey';
+import { reorderJourney } from './reorder.journey';
+
+export const JOURNEYS = {
+	address_capture: addressCaptureJourney,
+	reorder: reorderJourney,
+	feedback: feedbackJourney,
+} satisfies Record<string, JourneyDefinition>;
+
+export type JourneyName = keyof typeof JOURNEYS;
+
+export const JOURNEY_NAMES = Object.keys(JOURNEYS) as [
+	JourneyName,
+	...JourneyName[],
+];
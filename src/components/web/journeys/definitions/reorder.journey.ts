@@ -0,0 +1,216 @@
+import { desc, eq } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import { inventoryReservationService } from '../../inventory/inventoryReservation.service';
+import { orderLifecycleService } from '../../orders/orderLifecycle/orderLifecycle.service';
+import { paymentLinkService } from '../../payments/paymentLinks.service';
+import { WhatsAppMessageService } from '../../webhook/whatsapp-message.service';
+import { JourneyContext, JourneyDefinition } from '../journey.types';
+import { NO_BUTTON, readAddress, readConfirmation, YES_BUTTON } from './common';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import { customerMaster, orderItems, orders } from '@/database/schema';
+
+interface ReorderItem {
+	productID: string;
+	variantID: string | null;
+	productName: string | null;
+	qty: number;
+}
+
+/**
+ * Copy the customer's last order into a new one. The order number is derived
+ * from the session so a retried step cannot create it twice.
+ */
+async function createReorder(ctx: JourneyContext) {
+	const items: ReorderItem[] = ctx.data.items;
+	const orderNo = `REORDER-${ctx.sessionId}`;
+
+	return db.transaction(async (tx) => {
+		const [existing] = await tx
+			.select()
+			.from(orders)
+			.where(eq(orders.orderNo, orderNo))
+			.limit(1);
+		if (existing) return existing;
+
+		const [order] = await tx
+			.insert(orders)
+			.values({
+				customerID: ctx.customerID,
+				orderNo,
+				orderName: `Reorder of ${ctx.data.sourceOrderNo}`,
+				status: 'pending_payment',
+				paymentType: 'WhatsApp',
+				shipToAddress: ctx.data.address,
+				metadata: {
+					...ctx.data.metadata,
+					reorderOf: ctx.data.sourceOrderId,
+					phoneNumber: ctx.phoneNumber,
+					waId: ctx.waId,
+				},
+			})
+			.returning();
+		await orderLifecycleService.recordInitialStatus(order, undefined, tx);
+
+		await tx.insert(orderItems).values(
+			items.map((item) => ({
+				orderID: order.id,
+				productID: item.productID,
+				variantID: item.variantID,
+				qty: item.qty,
+				status: 'new' as const,
+			})),
+		);
+		await inventoryReservationService.reserveForOrder(order.id, items, tx);
+
+		return order;
+	});
+}
+
+export const reorderJourney: JourneyDefinition = {
+	name: 'reorder',
+	description: 'Repeat the last order after confirming items and address',
+	ttlMinutes: 30,
+	initialStep: 'confirm_items',
+
+	async start(ctx) {
+		if (!ctx.customerID) {
+			return {
+				abort: "We couldn't find your Lush Rewards profile. Reply *MENU* to get started 🌸",
+			};
+		}
+
+		const lastOrder = await db.query.orders.findFirst({
+			where: eq(orders.customerID, ctx.customerID),
+			orderBy: [desc(orders.createdAt)],
+			with: {
+				orderItems: { with: { product: true, variant: true } },
+			},
+		});
+
+		if (!lastOrder?.orderItems.length) {
+			return {
+				abort: "You don't have a previous order to repeat yet. Reply *CATALOG* to browse 🛍️",
+			};
+		}
+
+		const customer = await db.query.customerMaster.findFirst({
+			where: eq(customerMaster.id, ctx.customerID),
+			columns: { name: true, address: true },
+		});
+
+		const items: ReorderItem[] = lastOrder.orderItems.map((item) => ({
+			productID: item.productID,
+			variantID: item.variantID,
+			productName: item.variant?.name
+				? `${item.product?.productName} - ${item.variant.name}`
+				: (item.product?.productName ?? null),
+			qty: item.qty ?? 1,
+		}));
+
+		return {
+			data: {
+				sourceOrderId: lastOrder.id,
+				sourceOrderNo: lastOrder.orderNo,
+				metadata: lastOrder.metadata ?? {},
+				items,
+				customerName: customer?.name || 'Customer',
+				address: lastOrder.shipToAddress || customer?.address || null,
+			},
+		};
+	},
+
+	steps: {
+		confirm_items: {
+			prompt: (ctx) => {
+				const lines = (ctx.data.items as ReorderItem[])
+					.map(
+						(item) =>
+							`• ${item.qty} × ${item.productName || 'Item'}`,
+					)
+					.join('\n');
+				return {
+					text: `🔁 *Repeat your last order?*\n\n${lines}`,
+					buttons: [YES_BUTTON, NO_BUTTON],
+				};
+			},
+			handle: (input, ctx) => {
+				const confirmed = readConfirmation(input);
+				if (confirmed === null) return {};
+				if (!confirmed) {
+					return {
+						cancel: true,
+						reply: 'No problem! Reply *MENU* whenever you need us 🌸',
+					};
+				}
+				return {
+					next: ctx.data.address ? 'confirm_address' : 'ask_address',
+				};
+			},
+		},
+
+		confirm_address: {
+			prompt: (ctx) => ({
+				text: `🚚 Deliver to this address?\n\n🏠 ${ctx.data.address}`,
+				buttons: [YES_BUTTON, { id: NO_BUTTON.id, title: '✏️ Change' }],
+			}),
+			handle: async (input, ctx) => {
+				const confirmed = readConfirmation(input);
+				if (confirmed === null) return {};
+				if (!confirmed) return { next: 'ask_address' };
+
+				let order: Awaited<ReturnType<typeof createReorder>>;
+				try {
+					order = await createReorder(ctx);
+				} catch (error) {
+					// Out of stock: tell the customer instead of failing the job
+					if (
+						error instanceof AppError &&
+						error.statusCode === StatusCodes.BAD_REQUEST
+					) {
+						return {
+							cancel: true,
+							reply: `😔 ${error.message}. Reply *CATALOG* to choose something else.`,
+						};
+					}
+					throw error;
+				}
+				const metadata = (ctx.data.metadata ?? {}) as Record<
+					string,
+					any
+				>;
+
+				// Pay through a WhatsApp payment link, or the order page
+				const linkSent = await paymentLinkService.trySendForOrder(
+					order.id,
+				);
+				if (!linkSent) {
+					await new WhatsAppMessageService().sendOrderConfirmation(
+						ctx.phoneNumber,
+						ctx.data.customerName,
+						(ctx.data.items as ReorderItem[]).length,
+						metadata.formattedTotal ?? '',
+						order.id,
+					);
+				}
+
+				return { complete: true, data: { orderId: order.id } };
+			},
+		},
+
+		ask_address: {
+			prompt: () => ({
+				text: '📍 Please type the delivery address, or share your location pin.',
+			}),
+			handle: (input) => {
+				const address = readAddress(input);
+				if (!address) {
+					return {
+						reply: 'That address looks too short. Please include street, area and city.',
+					};
+				}
+				return { next: 'confirm_address', data: { address } };
+			},
+		},
+	},
+};
@@ -0,0 +1,69 @@
+import { WhatsAppReplyButton } from '../webhook/whatsapp-message.service';
+
+export type JourneyData = Record<string, any>;
+
+/**
+ * What the customer sent, reduced to the parts a journey step cares about
+ */
+export interface JourneyInput {
+	text: string | null;
+	buttonId: string | null;
+	location: {
+		latitude: number;
+		longitude: number;
+		name?: string;
+		address?: string;
+	} | null;
+}
+
+export interface JourneyContext {
+	sessionId: string;
+	waId: string;
+	phoneNumber: string;
+	customerID: string | null;
+	data: JourneyData;
+}
+
+/**
+ * Message sent when a step is entered
+ */
+export interface JourneyPrompt {
+	text: string;
+	buttons?: WhatsAppReplyButton[];
+}
+
+/**
+ * Outcome of handling an input:
+ * - `next` moves to another step (its prompt is sent)
+ * - `complete` / `cancel` end the session
+ * - neither re-prompts the current step
+ * `reply` is sent before anything else.
+ */
+export interface JourneyStepResult {
+	next?: string;
+	data?: JourneyData;
+	complete?: boolean;
+	cancel?: boolean;
+	reply?: string;
+}
+
+export interface JourneyStep {
+	prompt: (ctx: JourneyContext) => JourneyPrompt | Promise<JourneyPrompt>;
+	handle: (
+		input: JourneyInput,
+		ctx: JourneyContext,
+	) => JourneyStepResult | Promise<JourneyStepResult>;
+}
+
+export interface JourneyDefinition {
+	name: string;
+	description: string;
+	// Idle time before the session expires
+	ttlMinutes: number;
+	initialStep: string;
+	// Load context before the first prompt; return `abort` to refuse to start
+	start?: (
+		ctx: JourneyContext,
+	) => Promise<{ data?: JourneyData; abort?: string }>;
+	steps: Record<string, JourneyStep>;
+}
@@ -0,0 +1,378 @@
+import { and, eq, lte } from 'drizzle-orm';
+import { messageLogService } from '../conversations/messageLog.service';
+import { WhatsAppMessageService } from '../webhook/whatsapp-message.service';
+import { webhookJobEffectService } from '../webhookJobs/webhookJobEffects.service';
+import { JOURNEYS, JourneyName } from './definitions';
+import {
+	JourneyContext,
+	JourneyDefinition,
+	JourneyInput,
+	JourneyPrompt,
+} from './journey.types';
+import { db } from '@/database';
+import {
+	conversationSessions,
+	SelectConversationSession,
+} from '@/database/schema';
+import logger from '@/lib/logger';
+
+const CANCEL_WORDS = ['CANCEL', 'STOP', 'EXIT', 'QUIT'];
+
+interface StartJourneyInput {
+	waId: string;
+	phoneNumber: string;
+	data?: Record<string, any>;
+}
+
+interface InboundJourneyMessage {
+	message: any;
+	waId: string;
+	phoneNumber: string;
+}
+
+function getJourney(name: string): JourneyDefinition | undefined {
+	return JOURNEYS[name as JourneyName];
+}
+
+function getExpiry(journey: JourneyDefinition): Date {
+	return new Date(Date.now() + journey.ttlMinutes * 60 * 1000);
+}
+
+/**
+ * Pull the text, button and location parts out of an inbound message
+ */
+export function toJourneyInput(message: any): JourneyInput | null {
+	const type = message?.type;
+
+	if (type === 'text') {
+		return {
+			text: message?.text?.body ?? null,
+			buttonId: null,
+			location: null,
+		};
+	}
+
+	if (
+		type === 'interactive' &&
+		message?.interactive?.type === 'button_reply'
+	) {
+		return {
+			text: message.interactive.button_reply?.title ?? null,
+			buttonId: message.interactive.button_reply?.id ?? null,
+			location: null,
+		};
+	}
+
+	if (type === 'button') {
+		return {
+			text: message?.button?.text ?? null,
+			buttonId: message?.button?.payload ?? null,
+			location: null,
+		};
+	}
+
+	if (type === 'location' && message?.location) {
+		return {
+			text: null,
+			buttonId: null,
+			location: {
+				latitude: message.location.latitude,
+				longitude: message.location.longitude,
+				name: message.location.name,
+				address: message.location.address,
+			},
+		};
+	}
+
+	return null;
+}
+
+interface OpenedSession {
+	sessionId: string;
+	// Why the journey could not start; the session is already cancelled
+	abort?: string;
+	prompt?: JourneyPrompt;
+}
+
+interface AdvancedSession {
+	handled: boolean;
+	reply?: string;
+	prompt?: JourneyPrompt;
+}
+
+/**
+ * Create the session for a journey, ending the one already running.
+ * Returns what to send the customer, or null for an unknown journey.
+ */
+async function openSession(
+	journeyName: string,
+	waId: string,
+	phoneNumber: string,
+	data: Record<string, any>,
+): Promise<OpenedSession | null> {
+	const journey = getJourney(journeyName);
+	if (!journey) {
+		logger.warn('Unknown journey requested', { journeyName, waId });
+		return null;
+	}
+
+	const running = await journeyEngine.getActiveSession(waId);
+	if (running) await journeyEngine.endSession(running.id, 'cancelled');
+
+	const customerID = await messageLogService.findCustomerIdByWaId(waId);
+	const [session] = await db
+		.insert(conversationSessions)
+		.values({
+			waId,
+			customerID,
+			journey: journey.name,
+			step: journey.initialStep,
+			context: data,
+			expiresAt: getExpiry(journey),
+		})
+		.returning();
+
+	const ctx: JourneyContext = {
+		sessionId: session.id,
+		waId,
+		phoneNumber,
+		customerID,
+		data,
+	};
+
+	if (journey.start) {
+		const { data: loaded, abort } = await journey.start(ctx);
+		if (abort) {
+			await journeyEngine.endSession(session.id, 'cancelled');
+			return { sessionId: session.id, abort };
+		}
+		ctx.data = { ...ctx.data, ...loaded };
+		await db
+			.update(conversationSessions)
+			.set({ context: ctx.data, updatedAt: new Date() })
+			.where(eq(conversationSessions.id, session.id));
+	}
+
+	logger.info('Journey started', {
+		journey: journey.name,
+		sessionId: session.id,
+		waId,
+	});
+
+	return {
+		sessionId: session.id,
+		prompt: await journey.steps[journey.initialStep].prompt(ctx),
+	};
+}
+
+/**
+ * Run the customer's current journey step on an input and save where the
+ * session goes next. Returns what to send the customer.
+ */
+async function advanceSession(
+	input: JourneyInput,
+	waId: string,
+	phoneNumber: string,
+): Promise<AdvancedSession> {
+	const session = await journeyEngine.getActiveSession(waId);
+	if (!session) return { handled: false };
+
+	const journey = getJourney(session.journey);
+	const step = journey?.steps[session.step];
+	if (!journey || !step) {
+		logger.warn('Session points at an unknown journey step', {
+			sessionId: session.id,
+			journey: session.journey,
+			step: session.step,
+		});
+		await journeyEngine.endSession(session.id, 'cancelled');
+		return { handled: false };
+	}
+
+	if (input.text && CANCEL_WORDS.includes(input.text.trim().toUpperCase())) {
+		await journeyEngine.endSession(session.id, 'cancelled');
+		return {
+			handled: true,
+			reply: 'Okay, cancelled. Reply *MENU* whenever you need us 🌸',
+		};
+	}
+
+	const ctx: JourneyContext = {
+		sessionId: session.id,
+		waId,
+		phoneNumber,
+		customerID: session.customerID,
+		data: (session.context ?? {}) as Record<string, any>,
+	};
+
+	const result = await step.handle(input, ctx);
+	const data = { ...ctx.data, ...result.data };
+
+	if (result.complete || result.cancel) {
+		await journeyEngine.endSession(
+			session.id,
+			result.complete ? 'completed' : 'cancelled',
+			data,
+		);
+		logger.info('Journey ended', {
+			journey: journey.name,
+			sessionId: session.id,
+			status: result.complete ? 'completed' : 'cancelled',
+		});
+		return { handled: true, reply: result.reply };
+	}
+
+	const nextStep = result.next ?? session.step;
+	await db
+		.update(conversationSessions)
+		.set({
+			step: nextStep,
+			context: data,
+			expiresAt: getExpiry(journey),
+			updatedAt: new Date(),
+		})
+		.where(eq(conversationSessions.id, session.id));
+
+	// Re-prompt on unrecognised input, unless the step already replied
+	return {
+		handled: true,
+		reply: result.reply,
+		prompt:
+			result.next || !result.reply
+				? await journey.steps[nextStep].prompt({ ...ctx, data })
+				: undefined,
+	};
+}
+
+export const journeyEngine = {
+	/**
+	 * The running, unexpired session for a WhatsApp number. Sessions past
+	 * their expiry are closed on the way.
+	 */
+	async getActiveSession(
+		waId: string,
+	): Promise<SelectConversationSession | null> {
+		const session = await db.query.conversationSessions.findFirst({
+			where: and(
+				eq(conversationSessions.waId, waId),
+				eq(conversationSessions.status, 'active'),
+			),
+		});
+		if (!session) return null;
+
+		if (session.expiresAt.getTime() <= Date.now()) {
+			await this.endSession(session.id, 'expired');
+			return null;
+		}
+		return session;
+	},
+
+	async endSession(
+		sessionId: string,
+		status: 'completed' | 'cancelled' | 'expired',
+		context?: Record<string, any>,
+	) {
+		const now = new Date();
+		await db
+			.update(conversationSessions)
+			.set({
+				status,
+				endedAt: now,
+				updatedAt: now,
+				...(context ? { context } : {}),
+			})
+			.where(eq(conversationSessions.id, sessionId));
+	},
+
+	/**
+	 * Close every session whose expiry has passed
+	 */
+	async expireStaleSessions(): Promise<number> {
+		const now = new Date();
+		const expired = await db
+			.update(conversationSessions)
+			.set({ status: 'expired', endedAt: now, updatedAt: now })
+			.where(
+				and(
+					eq(conversationSessions.status, 'active'),
+					lte(conversationSessions.expiresAt, now),
+				),
+			)
+			.returning({ id: conversationSessions.id });
+
+		return expired.length;
+	},
+
+	async sendPrompt(phoneNumber: string, prompt: JourneyPrompt) {
+		const whatsappMessageService = new WhatsAppMessageService();
+		if (prompt.buttons?.length) {
+			await whatsappMessageService.sendButtons(
+				phoneNumber,
+				prompt.text,
+				prompt.buttons,
+			);
+		} else {
+			await whatsappMessageService.sendText(phoneNumber, prompt.text);
+		}
+	},
+
+	/**
+	 * Start a journey for a customer, replacing any journey already running.
+	 * The session is opened once per webhook job, so a retried job only
+	 * resends the prompt it did not get to.
+	 */
+	async start(
+		journeyName: string,
+		{ waId, phoneNumber, data = {} }: StartJourneyInput,
+	): Promise<SelectConversationSession | null> {
+		const opened = await webhookJobEffectService.once(
+			`journey-start:${journeyName}:${waId}`,
+			() => openSession(journeyName, waId, phoneNumber, data),
+		);
+		if (!opened) return null;
+
+		if (opened.abort) {
+			await new WhatsAppMessageService().sendText(
+				phoneNumber,
+				opened.abort,
+			);
+			return null;
+		}
+
+		await this.sendPrompt(phoneNumber, opened.prompt);
+		return db.query.conversationSessions.findFirst({
+			where: eq(conversationSessions.id, opened.sessionId),
+		});
+	},
+
+	/**
+	 * Feed an inbound message to the customer's running journey. Returns
+	 * false when there is no journey to handle it, so normal routing runs.
+	 * The step runs once per webhook job; a retried job only resends the
+	 * replies it did not get to.
+	 */
+	async handleInbound({
+		message,
+		waId,
+		phoneNumber,
+	}: InboundJourneyMessage): Promise<boolean> {
+		const input = toJourneyInput(message);
+		if (!input) return false;
+
+		const advanced = await webhookJobEffectService.once(
+			`journey-step:${waId}`,
+			() => advanceSession(input, waId, phoneNumber),
+		);
+
+		if (advanced.reply) {
+			await new WhatsAppMessageService().sendText(
+				phoneNumber,
+				advanced.reply,
+			);
+		}
+		if (advanced.prompt) {
+			await this.sendPrompt(phoneNumber, advanced.prompt);
+		}
+		return advanced.handled;
+	},
+};
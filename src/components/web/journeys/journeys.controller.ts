@@ -0,0 +1,53 @@
+import { Request, Response, Router } from 'express';
+import {
+	JourneySessionIdParamsParser,
+	JourneySessionListQueryParser,
+} from './journeys.parser';
+import { journeyService } from './journeys.service';
+import BaseApi from '@/components/BaseApi';
+
+export default class JourneyController extends BaseApi {
+	constructor() {
+		super();
+	}
+
+	public register(): Router {
+		this.router.get('/', this.getJourneys.bind(this));
+		this.router.get('/sessions', this.getSessions.bind(this));
+		this.router.get('/sessions/:id', this.getSessionById.bind(this));
+		this.router.post('/sessions/:id/cancel', this.cancelSession.bind(this));
+
+		return this.router;
+	}
+
+	public async getJourneys(req: Request, res: Response) {
+		const { data, message } = await journeyService.listJourneys();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getSessions(req: Request, res: Response) {
+		const query = JourneySessionListQueryParser.parse(req.query);
+		const { data, message } = await journeyService.listSessions(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getSessionById(req: Request, res: Response) {
+		const { id } = JourneySessionIdParamsParser.parse(req.params);
+		const { data, message } = await journeyService.getSession(id);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async cancelSession(req: Request, res: Response) {
+		const { id } = JourneySessionIdParamsParser.parse(req.params);
+		const { data, message } = await journeyService.cancelSession(id);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+}
@@ -0,0 +1,17 @@
+import { z } from 'zod/v4';
+import { JOURNEY_NAMES } from './definitions';
+import { Zerror } from '@/utils/validations';
+
+export const JourneySessionListQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+	journey: z.enum(JOURNEY_NAMES).optional(),
+	status: z.enum(['active', 'completed', 'cancelled', 'expired']).optional(),
+	waId: z.string().trim().min(1).optional(),
+});
+
+export const JourneySessionIdParamsParser = z.object({
+	id: z.uuid({
+		error: (issue) => Zerror(issue, 'Session id', 'uuid'),
+	}),
+});
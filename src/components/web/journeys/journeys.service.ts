@@ -0,0 +1,167 @@
+import { and, count, desc, eq } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import { JOURNEYS, JourneyName } from './definitions';
+import { journeyEngine } from './journeyEngine';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import {
+	conversationSessions,
+	SelectConversationSession,
+} from '@/database/schema';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+interface ListSessionsInput {
+	page: number;
+	limit: number;
+	journey?: JourneyName;
+	status?: SelectConversationSession['status'];
+	waId?: string;
+}
+
+export const journeyService = {
+	/**
+	 * Describe the journeys the bot can run
+	 */
+	async listJourneys() {
+		const data = Object.entries(JOURNEYS).map(([key, journey]) => ({
+			name: key,
+			description: journey.description,
+			ttlMinutes: journey.ttlMinutes,
+			initialStep: journey.initialStep,
+			steps: Object.keys(journey.steps),
+		}));
+
+		return { data, message: 'Journeys fetched successfully' };
+	},
+
+	async listSessions({
+		page,
+		limit,
+		journey,
+		status,
+		waId,
+	}: ListSessionsInput) {
+		try {
+			await journeyEngine.expireStaleSessions();
+
+			const filters = [];
+			if (journey)
+				filters.push(eq(conversationSessions.journey, journey));
+			if (status) filters.push(eq(conversationSessions.status, status));
+			if (waId) filters.push(eq(conversationSessions.waId, waId));
+			const where = filters.length ? and(...filters) : undefined;
+
+			const sessions = await db.query.conversationSessions.findMany({
+				where,
+				with: {
+					customer: {
+						columns: {
+							id: true,
+							customerID: true,
+							name: true,
+							phone: true,
+						},
+					},
+				},
+				orderBy: [desc(conversationSessions.updatedAt)],
+				limit,
+				offset: (page - 1) * limit,
+			});
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(conversationSessions)
+				.where(where);
+
+			return {
+				data: {
+					sessions,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Journey sessions fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch journey sessions',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listJourneySessions',
+				{ page, limit, journey, status, waId },
+			);
+		}
+	},
+
+	async getSession(sessionId: string) {
+		try {
+			const session = await db.query.conversationSessions.findFirst({
+				where: eq(conversationSessions.id, sessionId),
+				with: { customer: true },
+			});
+
+			if (!session) {
+				throw new AppError(
+					'Journey session not found',
+					StatusCodes.NOT_FOUND,
+				);
+			}
+
+			return {
+				data: session,
+				message: 'Journey session fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch journey session',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'getJourneySession',
+				{ sessionId },
+			);
+		}
+	},
+
+	/**
+	 * Stop a running journey (e.g. when an agent takes over the thread)
+	 */
+	async cancelSession(sessionId: string) {
+		try {
+			const session = await db.query.conversationSessions.findFirst({
+				where: eq(conversationSessions.id, sessionId),
+			});
+
+			if (!session) {
+				throw new AppError(
+					'Journey session not found',
+					StatusCodes.NOT_FOUND,
+				);
+			}
+
+			if (session.status !== 'active') {
+				throw new AppError(
+					`Journey session is already ${session.status}`,
+					StatusCodes.CONFLICT,
+				);
+			}
+
+			await journeyEngine.endSession(sessionId, 'cancelled');
+
+			return {
+				data: { id: sessionId, status: 'cancelled' },
+				message: 'Journey session cancelled successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to cancel journey session',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'cancelJourneySession',
+				{ sessionId },
+			);
+		}
+	},
+};
@@ -0,0 +1,132 @@
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { db } from '@/database';
+import { loyaltyAccounts, loyaltyTransactions } from '@/database/schema';
+import { DbOrTx } from '@/database/transactionType/transactionType';
+
+interface ReverseOrderLoyaltyInput {
+	customerID: string;
+	orderNo: string;
+	reason: string;
+	changedBy?: string;
+}
+
+const REVERSAL_TYPES = ['REDEEM_REVERSAL', 'EARN_REVERSAL'];
+
+export const loyaltyReversalService = {
+	/**
+	 * Give back the points redeemed on an order and take back the points it
+	 * earned. Earned points already spent cannot be recovered, so the balance
+	 * never goes below zero; the shortfall is kept in the metadata. An order
+	 * is reversed once: later calls find the reversal rows and do nothing.
+	 */
+	async reverseForOrder(
+		{ customerID, orderNo, reason, changedBy }: ReverseOrderLoyaltyInput,
+		txOrDb: DbOrTx = db,
+	) {
+		if (txOrDb === db) {
+			return db.transaction((tx) =>
+				this.reverseForOrder(
+					{ customerID, orderNo, reason, changedBy },
+					tx,
+				),
+			);
+		}
+
+		const [account] = await txOrDb
+			.select()
+			.from(loyaltyAccounts)
+			.where(eq(loyaltyAccounts.customerID, customerID))
+			.for('update')
+			.limit(1);
+		if (!account) return null;
+
+		const [reversed] = await txOrDb
+			.select({ id: loyaltyTransactions.id })
+			.from(loyaltyTransactions)
+			.where(
+				and(
+					eq(loyaltyTransactions.account_id, account.id),
+					eq(loyaltyTransactions.orderNo, orderNo),
+					inArray(loyaltyTransactions.type, REVERSAL_TYPES),
+				),
+			)
+			.limit(1);
+		if (reversed) return null;
+
+		const [{ redeemed, earned }] = await txOrDb
+			.select({
+				redeemed: sql<number>`coalesce(sum(-${loyaltyTransactions.manipulatedPoint}) filter (where ${loyaltyTransactions.type} = 'REDEEM'), 0)::int`,
+				earned: sql<number>`coalesce(sum(${loyaltyTransactions.manipulatedPoint}) filter (where ${loyaltyTransactions.type} = 'EARN'), 0)::int`,
+			})
+			.from(loyaltyTransactions)
+			.where(
+				and(
+					eq(loyaltyTransactions.account_id, account.id),
+					eq(loyaltyTransactions.orderNo, orderNo),
+				),
+			);
+		if (redeemed === 0 && earned === 0) return null;
+
+		const entries = [];
+		let balance = account.points_balance;
+
+		if (redeemed > 0) {
+			entries.push({
+				initialPoint: balance,
+				manipulatedPoint: redeemed,
+				totalPoint: balance + redeemed,
+				type: 'REDEEM_REVERSAL',
+				description: `Returned ${redeemed} points redeemed on order ${orderNo}`,
+				metadata: { reason },
+			});
+			balance += redeemed;
+		}
+
+		let clawedBack = 0;
+		if (earned > 0) {
+			clawedBack = Math.min(earned, balance);
+			entries.push({
+				initialPoint: balance,
+				manipulatedPoint: -clawedBack,
+				totalPoint: balance - clawedBack,
+				type: 'EARN_REVERSAL',
+				description: `Took back ${clawedBack} points earned on order ${orderNo}`,
+				metadata: { reason, earned, unrecovered: earned - clawedBack },
+			});
+			balance -= clawedBack;
+		}
+
+		const [updatedAccount] = await txOrDb
+			.update(loyaltyAccounts)
+			.set({
+				points_balance: balance,
+				points_redeemed: Math.max(
+					account.points_redeemed - redeemed,
+					0,
+				),
+				lifetime_points: Math.max(account.lifetime_points - earned, 0),
+				last_transaction_at: new Date(),
+				updatedBy: changedBy,
+				updatedAt: new Date(),
+			})
+			.where(eq(loyaltyAccounts.id, account.id))
+			.returning();
+
+		await txOrDb.insert(loyaltyTransactions).values(
+			entries.map((entry) => ({
+				...entry,
+				customerID,
+				account_id: account.id,
+				orderNo,
+				createdBy: changedBy,
+				updatedBy: changedBy,
+			})),
+		);
+
+		return {
+			pointsReturned: redeemed,
+			pointsClawedBack: clawedBack,
+			balance: updatedAccount.points_balance,
+		};
+	},
+};
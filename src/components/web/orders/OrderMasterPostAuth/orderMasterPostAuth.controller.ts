@@ -2,17 +2,23 @@
 import { Request, Response, Router } from 'express';
 
 import BaseApi from '../../../BaseApi';
+import { orderPaymentService } from '../../payments/orderPayment.service';
+import { paymentLinkService } from '../../payments/paymentLinks.service';
+import { orderLifecycleService } from '../orderLifecycle/orderLifecycle.service';
+import { orderNotificationService } from '../orderNotifications/orderNotifications.service';
+import {
+	OrderCancelBodyParser,
+	OrderIdParamsParser,
+	OrderRefundBodyParser,
+	OrderStatusUpdateBodyParser,
+} from './orderMasterPostAuth.parser';
 import { orderMasterPostAuthService } from './orderMasterPostAuth.service';
 
-
 /** Helper: build Stripe client */
 
-
 export default class OrderMasterPostAuthController extends BaseApi {
-
 	constructor() {
 		super();
-		
 	}
 
 	public register(): Router {
@@ -21,11 +27,18 @@ export default class OrderMasterPostAuthController extends BaseApi {
 			this.getOrderDetailsById.bind(this),
 		);
 		this.router.get('/fetchAllOrders', this.getAllOrderDetails.bind(this));
+		this.router.get(
+			'/:id/status-history',
+			this.getOrderStatusHistory.bind(this),
+		);
+		this.router.patch('/:id/status', this.updateOrderStatus.bind(this));
+		this.router.post('/:id/refund', this.refundOrder.bind(this));
+		this.router.post('/:id/cancel', this.cancelOrder.bind(this));
+		this.router.post('/:id/payment-link', this.sendPaymentLink.bind(this));
 
 		return this.router;
 	}
 
-
 	public async getOrderDetailsById(req: Request, res: Response) {
 		const { id }: any = req.params;
 		const result = await orderMasterPostAuthService.getOrderById(id);
@@ -41,4 +54,71 @@ export default class OrderMasterPostAuthController extends BaseApi {
 		super.send(res);
 	}
 
+	public async updateOrderStatus(req: Request, res: Response) {
+		const { id } = OrderIdParamsParser.parse(req.params);
+		const { status, ...body } = OrderStatusUpdateBodyParser.parse(req.body);
+		const { data, message } = await orderLifecycleService.transitionOrder({
+			orderId: id,
+			toStatus: status,
+			changedBy: req.user_details?.id,
+			...body,
+		});
+
+		// Sent after the status is committed; failures are recorded, not thrown
+		const notification = await orderNotificationService.notifyStatusChange({
+			orderId: id,
+			status,
+			historyId: data.history.id,
+			reason: body.reason,
+		});
+
+		res.locals = { data: { ...data, notification }, message };
+		super.send(res);
+	}
+
+	public async refundOrder(req: Request, res: Response) {
+		const { id } = OrderIdParamsParser.parse(req.params);
+		const body = OrderRefundBodyParser.parse(req.body ?? {});
+		const { data, message } = await orderPaymentService.refundOrder(
+			id,
+			body,
+			req.user_details?.id,
+		);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async cancelOrder(req: Request, res: Response) {
+		const { id } = OrderIdParamsParser.parse(req.params);
+		const { reason } = OrderCancelBodyParser.parse(req.body ?? {});
+		const { data, message } = await orderPaymentService.cancelOrder(
+			id,
+			reason,
+			req.user_details?.id,
+		);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async sendPaymentLink(req: Request, res: Response) {
+		const { id } = OrderIdParamsParser.parse(req.params);
+		const { data, message } = await paymentLinkService.sendForOrder(
+			id,
+			req.user_details?.id,
+		);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getOrderStatusHistory(req: Request, res: Response) {
+		const { id } = OrderIdParamsParser.parse(req.params);
+		const { data, message } =
+			await orderLifecycleService.getStatusHistory(id);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
 }
@@ -0,0 +1,35 @@
+import { z } from 'zod/v4';
+import { ORDER_STATUSES } from '../orderLifecycle/orderLifecycle.service';
+import { Zerror } from '@/utils/validations';
+
+export const OrderIdParamsParser = z.object({
+	id: z.uuid({
+		error: (issue) => Zerror(issue, 'Order id', 'uuid'),
+	}),
+});
+
+export const OrderStatusUpdateBodyParser = z.object({
+	// Refunds and cancellations go through their own routes, which also move
+	// the money back
+	status: z
+		.enum(ORDER_STATUSES)
+		.refine((v) => v !== 'refunded', {
+			message: 'Use POST /:id/refund to refund an order',
+		})
+		.refine((v) => v !== 'cancelled', {
+			message: 'Use POST /:id/cancel to cancel an order',
+		}),
+	reason: z.string().trim().min(1).max(1000).optional(),
+	trackingNo: z.string().trim().min(1).max(255).optional(),
+	carrier: z.string().trim().min(1).max(100).optional(),
+});
+
+export const OrderRefundBodyParser = z.object({
+	// Major units; leave out to refund everything left on the payment
+	amount: z.coerce.number().positive().optional(),
+	reason: z.string().trim().min(1).max(1000).optional(),
+});
+
+export const OrderCancelBodyParser = z.object({
+	reason: z.string().trim().min(1).max(1000).optional(),
+});
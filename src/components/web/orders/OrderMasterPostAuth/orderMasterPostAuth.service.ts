@@ -4,6 +4,7 @@ import { loyaltyAccounts, orders } from "@/database/schema";
 import { handleServiceError } from "@/utils/serviceErrorHandler";
 import { eq } from "drizzle-orm";
 import { StatusCodes } from "http-status-codes";
+import { getNextOrderStatuses } from "../orderLifecycle/orderLifecycle.service";
 
 export const orderMasterPostAuthService = {
     async getOrderById(id: string, _userId?: string) {
@@ -24,6 +25,18 @@ export const orderMasterPostAuthService = {
 							desc(orderItems.createdAt),
 						],
 					},
+					// Every payment attempt, newest first
+					payments: {
+						orderBy: (payments, { desc }) => [
+							desc(payments.createdAt),
+						],
+						with: { refunds: true },
+					},
+					paymentLinks: {
+						orderBy: (paymentLinks, { desc }) => [
+							desc(paymentLinks.createdAt),
+						],
+					},
 				},
 			});
 
@@ -47,6 +60,7 @@ export const orderMasterPostAuthService = {
 				message: 'Order fetched successfully',
 				data: {
 					order,
+					nextStatuses: getNextOrderStatuses(order.status),
 					loyaltyAccount: loyaltyAccount ?? {
 						points_balance: 0,
 						points_redeemed: 0,
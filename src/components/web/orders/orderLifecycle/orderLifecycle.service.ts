@@ -0,0 +1,261 @@
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import { inventoryReservationService } from '../../inventory/inventoryReservation.service';
+import { loyaltyReversalService } from '../../loyalty/loyaltyReversal.service';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import {
+	orderNotifications,
+	orders,
+	orderStatusEnum,
+	orderStatusHistory,
+	SelectOrder,
+} from '@/database/schema';
+import { DbOrTx } from '@/database/transactionType/transactionType';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+export type OrderStatus = SelectOrder['status'];
+
+export const ORDER_STATUSES = orderStatusEnum.enumValues;
+
+/**
+ * Allowed moves for every status. Cancelled and refunded orders are final;
+ * a paid order that gets cancelled still has to be refunded.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+	pending_payment: ['paid', 'cancelled'],
+	paid: ['packed', 'cancelled', 'refunded'],
+	packed: ['shipped', 'cancelled', 'refunded'],
+	shipped: ['delivered', 'returned'],
+	delivered: ['returned', 'refunded'],
+	returned: ['refunded'],
+	cancelled: ['refunded'],
+	refunded: [],
+};
+
+// Statuses that put an order's sold stock back on hand
+const RESTOCK_STATUSES: OrderStatus[] = ['cancelled', 'returned', 'refunded'];
+
+interface TransitionOrderInput {
+	orderId?: string;
+	orderNo?: string;
+	toStatus: OrderStatus;
+	reason?: string;
+	changedBy?: string;
+	trackingNo?: string;
+	carrier?: string;
+	metadata?: Record<string, unknown>;
+}
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus) {
+	return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function getNextOrderStatuses(status: OrderStatus): OrderStatus[] {
+	return ORDER_STATUS_TRANSITIONS[status] ?? [];
+}
+
+/**
+ * Move an order to a new status if the transition map allows it and
+ * log who did it and why. The update is guarded on the status we read,
+ * so two concurrent transitions cannot both win. Paying converts the
+ * order's stock reservations and cancelling releases them; cancelling,
+ * returning or refunding also restocks sold items and reverses the
+ * order's loyalty points.
+ */
+async function applyTransition(input: TransitionOrderInput, tx: DbOrTx) {
+	const { orderId, orderNo, toStatus, reason, changedBy } = input;
+
+	try {
+		if (!orderId && !orderNo) {
+			throw new AppError(
+				'Order id or order number is required',
+				StatusCodes.BAD_REQUEST,
+			);
+		}
+
+		const [existing] = await tx
+			.select()
+			.from(orders)
+			.where(
+				orderId ? eq(orders.id, orderId) : eq(orders.orderNo, orderNo),
+			)
+			.limit(1);
+
+		if (!existing) {
+			throw new AppError('Order not found', StatusCodes.NOT_FOUND);
+		}
+
+		if (!canTransitionOrder(existing.status, toStatus)) {
+			const allowed = getNextOrderStatuses(existing.status);
+			throw new AppError(
+				`Order ${existing.orderNo} cannot move from ${existing.status} to ${toStatus}. ` +
+					(allowed.length
+						? `Allowed: ${allowed.join(', ')}`
+						: `${existing.status} is a final status`),
+				StatusCodes.CONFLICT,
+			);
+		}
+
+		const [updated] = await tx
+			.update(orders)
+			.set({
+				status: toStatus,
+				trackingNo: input.trackingNo ?? existing.trackingNo,
+				carrier: input.carrier ?? existing.carrier,
+				updatedBy: changedBy ?? existing.updatedBy,
+				updatedAt: new Date(),
+			})
+			.where(
+				and(
+					eq(orders.id, existing.id),
+					eq(orders.status, existing.status),
+				),
+			)
+			.returning();
+
+		if (!updated) {
+			throw new AppError(
+				`Order ${existing.orderNo} was updated by someone else, please retry`,
+				StatusCodes.CONFLICT,
+			);
+		}
+
+		const [history] = await tx
+			.insert(orderStatusHistory)
+			.values({
+				orderID: existing.id,
+				fromStatus: existing.status,
+				toStatus,
+				reason,
+				metadata: input.metadata,
+				changedBy,
+			})
+			.returning();
+
+		// Stock held for the order follows its lifecycle
+		if (toStatus === 'paid') {
+			await inventoryReservationService.convertForOrder(existing.id, tx);
+		} else if (toStatus === 'cancelled') {
+			await inventoryReservationService.releaseForOrder(
+				existing.id,
+				reason || 'Order cancelled',
+				tx,
+			);
+		}
+
+		// Sold stock comes back, except on a refund after delivery where the
+		// customer keeps the goods
+		if (
+			RESTOCK_STATUSES.includes(toStatus) &&
+			existing.status !== 'delivered'
+		) {
+			await inventoryReservationService.restockForOrder(
+				existing.id,
+				reason || `Order ${toStatus}`,
+				changedBy,
+				tx,
+			);
+		}
+
+		if (toStatus === 'cancelled' || toStatus === 'refunded') {
+			await loyaltyReversalService.reverseForOrder(
+				{
+					customerID: existing.customerID,
+					orderNo: existing.orderNo,
+					reason: reason || `Order ${toStatus}`,
+					changedBy,
+				},
+				tx,
+			);
+		}
+
+		return {
+			data: { order: updated, history },
+			message: `Order status updated to ${toStatus}`,
+		};
+	} catch (error) {
+		handleServiceError(
+			error,
+			'Failed to update order status',
+			StatusCodes.INTERNAL_SERVER_ERROR,
+			'Error in transitionOrder service',
+			{ orderId, orderNo, toStatus, changedBy },
+		);
+	}
+}
+
+export const orderLifecycleService = {
+	/**
+	 * Record the status an order was created with as the first history entry
+	 */
+	async recordInitialStatus(
+		order: Pick<SelectOrder, 'id' | 'status'>,
+		changedBy?: string,
+		txOrDb: DbOrTx = db,
+	) {
+		await txOrDb.insert(orderStatusHistory).values({
+			orderID: order.id,
+			fromStatus: null,
+			toStatus: order.status,
+			reason: 'Order created',
+			changedBy,
+		});
+	},
+
+	/**
+	 * Runs in the caller's transaction, or in a new one so the status,
+	 * history and stock changes are applied together
+	 */
+	async transitionOrder(input: TransitionOrderInput, txOrDb: DbOrTx = db) {
+		return txOrDb === db
+			? db.transaction((tx) => applyTransition(input, tx))
+			: applyTransition(input, txOrDb);
+	},
+
+	async getStatusHistory(orderId: string) {
+		try {
+			const order = await db.query.orders.findFirst({
+				where: eq(orders.id, orderId),
+				columns: { id: true, orderNo: true, status: true },
+			});
+
+			if (!order) {
+				throw new AppError('Order not found', StatusCodes.NOT_FOUND);
+			}
+
+			const history = await db.query.orderStatusHistory.findMany({
+				where: eq(orderStatusHistory.orderID, orderId),
+				with: {
+					changedByUser: {
+						columns: { id: true, name: true, email: true },
+					},
+				},
+				orderBy: [asc(orderStatusHistory.createdAt)],
+			});
+
+			const notifications = await db.query.orderNotifications.findMany({
+				where: eq(orderNotifications.orderID, orderId),
+				orderBy: [desc(orderNotifications.createdAt)],
+			});
+
+			return {
+				data: {
+					order,
+					nextStatuses: getNextOrderStatuses(order.status),
+					history,
+					notifications,
+				},
+				message: 'Order status history fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch order status history',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'Error in getStatusHistory service',
+				{ orderId },
+			);
+		}
+	},
+};
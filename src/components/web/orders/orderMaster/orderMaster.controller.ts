@@ -4,33 +4,24 @@ import { Request, Response, Router } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import Stripe from 'stripe';
 import BaseApi from '../../../BaseApi';
-import { CustomerWebService } from '../../webhook/customer-web.service';
+import { catalogMirrorService } from '../../catalog/catalogMirror.service';
+import { inventoryReservationService } from '../../inventory/inventoryReservation.service';
+import { orderPaymentService } from '../../payments/orderPayment.service';
+import { paymentLinkService } from '../../payments/paymentLinks.service';
+import { paymentService } from '../../payments/payments.service';
+import { getStripe } from '../../payments/stripeClient';
 import { customerService } from './orderMaster.service';
 import AppError from '@/abstractions/AppError';
 import { db } from '@/database';
-import { orderItems, orders, products } from '@/database/schema';
+import { orders } from '@/database/schema';
 import env from '@/env';
-import logger from '@/lib/logger';
-import { fbCheckStock, fbUpdateStock } from './facebookSync';
+import { toSmallestUnit } from '@/utils/currency';
 
-const STRIPE_SECRET_KEY = env.STRIPE_SECRET_KEY || '';
 const STRIPE_PUBLISHABLE_KEY = env.STRIPE_PUBLISHABLE_KEY || '';
 
-/** Helper: build Stripe client */
-function getStripe() {
-	if (!STRIPE_SECRET_KEY) {
-		throw new Error('STRIPE_SECRET_KEY missing');
-	}
-	// Use null to bind to your account default API version (keeps TS happy)
-	return new Stripe(STRIPE_SECRET_KEY, { apiVersion: null });
-}
-
 export default class CustomerController extends BaseApi {
-	private customerWebService: CustomerWebService;
-
 	constructor() {
 		super();
-		this.customerWebService = new CustomerWebService();
 	}
 
 	public register(): Router {
@@ -145,27 +136,59 @@ export default class CustomerController extends BaseApi {
 		return res.status(404).json({ message: "Order not found" });
 	}
 
-	const orderedItems = await db.query.orderItems.findMany({
-		where: eq(orderItems.orderID, orderRecord.id),
-		with: { product: true },
+	if (String(order.customerID) !== orderRecord.customerID) {
+		return res.status(400).json({ message: "Order does not belong to this customer" });
+	}
+
+	// Paid or cancelled orders must not be charged again
+	if (orderRecord.status !== "pending_payment") {
+		return res.status(409).json({
+			message: `Order ${orderRecord.orderNo} is not awaiting payment (${orderRecord.status})`,
+		});
+	}
+
+	const pointsApplied = Number(loyalty?.points_applied || 0);
+	if (!Number.isInteger(pointsApplied) || pointsApplied < 0) {
+		return res.status(400).json({ message: "Invalid loyalty points" });
+	}
+
+	// The total is computed from the order items and current prices; the
+	// client's amount is only checked against it, never charged as-is
+	const payable = await orderPaymentService.calculatePayable({
+		orderId: orderRecord.id,
+		customerID: orderRecord.customerID,
+		pointsToRedeem: pointsApplied,
 	});
+	const orderedItems = payable.items;
+
+	if (
+		String(order.currency).toUpperCase() !== payable.currency ||
+		toSmallestUnit(Number(order.amount), payable.currency) !== payable.amountInSmallest
+	) {
+		throw new AppError(
+			`Order total does not match, expected ${payable.payable} ${payable.currency}`,
+			StatusCodes.CONFLICT
+		);
+	}
 
 	// ===================================================================
 	// 2) STOCK CHECK (DATABASE + FACEBOOK)
 	// ===================================================================
+	const catalog = await catalogMirrorService.getAvailability(
+		orderedItems.map(
+			(item) => item.variant?.retailerId ?? item.product.contentId
+		),
+	);
+
 	for (const item of orderedItems) {
 		const product = item.product;
-		const qtyRequired = item.qty ?? 0;
-
-		if (!product.qty || product.qty < qtyRequired) {
-			return res.status(400).json({
-				message: `Product ${product.productName} does not have enough stock`,
-			});
-		}
 
-		const fbInfo = await fbCheckStock(product.contentId);
+		// Variants are listed in the catalog under their own retailer id
+		const fbInfo = catalog.get(
+			item.variant?.retailerId ?? product.contentId
+		);
 
-		if (!fbInfo.exists) {
+		if (!fbInfo?.exists) {
 			return res.status(400).json({
 				message: `Product ${product.productName} not found in Facebook catalog`,
 			});
@@ -178,6 +201,12 @@ export default class CustomerController extends BaseApi {
 		}
 	}
 
+	// Hold the stock before charging; re-reserves if an earlier hold expired
+	await inventoryReservationService.reserveForOrder(
+		orderRecord.id,
+		orderedItems,
+	);
+
 	// ===================================================================
 	// 3) VALIDATE PAYMENT METHOD
 	// ===================================================================
@@ -189,26 +218,56 @@ export default class CustomerController extends BaseApi {
 	if (pm.card.checks?.cvc_check === "fail")
 		throw new AppError("CVC check failed", StatusCodes.BAD_REQUEST);
 
-	const amountInSmallest = Math.max(1, Math.round(order.amount * 100));
+	const amountInSmallest = payable.amountInSmallest;
+	const card = {
+		brand: pm.card.brand,
+		last4: pm.card.last4,
+		funding: pm.card.funding,
+	};
 
 	// ===================================================================
 	// 4) CREATE + CONFIRM PAYMENT INTENT
 	// ===================================================================
-	const pi: any = await stripe.paymentIntents.create({
-		amount: amountInSmallest,
-		currency: order.currency.toLowerCase(),
-		payment_method: paymentMethodId,
-		confirm: true,
-		automatic_payment_methods: {
-			enabled: true,
-			allow_redirects: "never",
-		},
-		receipt_email: email || undefined,
-		description: `Order ${order.orderId}`,
-		metadata: {
-			orderId: order.orderId,
-			customerID: String(order.customerID),
-		},
+	let pi: Stripe.PaymentIntent;
+	try {
+		pi = await stripe.paymentIntents.create({
+			amount: amountInSmallest,
+			currency: payable.currency.toLowerCase(),
+			payment_method: paymentMethodId,
+			confirm: true,
+			automatic_payment_methods: {
+				enabled: true,
+				allow_redirects: "never",
+			},
+			receipt_email: email || undefined,
+			description: `Order ${order.orderId}`,
+			// Read back by the Stripe webhook to finalize the order
+			metadata: {
+				orderId: order.orderId,
+				customerID: orderRecord.customerID,
+				pointsApplied: String(pointsApplied),
+			},
+		});
+	} catch (stripeErr) {
+		// Declined cards are kept in the payment history too
+		if (stripeErr instanceof Stripe.errors.StripeError) {
+			await paymentService.recordDeclined({
+				orderID: orderRecord.id,
+				amount: amountInSmallest,
+				currency: payable.currency,
+				error: stripeErr,
+				card,
+				pointsApplied,
+				userId: actingUserId,
+			});
+		}
+		throw stripeErr;
+	}
+
+	await paymentService.recordIntent(orderRecord.id, pi, {
+		card,
+		pointsApplied,
+		userId: actingUserId,
 	});
 
 	// ===================================================================
@@ -231,89 +290,48 @@ export default class CustomerController extends BaseApi {
 	// ===================================================================
 	if (pi.status === "succeeded") {
 		const orderNo = order.orderId;
-		let loyaltySummary = null;
-
-		await db.transaction(async (tx) => {
-			await customerService.updateOrderStatus(orderNo, actingUserId, tx);
-
-			const pointsToRedeem = Number(loyalty?.points_applied || 0);
-
-			if (pointsToRedeem > 0) {
-				loyaltySummary = await customerService.deductLoyaltyPoints(
-					{
-						customerID: order.customerID,
-						points: pointsToRedeem,
-						orderNo: order.orderId,
-						userId: actingUserId,
-					},
-					tx
-				);
-
-				await customerService.redeemLoyaltyPoints(
-					order.customerID,
-					pointsToRedeem,
-					actingUserId,
-					tx
-				);
-			}
-		});
+
+		// The webhook may get here first; then this does nothing
+		const { finalized, loyalty: loyaltySummary } =
+			await orderPaymentService.finalizePaidOrder({
+				orderNo,
+				customerID: orderRecord.customerID,
+				pointsToRedeem: pointsApplied,
+				paymentIntentId: pi.id,
+				userId: actingUserId,
+			});
 
 		// ===================================================================
 		// 7) SEND PAYMENT CONFIRMATION MESSAGE (outside transaction)
 		// ===================================================================
-		try {
-			const orderWithCustomer = await db.query.orders.findFirst({
-				where: eq(orders.orderNo, orderNo),
-				with: { customer: true },
-			});
-
-			if (orderWithCustomer?.customer?.phone) {
-				const customerName = orderWithCustomer.customer.name || "Customer";
-				const deliveryDays = 3;
-				const formattedAmount = order.amount.toFixed(2);
-
-				await this.customerWebService.sendPaymentConfirmation(
-					orderWithCustomer.customer.phone,
-					customerName,
-					orderNo,
-					formattedAmount,
-					order.currency,
-					deliveryDays
-				);
-			}
-		} catch (msgErr) {
-			logger.error("Failed to send payment confirmation", msgErr);
+		if (finalized) {
+			// A WhatsApp payment link for the order must not be paid as well
+			await paymentLinkService.closeForPaidOrder(orderRecord.id);
+			await orderPaymentService.sendPaymentConfirmation(
+				orderNo,
+				payable.payable,
+				payable.currency
+			);
 		}
 
-		// ===================================================================
-		// 8) REDUCE STOCK + SYNC WITH FACEBOOK
-		// ===================================================================
-		try {
-			for (const item of orderedItems) {
-				const product = item.product;
-				const qtyOrdered = item.qty ?? 0;
-				const newQty = Math.max((product.qty || 0) - qtyOrdered, 0);
-
-				await db
-					.update(products)
-					.set({ qty: newQty, updatedAt: new Date() })
-					.where(eq(products.id, product.id));
-
-				await fbUpdateStock(
-					product.contentId,
-					product.amount,
-					newQty,
-					product.currency
-				);
-			}
-
-			logger.info("Stock updated & synced to Facebook");
-		} catch (err) {
-			logger.error("Stock update failed", err);
+		// Cancelled, already paid by another payment, or its stock was gone:
+		// the Stripe webhook refunds this charge
+		if (!finalized) {
+			res.locals = {
+				data: {
+					valid: false,
+					paymentStatus: "succeeded",
+					order: { orderId: order.orderId },
+				},
+				message:
+					"Payment went through but the order could not be completed, the payment is being refunded",
+			};
+			super.send(res, StatusCodes.CONFLICT);
+			return;
 		}
 
 		// ===================================================================
-		// 9) SUCCESS RESPONSE
+		// 8) SUCCESS RESPONSE
 		// ===================================================================
 		res.locals = {
 			data: {
@@ -326,8 +344,8 @@ export default class CustomerController extends BaseApi {
 				order: {
 					orderId: order.orderId,
 					customerID: order.customerID,
-					amount: order.amount,
-					currency: order.currency,
+					amount: payable.payable,
+					currency: payable.currency,
 				},
 				email: email || null,
 				loyalty: loyaltySummary,
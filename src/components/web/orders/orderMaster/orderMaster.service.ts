@@ -1,7 +1,8 @@
-import { eq, desc, and } from 'drizzle-orm';
+import { eq, desc, and, sql } from 'drizzle-orm';
 import { StatusCodes } from 'http-status-codes';
 import { db } from '../../../../database/index';
 import { WhatsAppMessageService } from '../../webhook/whatsapp-message.service';
+import { orderLifecycleService } from '../orderLifecycle/orderLifecycle.service';
 import AppError from '@/abstractions/AppError';
 import {
 	customerMaster,
@@ -98,49 +99,25 @@ async redeemLoyaltyPoints(
 }
 ,
 
-	async updateOrderStatus(orderNo: any, userId?: any, txOrDb: DbOrTx = db) {
-		try {
-			const existingOrder = await db.query.orders.findFirst({
-				where: eq(orders.orderNo, orderNo),
-			});
-
-			if (!existingOrder) {
-				throw new AppError('Order not found', StatusCodes.NOT_FOUND);
-			}
-
-			if (existingOrder.status !== 'new') {
-				throw new AppError(
-					'Order cannot be updated. Only orders with status NEW can be moved to IN_PROGRESS.',
-					StatusCodes.CONFLICT,
-				);
-			}
-
-			await txOrDb
-				.update(orders)
-				.set({
-					status: 'inprogress',
-					// updatedBy: userId,
-					// updatedAt: new Date(),
-				})
-				.where(eq(orders.orderNo, orderNo));
-
-			const updatedOrder = await db.query.orders.findFirst({
-				where: eq(orders.orderNo, orderNo),
-			});
-
-			return {
-				data: updatedOrder,
-				message: 'Order status updated to IN_PROGRESS successfully',
-			};
-		} catch (error) {
-			handleServiceError(
-				error,
-				'Failed to update order status',
-				StatusCodes.INTERNAL_SERVER_ERROR,
-				'Error in updateOrderStatus service',
-				{ orderNo, userId },
-			);
-		}
+	/**
+	 * Mark an order as paid once its payment has succeeded
+	 */
+	async updateOrderStatus(
+		orderNo: any,
+		userId?: any,
+		txOrDb: DbOrTx = db,
+		metadata?: Record<string, unknown>,
+	) {
+		return orderLifecycleService.transitionOrder(
+			{
+				orderNo,
+				toStatus: 'paid',
+				reason: 'Payment succeeded',
+				changedBy: userId,
+				metadata,
+			},
+			txOrDb,
+		);
 	},
 
 	async createCustomerProduct(data: any) {
@@ -312,37 +289,31 @@ async deductLoyaltyPoints(
 	txOrDb: DbOrTx = db
 ) {
 	try {
-		const account = await db.query.loyaltyAccounts.findFirst({
-			where: eq(loyaltyAccounts.customerID, customerID),
-		});
-
-		if (!account) {
-			throw new AppError("Loyalty account not found", StatusCodes.NOT_FOUND);
-		}
-
-		// if (account.points_balance < points) {
-		// 	throw new AppError("Insufficient loyalty points", StatusCodes.BAD_REQUEST);
-		// }
-
-		const previousBalance = account.points_balance;
-		const newBalance = previousBalance - points;
-		const newRedeemedTotal = account.points_redeemed + points;
-
+		// Relative update inside the caller's transaction, so two payments
+		// cannot both write a balance worked out from the same read
 		const [updatedAccount] = await txOrDb
 			.update(loyaltyAccounts)
 			.set({
-				points_balance: newBalance,
-				points_redeemed: newRedeemedTotal,
+				points_balance: sql`${loyaltyAccounts.points_balance} - ${points}`,
+				points_redeemed: sql`${loyaltyAccounts.points_redeemed} + ${points}`,
 				last_transaction_at: new Date(),
 				updatedBy: userId,
 				updatedAt: new Date(),
 			})
-			.where(eq(loyaltyAccounts.id, account.id))
+			.where(eq(loyaltyAccounts.customerID, customerID))
 			.returning();
 
+		if (!updatedAccount) {
+			throw new AppError("Loyalty account not found", StatusCodes.NOT_FOUND);
+		}
+
+		const newBalance = updatedAccount.points_balance;
+		const previousBalance = newBalance + points;
+		const newRedeemedTotal = updatedAccount.points_redeemed;
+
 		await txOrDb.insert(loyaltyTransactions).values({
 			customerID,
-			account_id: account.id,
+			account_id: updatedAccount.id,
 			initialPoint: previousBalance,
 			manipulatedPoint: -points,
 			totalPoint: newBalance,
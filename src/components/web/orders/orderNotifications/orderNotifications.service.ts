@@ -0,0 +1,279 @@
+import { and, eq } from 'drizzle-orm';
+import { extractWhatsAppError } from '../../conversations/messageLog.service';
+import { WhatsAppMessageService } from '../../webhook/whatsapp-message.service';
+import { db } from '@/database';
+import {
+	InsertOrderNotification,
+	orderNotifications,
+	orders,
+	refunds,
+	SelectOrder,
+	SelectRefund,
+} from '@/database/schema';
+import env from '@/env';
+import logger from '@/lib/logger';
+import { fromSmallestUnit } from '@/utils/currency';
+
+type OrderStatus = SelectOrder['status'];
+
+interface NotifyStatusChangeInput {
+	orderId: string;
+	status: OrderStatus;
+	historyId?: string;
+	reason?: string;
+}
+
+// Only these transitions are worth a message; payment has its own confirmation
+const ORDER_STATUS_TEMPLATES: Partial<Record<OrderStatus, string>> = {
+	shipped: env.WHATSAPP_ORDER_SHIPPED_TEMPLATE,
+	delivered: env.WHATSAPP_ORDER_DELIVERED_TEMPLATE,
+	cancelled: env.WHATSAPP_ORDER_CANCELLED_TEMPLATE,
+};
+
+/**
+ * Body parameters for each template, in placeholder order. WhatsApp rejects
+ * empty parameters, so optional values get a readable fallback.
+ */
+function buildBodyParameters(
+	order: SelectOrder,
+	customerName: string,
+	status: OrderStatus,
+	reason?: string,
+): string[] {
+	switch (status) {
+		case 'shipped':
+			return [
+				customerName,
+				order.orderNo,
+				order.carrier || 'our courier partner',
+				order.trackingNo || 'not available yet',
+			];
+		case 'cancelled':
+			return [customerName, order.orderNo, reason || 'not specified'];
+		default:
+			return [customerName, order.orderNo];
+	}
+}
+
+async function sendOrderTemplate(
+	phone: string,
+	templateName: string,
+	parameters: string[],
+) {
+	return new WhatsAppMessageService().sendTemplate(phone, {
+		name: templateName,
+		languageCode: env.WHATSAPP_TEMPLATE_LANGUAGE,
+		components: [
+			{
+				type: 'body',
+				parameters: parameters.map((text) => ({ type: 'text', text })),
+			},
+		],
+	});
+}
+
+async function recordRefundNotification(
+	refundId: string,
+	values: Pick<
+		SelectRefund,
+		'notificationResult' | 'notificationDetail' | 'waMessageId'
+	>,
+) {
+	const [stored] = await db
+		.update(refunds)
+		.set(values)
+		.where(eq(refunds.id, refundId))
+		.returning();
+
+	return stored ?? null;
+}
+
+async function recordNotification(values: InsertOrderNotification) {
+	const [stored] = await db
+		.insert(orderNotifications)
+		.values(values)
+		.onConflictDoNothing({
+			target: [
+				orderNotifications.orderID,
+				orderNotifications.orderStatus,
+			],
+		})
+		.returning();
+
+	return stored ?? null;
+}
+
+export const orderNotificationService = {
+	/**
+	 * Send the WhatsApp template for an order status change when the customer
+	 * opted in to order updates, and record the outcome against the order.
+	 * Never throws: a failed notification must not undo the status change.
+	 */
+	async notifyStatusChange({
+		orderId,
+		status,
+		historyId,
+		reason,
+	}: NotifyStatusChangeInput) {
+		const templateName = ORDER_STATUS_TEMPLATES[status];
+		if (!templateName) return null;
+
+		try {
+			const existing = await db.query.orderNotifications.findFirst({
+				where: and(
+					eq(orderNotifications.orderID, orderId),
+					eq(orderNotifications.orderStatus, status),
+				),
+			});
+			if (existing) return existing;
+
+			const order = await db.query.orders.findFirst({
+				where: eq(orders.id, orderId),
+				with: {
+					customer: {
+						with: { notificationPreferences: true },
+					},
+				},
+			});
+			if (!order) return null;
+
+			const { customer } = order;
+			const base: InsertOrderNotification = {
+				orderID: order.id,
+				historyID: historyId,
+				customerID: customer?.id,
+				orderStatus: status,
+				templateName,
+				recipient: customer?.phone,
+				result: 'skipped',
+			};
+
+			if (!customer?.notificationPreferences?.orderUpdates) {
+				return recordNotification({
+					...base,
+					detail: 'Customer has not opted in to order updates',
+				});
+			}
+			if (!customer.phone) {
+				return recordNotification({
+					...base,
+					detail: 'Customer has no phone number',
+				});
+			}
+
+			try {
+				const parameters = buildBodyParameters(
+					order,
+					customer.name || 'there',
+					status,
+					reason,
+				);
+				const waMessageId = await sendOrderTemplate(
+					customer.phone,
+					templateName,
+					parameters,
+				);
+
+				return recordNotification({
+					...base,
+					result: 'sent',
+					waMessageId,
+				});
+			} catch (sendError) {
+				const error = extractWhatsAppError(sendError);
+				return recordNotification({
+					...base,
+					result: 'failed',
+					detail: error?.title || error?.message || 'Send failed',
+				});
+			}
+		} catch (error) {
+			logger.error('Failed to notify order status change', {
+				error: error instanceof Error ? error.message : error,
+				orderId,
+				status,
+			});
+			return null;
+		}
+	},
+
+	/**
+	 * Tell an opted-in customer how much was refunded on their order. A
+	 * partial refund does not change the order status, so the outcome is
+	 * kept on the refund row instead. Never throws.
+	 */
+	async notifyRefund(refundId: string) {
+		const templateName = env.WHATSAPP_ORDER_REFUNDED_TEMPLATE;
+
+		try {
+			const refund = await db.query.refunds.findFirst({
+				where: eq(refunds.id, refundId),
+				with: {
+					order: {
+						with: {
+							customer: {
+								with: { notificationPreferences: true },
+							},
+						},
+					},
+				},
+			});
+			if (!refund) return null;
+			if (refund.notificationResult) return refund;
+
+			const { order } = refund;
+			const { customer } = order;
+			if (!customer?.notificationPreferences?.orderUpdates) {
+				return recordRefundNotification(refund.id, {
+					notificationResult: 'skipped',
+					notificationDetail:
+						'Customer has not opted in to order updates',
+					waMessageId: null,
+				});
+			}
+			if (!customer.phone) {
+				return recordRefundNotification(refund.id, {
+					notificationResult: 'skipped',
+					notificationDetail: 'Customer has no phone number',
+					waMessageId: null,
+				});
+			}
+
+			try {
+				const amount = fromSmallestUnit(
+					refund.amount,
+					refund.currency,
+				).toFixed(2);
+				const waMessageId = await sendOrderTemplate(
+					customer.phone,
+					templateName,
+					[
+						customer.name || 'there',
+						order.orderNo,
+						`${amount} ${refund.currency}`,
+					],
+				);
+
+				return recordRefundNotification(refund.id, {
+					notificationResult: 'sent',
+					notificationDetail: null,
+					waMessageId,
+				});
+			} catch (sendError) {
+				const error = extractWhatsAppError(sendError);
+				return recordRefundNotification(refund.id, {
+					notificationResult: 'failed',
+					notificationDetail:
+						error?.title || error?.message || 'Send failed',
+					waMessageId: null,
+				});
+			}
+		} catch (error) {
+			logger.error('Failed to notify order refund', {
+				error: error instanceof Error ? error.message : error,
+				refundId,
+			});
+			return null;
+		}
+	},
+};
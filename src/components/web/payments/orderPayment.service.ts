@@ -0,0 +1,578 @@
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import { CatalogSyncWorker } from '../catalog/catalogSyncWorker';
+import { inventoryReservationService } from '../inventory/inventoryReservation.service';
+import {
+	canTransitionOrder,
+	orderLifecycleService,
+} from '../orders/orderLifecycle/orderLifecycle.service';
+import { customerService } from '../orders/orderMaster/orderMaster.service';
+import { orderNotificationService } from '../orders/orderNotifications/orderNotifications.service';
+import { CustomerWebService } from '../webhook/customer-web.service';
+import { paymentService } from './payments.service';
+import { getStripe } from './stripeClient';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import {
+	loyaltyAccounts,
+	orderItems,
+	orders,
+	orderStatusHistory,
+	payments,
+	SelectPayment,
+} from '@/database/schema';
+import { DbOrTx } from '@/database/transactionType/transactionType';
+import env from '@/env';
+import logger from '@/lib/logger';
+import { fromSmallestUnit, toSmallestUnit } from '@/utils/currency';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+interface FinalizePaymentInput {
+	orderNo: string;
+	customerID: string;
+	pointsToRedeem: number;
+	// Kept on the paid status entry, so a second payment can be told apart
+	paymentIntentId: string;
+	userId?: string;
+}
+
+interface CalculatePayableInput {
+	orderId: string;
+	customerID: string;
+	pointsToRedeem: number;
+}
+
+interface RefundOrderInput {
+	// Major units; the whole remaining amount when left out
+	amount?: number;
+	reason?: string;
+}
+
+interface FinalizePaymentResult {
+	// False when the order was no longer awaiting payment, or was cancelled
+	// because its stock was gone
+	finalized: boolean;
+	loyalty: unknown;
+}
+
+const customerWebService = new CustomerWebService();
+
+/**
+ * Lock the order row so the card response and the Stripe webhook cannot
+ * finalize the same payment at the same time
+ */
+async function lockOrder(orderNo: string, tx: DbOrTx) {
+	const [order] = await tx
+		.select()
+		.from(orders)
+		.where(eq(orders.orderNo, orderNo))
+		.for('update')
+		.limit(1);
+
+	if (!order) {
+		throw new AppError(`Order ${orderNo} not found`, StatusCodes.NOT_FOUND);
+	}
+	return order;
+}
+
+/**
+ * Stop card payments still waiting on the customer (3-D Secure) from
+ * completing on an order that is being cancelled
+ */
+async function cancelOpenIntents(orderId: string) {
+	const open = await db
+		.select({ paymentIntentId: payments.paymentIntentId })
+		.from(payments)
+		.where(
+			and(
+				eq(payments.orderID, orderId),
+				inArray(payments.status, ['requires_action', 'processing']),
+			),
+		);
+
+	for (const { paymentIntentId } of open) {
+		if (!paymentIntentId) continue;
+		try {
+			await getStripe().paymentIntents.cancel(paymentIntentId);
+		} catch (error) {
+			logger.warn('[OrderPayment] Could not cancel payment intent', {
+				orderId,
+				paymentIntentId,
+				error: error instanceof Error ? error.message : error,
+			});
+		}
+	}
+}
+
+export const orderPaymentService = {
+	/**
+	 * What the customer owes for an order, worked out from its items and the
+	 * current product (or variant) prices less the value of the loyalty
+	 * points applied. Client-sent totals are checked against this.
+	 */
+	async calculatePayable({
+		orderId,
+		customerID,
+		pointsToRedeem,
+	}: CalculatePayableInput) {
+		const items = await db.query.orderItems.findMany({
+			where: eq(orderItems.orderID, orderId),
+			with: { product: true, variant: true },
+		});
+		if (items.length === 0) {
+			throw new AppError('Order has no items', StatusCodes.BAD_REQUEST);
+		}
+
+		const currencies = new Set(
+			items.map((item) => (item.product.currency || 'NGN').toUpperCase()),
+		);
+		if (currencies.size > 1) {
+			throw new AppError(
+				'Order items are priced in more than one currency',
+				StatusCodes.BAD_REQUEST,
+			);
+		}
+		const [currency] = currencies;
+
+		let subtotal = 0;
+		for (const item of items) {
+			const unitAmount = item.variant?.amount ?? item.product.amount;
+			if (unitAmount === null || unitAmount === undefined) {
+				throw new AppError(
+					`Product ${item.product.productName} has no price`,
+					StatusCodes.BAD_REQUEST,
+				);
+			}
+			subtotal += unitAmount * (item.qty ?? 1);
+		}
+
+		let loyaltyDiscount = 0;
+		if (pointsToRedeem > 0) {
+			const account = await db.query.loyaltyAccounts.findFirst({
+				where: eq(loyaltyAccounts.customerID, customerID),
+				columns: { points_balance: true },
+			});
+			if (!account || account.points_balance < pointsToRedeem) {
+				throw new AppError(
+					'Not enough loyalty points',
+					StatusCodes.BAD_REQUEST,
+				);
+			}
+
+			loyaltyDiscount = pointsToRedeem * env.LOYALTY_POINT_VALUE;
+			if (loyaltyDiscount >= subtotal) {
+				throw new AppError(
+					'Loyalty points cannot cover the whole order, apply fewer points',
+					StatusCodes.BAD_REQUEST,
+				);
+			}
+		}
+
+		const payable = subtotal - loyaltyDiscount;
+		return {
+			items,
+			currency,
+			subtotal,
+			pointsApplied: pointsToRedeem,
+			loyaltyDiscount,
+			payable,
+			amountInSmallest: toSmallestUnit(payable, currency),
+		};
+	},
+
+	/**
+	 * Mark the order paid (converting its stock reservations) and redeem the
+	 * loyalty points applied at checkout. Only the first call for an order
+	 * does anything, so the card response and the webhook can both call it.
+	 * If a lapsed stock hold cannot be taken again the order is cancelled
+	 * instead, and the caller refunds the payment.
+	 */
+	async finalizePaidOrder(
+		input: FinalizePaymentInput,
+		txOrDb: DbOrTx = db,
+	): Promise<FinalizePaymentResult> {
+		if (txOrDb === db) {
+			const result = await db.transaction(
+				(tx): Promise<FinalizePaymentResult> =>
+					this.finalizePaidOrder(input, tx),
+			);
+			// Stock pushes for every paid item go out together in one catalog batch
+			if (result.finalized) CatalogSyncWorker.trigger();
+			return result;
+		}
+
+		const order = await lockOrder(input.orderNo, txOrDb);
+		if (order.status !== 'pending_payment') {
+			logger.info('[OrderPayment] Order already finalized, skipping', {
+				orderNo: input.orderNo,
+				status: order.status,
+			});
+			return { finalized: false, loyalty: null };
+		}
+
+		// The money is already taken, so a shortfall must not roll this back
+		const shortfall = await inventoryReservationService.holdForPaidOrder(
+			order.id,
+			txOrDb,
+		);
+		if (shortfall) {
+			await orderLifecycleService.transitionOrder(
+				{
+					orderId: order.id,
+					toStatus: 'cancelled',
+					reason: `Paid after its stock hold lapsed: ${shortfall}`,
+					changedBy: input.userId,
+				},
+				txOrDb,
+			);
+			logger.warn(
+				'[OrderPayment] Stock gone before payment, cancelling',
+				{
+					orderNo: input.orderNo,
+					paymentIntentId: input.paymentIntentId,
+					shortfall,
+				},
+			);
+			return { finalized: false, loyalty: null };
+		}
+
+		await customerService.updateOrderStatus(
+			input.orderNo,
+			input.userId,
+			txOrDb,
+			{ paymentIntentId: input.paymentIntentId },
+		);
+
+		let loyalty = null;
+		if (input.pointsToRedeem > 0) {
+			loyalty = await customerService.deductLoyaltyPoints(
+				{
+					customerID: input.customerID,
+					points: input.pointsToRedeem,
+					orderNo: input.orderNo,
+					userId: input.userId,
+				},
+				txOrDb,
+			);
+		}
+
+		return { finalized: true, loyalty };
+	},
+
+	/**
+	 * A succeeded PaymentIntent that did not pay for its order: the order
+	 * was cancelled first, or another payment already paid it. Refunds it
+	 * so the money is not kept; when the order was marked paid without a
+	 * recorded intent it is only flagged, since it may be the one that
+	 * paid. Returns the outcome for the webhook log.
+	 */
+	async refundUnclaimedPayment(orderNo: string, payment: SelectPayment) {
+		const order = await db.query.orders.findFirst({
+			where: eq(orders.orderNo, orderNo),
+			columns: { id: true, status: true },
+		});
+		if (!order || !payment?.paymentIntentId) return 'no_order';
+		if (payment.amountRefunded > 0) return 'already_refunded';
+
+		const [paidEntry] = await db
+			.select({ metadata: orderStatusHistory.metadata })
+			.from(orderStatusHistory)
+			.where(
+				and(
+					eq(orderStatusHistory.orderID, order.id),
+					eq(orderStatusHistory.toStatus, 'paid'),
+				),
+			)
+			.orderBy(desc(orderStatusHistory.createdAt))
+			.limit(1);
+		const paidBy = (paidEntry?.metadata as { paymentIntentId?: string })
+			?.paymentIntentId;
+
+		if (paidBy === payment.paymentIntentId) return 'already_finalized';
+		if (paidEntry && !paidBy) {
+			logger.error('[OrderPayment] Payment did not finalize its order', {
+				orderNo,
+				status: order.status,
+				paymentIntentId: payment.paymentIntentId,
+			});
+			return 'unclaimed_payment_flagged';
+		}
+
+		const refund = await getStripe().refunds.create(
+			{
+				payment_intent: payment.paymentIntentId,
+				reason: paidBy ? 'duplicate' : 'requested_by_customer',
+				metadata: { orderId: orderNo },
+			},
+			{ idempotencyKey: `unclaimed-${payment.paymentIntentId}` },
+		);
+		await paymentService.recordApiRefund(payment, refund, {
+			reason: paidBy
+				? 'Order was already paid by another payment'
+				: `Order was ${order.status} when the payment succeeded`,
+		});
+
+		logger.warn(
+			'[OrderPayment] Refunded payment that did not pay its order',
+			{
+				orderNo,
+				status: order.status,
+				paymentIntentId: payment.paymentIntentId,
+				paidBy,
+			},
+		);
+		return 'refunded_unclaimed';
+	},
+
+	/**
+	 * Cancel an order whose payment was abandoned, releasing its stock.
+	 * Orders that already moved on are left alone.
+	 */
+	async cancelUnpaidOrder(orderNo: string, reason: string) {
+		return db.transaction(async (tx) => {
+			const order = await lockOrder(orderNo, tx);
+			if (order.status !== 'pending_payment') return false;
+
+			await orderLifecycleService.transitionOrder(
+				{ orderNo, toStatus: 'cancelled', reason },
+				tx,
+			);
+			return true;
+		});
+	},
+
+	/**
+	 * Mark a fully refunded order as refunded if its status allows it
+	 */
+	async markOrderRefunded(orderNo: string, reason: string) {
+		return db.transaction(async (tx) => {
+			const order = await lockOrder(orderNo, tx);
+			if (order.status === 'refunded') return false;
+
+			await orderLifecycleService.transitionOrder(
+				{ orderNo, toStatus: 'refunded', reason },
+				tx,
+			);
+			return true;
+		});
+	},
+
+	/**
+	 * Refund an order's payment in Stripe, in full or in part. A full refund
+	 * moves the order to refunded, which restocks it and reverses its loyalty
+	 * points; a partial one only returns money. The customer is told on
+	 * WhatsApp either way.
+	 */
+	async refundOrder(
+		orderId: string,
+		{ amount, reason }: RefundOrderInput,
+		userId?: string,
+	) {
+		try {
+			const order = await db.query.orders.findFirst({
+				where: eq(orders.id, orderId),
+			});
+			if (!order) {
+				throw new AppError('Order not found', StatusCodes.NOT_FOUND);
+			}
+
+			const payment = await paymentService.findRefundable(order.id);
+			if (!payment) {
+				throw new AppError(
+					'Order has no payment left to refund',
+					StatusCodes.BAD_REQUEST,
+				);
+			}
+
+			const remaining = payment.amount - payment.amountRefunded;
+			const refundAmount =
+				amount === undefined
+					? remaining
+					: toSmallestUnit(amount, payment.currency);
+			if (refundAmount <= 0 || refundAmount > remaining) {
+				throw new AppError(
+					`Refund amount must be between 0 and ${fromSmallestUnit(remaining, payment.currency)} ${payment.currency}`,
+					StatusCodes.BAD_REQUEST,
+				);
+			}
+
+			// Check before calling Stripe so the money is not returned on an
+			// order that cannot be marked refunded
+			const fullRefund = refundAmount === remaining;
+			if (
+				fullRefund &&
+				order.status !== 'refunded' &&
+				!canTransitionOrder(order.status, 'refunded')
+			) {
+				throw new AppError(
+					`Order ${order.orderNo} cannot be refunded while ${order.status}`,
+					StatusCodes.CONFLICT,
+				);
+			}
+
+			// The key repeats for a retried request, so Stripe refunds once
+			const refund = await getStripe().refunds.create(
+				{
+					payment_intent: payment.paymentIntentId,
+					amount: refundAmount,
+					reason: 'requested_by_customer',
+					metadata: {
+						orderId: order.orderNo,
+						...(reason ? { reason } : {}),
+					},
+				},
+				{
+					idempotencyKey: `refund-${payment.id}-${payment.amountRefunded}-${refundAmount}`,
+				},
+			);
+
+			const stored = await db.transaction(async (tx) => {
+				const record = await paymentService.recordApiRefund(
+					payment,
+					refund,
+					{ reason, userId },
+					tx,
+				);
+				if (
+					refund.status === 'failed' ||
+					refund.status === 'canceled'
+				) {
+					return record;
+				}
+
+				// The charge.refunded webhook may have marked it already
+				const locked = await lockOrder(order.orderNo, tx);
+				if (fullRefund && locked.status !== 'refunded') {
+					await orderLifecycleService.transitionOrder(
+						{
+							orderId: order.id,
+							toStatus: 'refunded',
+							reason: reason || 'Payment refunded',
+							changedBy: userId,
+						},
+						tx,
+					);
+				}
+				return record;
+			});
+
+			if (stored.status === 'failed' || stored.status === 'canceled') {
+				throw new AppError(
+					`Stripe could not refund the payment (${refund.failure_reason ?? stored.status})`,
+					StatusCodes.BAD_GATEWAY,
+				);
+			}
+
+			if (fullRefund) CatalogSyncWorker.trigger();
+			const notified = await orderNotificationService.notifyRefund(
+				stored.id,
+			);
+
+			return {
+				data: notified ?? stored,
+				message: fullRefund
+					? 'Order refunded successfully'
+					: 'Order partially refunded successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to refund order',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'refundOrder',
+				{ orderId, amount, reason },
+			);
+		}
+	},
+
+	/**
+	 * Cancel an order. An unpaid order just gives back its stock hold; a
+	 * paid one is also restocked, has its loyalty points reversed and is
+	 * refunded in full. If the refund fails the order stays cancelled and
+	 * can be refunded again.
+	 */
+	async cancelOrder(orderId: string, reason?: string, userId?: string) {
+		try {
+			const order = await db.query.orders.findFirst({
+				where: eq(orders.id, orderId),
+			});
+			if (!order) {
+				throw new AppError('Order not found', StatusCodes.NOT_FOUND);
+			}
+
+			if (order.status === 'pending_payment') {
+				await cancelOpenIntents(order.id);
+			}
+
+			const { data } = await orderLifecycleService.transitionOrder({
+				orderId: order.id,
+				toStatus: 'cancelled',
+				reason,
+				changedBy: userId,
+			});
+			CatalogSyncWorker.trigger();
+
+			const notification =
+				await orderNotificationService.notifyStatusChange({
+					orderId: order.id,
+					status: 'cancelled',
+					historyId: data.history.id,
+					reason,
+				});
+
+			const refundable = await paymentService.findRefundable(order.id);
+			const refund = refundable
+				? (await this.refundOrder(order.id, { reason }, userId)).data
+				: null;
+
+			return {
+				data: { ...data, notification, refund },
+				message: refund
+					? 'Order cancelled and refunded successfully'
+					: 'Order cancelled successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to cancel order',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'cancelOrder',
+				{ orderId, reason },
+			);
+		}
+	},
+
+	/**
+	 * WhatsApp payment confirmation; failures are logged, not thrown, since
+	 * the payment itself already went through
+	 */
+	async sendPaymentConfirmation(
+		orderNo: string,
+		amount: number,
+		currency: string,
+	) {
+		try {
+			const orderWithCustomer = await db.query.orders.findFirst({
+				where: eq(orders.orderNo, orderNo),
+				with: { customer: true },
+			});
+
+			if (orderWithCustomer?.customer?.phone) {
+				const customerName =
+					orderWithCustomer.customer.name || 'Customer';
+				const deliveryDays = 3;
+
+				await customerWebService.sendPaymentConfirmation(
+					orderWithCustomer.customer.phone,
+					customerName,
+					orderNo,
+					amount.toFixed(2),
+					currency,
+					deliveryDays,
+				);
+			}
+		} catch (msgErr) {
+			logger.error('Failed to send payment confirmation', msgErr);
+		}
+	},
+};
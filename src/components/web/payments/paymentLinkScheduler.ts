@@ -0,0 +1,31 @@
+import { paymentLinkService } from './paymentLinks.service';
+import logger from '@/lib/logger';
+
+export class PaymentLinkScheduler {
+	private static intervalId: NodeJS.Timeout;
+
+	private static async tick() {
+		try {
+			const expired = await paymentLinkService.expireStale();
+			const reminded = await paymentLinkService.sendDueReminders();
+			if (expired > 0 || reminded > 0) {
+				logger.info(
+					`[PaymentLinkScheduler] Expired ${expired} payment links, sent ${reminded} reminders`,
+				);
+			}
+		} catch (err) {
+			logger.error('Payment link scheduler run failed', err);
+		}
+	}
+
+	static init(intervalMs: number = 60 * 1000) {
+		this.tick();
+		this.intervalId = setInterval(() => this.tick(), intervalMs);
+		logger.info('[PaymentLinkScheduler] Interval started');
+	}
+
+	static stopIt() {
+		if (this.intervalId) clearInterval(this.intervalId);
+		logger.info('[PaymentLinkScheduler] Interval stopped');
+	}
+}
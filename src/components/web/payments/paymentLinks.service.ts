@@ -0,0 +1,392 @@
+import { and, eq, gt, isNotNull, lt, lte, ne, sql } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import { inventoryReservationService } from '../inventory/inventoryReservation.service';
+import { WhatsAppMessageService } from '../webhook/whatsapp-message.service';
+import { orderPaymentService } from './orderPayment.service';
+import { getStripe } from './stripeClient';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import {
+	customerMaster,
+	orders,
+	paymentLinks,
+	SelectOrder,
+	SelectPaymentLink,
+} from '@/database/schema';
+import env from '@/env';
+import logger from '@/lib/logger';
+import { fromSmallestUnit, toSmallestUnit } from '@/utils/currency';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+// Reminders handled per scheduler tick
+const REMINDER_BATCH_SIZE = 50;
+
+const formatAmount = (link: Pick<SelectPaymentLink, 'amount' | 'currency'>) =>
+	`${fromSmallestUnit(link.amount, link.currency).toFixed(2)} ${link.currency}`;
+
+/**
+ * Expire the Stripe session behind a link so it can no longer be paid.
+ * Returns false when Stripe refused, e.g. because it was already completed.
+ */
+async function expireSession(stripeSessionId: string) {
+	try {
+		await getStripe().checkout.sessions.expire(stripeSessionId);
+		return true;
+	} catch (error) {
+		logger.warn('[PaymentLinks] Could not expire checkout session', {
+			stripeSessionId,
+			error: error instanceof Error ? error.message : error,
+		});
+		return false;
+	}
+}
+
+/**
+ * The order's open link, or a new Checkout session for what it owes now.
+ * The stock stays held until the link expires.
+ */
+async function openLink(order: SelectOrder, userId?: string) {
+	if (order.status !== 'pending_payment') {
+		throw new AppError(
+			`Order ${order.orderNo} is not awaiting payment`,
+			StatusCodes.CONFLICT,
+		);
+	}
+
+	const now = new Date();
+	// Links the scheduler has not expired yet still block a new one
+	await db
+		.update(paymentLinks)
+		.set({ status: 'expired', updatedAt: now })
+		.where(
+			and(
+				eq(paymentLinks.orderID, order.id),
+				eq(paymentLinks.status, 'open'),
+				lte(paymentLinks.expiresAt, now),
+			),
+		);
+
+	const existing = await db.query.paymentLinks.findFirst({
+		where: and(
+			eq(paymentLinks.orderID, order.id),
+			eq(paymentLinks.status, 'open'),
+		),
+	});
+	if (existing) return existing;
+
+	const payable = await orderPaymentService.calculatePayable({
+		orderId: order.id,
+		customerID: order.customerID,
+		pointsToRedeem: 0,
+	});
+	const expiresAt = new Date(
+		now.getTime() + env.PAYMENT_LINK_TTL_MINUTES * 60 * 1000,
+	);
+
+	// Read back by the Stripe webhook, which finalizes the order as it
+	// does for card payments
+	const metadata = {
+		orderId: order.orderNo,
+		customerID: order.customerID,
+		pointsApplied: '0',
+	};
+	const session = await getStripe().checkout.sessions.create({
+		mode: 'payment',
+		line_items: payable.items.map((item) => ({
+			quantity: item.qty ?? 1,
+			price_data: {
+				currency: payable.currency.toLowerCase(),
+				unit_amount: toSmallestUnit(
+					item.variant?.amount ?? item.product.amount,
+					payable.currency,
+				),
+				product_data: {
+					name: item.variant?.name
+						? `${item.product.productName} - ${item.variant.name}`
+						: item.product.productName,
+				},
+			},
+		})),
+		client_reference_id: order.orderNo,
+		expires_at: Math.floor(expiresAt.getTime() / 1000),
+		success_url: `${env.APP_URI}/order/${order.id}?payment=success`,
+		cancel_url: `${env.APP_URI}/order/${order.id}`,
+		metadata,
+		payment_intent_data: {
+			description: `Order ${order.orderNo}`,
+			metadata,
+		},
+	});
+
+	// Held after the session exists, so a failed Stripe call leaves no hold
+	// behind; a session for stock that is gone is expired instead
+	try {
+		await inventoryReservationService.reserveForOrder(
+			order.id,
+			payable.items,
+			db,
+			expiresAt,
+		);
+	} catch (error) {
+		await expireSession(session.id);
+		throw error;
+	}
+
+	const [created] = await db
+		.insert(paymentLinks)
+		.values({
+			orderID: order.id,
+			stripeSessionId: session.id,
+			url: session.url,
+			amount: payable.amountInSmallest,
+			currency: payable.currency,
+			expiresAt,
+			createdBy: userId,
+		})
+		.onConflictDoNothing({
+			target: paymentLinks.orderID,
+			where: sql`${paymentLinks.status} = 'open'`,
+		})
+		.returning();
+	if (created) return created;
+
+	// Another request opened a link first; keep that one
+	await expireSession(session.id);
+	return db.query.paymentLinks.findFirst({
+		where: and(
+			eq(paymentLinks.orderID, order.id),
+			eq(paymentLinks.status, 'open'),
+		),
+	});
+}
+
+export const paymentLinkService = {
+	/**
+	 * Create (or reuse) the order's Stripe Checkout link and send it to the
+	 * customer as a WhatsApp CTA message
+	 */
+	async sendForOrder(orderId: string, userId?: string) {
+		try {
+			const order = await db.query.orders.findFirst({
+				where: eq(orders.id, orderId),
+				with: { customer: true },
+			});
+			if (!order) {
+				throw new AppError('Order not found', StatusCodes.NOT_FOUND);
+			}
+			if (!order.customer?.phone) {
+				throw new AppError(
+					'Customer has no phone number',
+					StatusCodes.BAD_REQUEST,
+				);
+			}
+
+			const link = await openLink(order, userId);
+
+			await new WhatsAppMessageService().sendPaymentLink(
+				order.customer.phone,
+				{
+					customerName: order.customer.name || 'there',
+					orderNo: order.orderNo,
+					totalAmount: formatAmount(link),
+					url: link.url,
+					expiresAt: link.expiresAt,
+				},
+			);
+
+			const [sent] = await db
+				.update(paymentLinks)
+				.set({ lastSentAt: new Date(), updatedAt: new Date() })
+				.where(eq(paymentLinks.id, link.id))
+				.returning();
+
+			return { data: sent, message: 'Payment link sent successfully' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to send payment link',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'sendForOrder',
+				{ orderId },
+			);
+		}
+	},
+
+	/**
+	 * sendForOrder for flows that have a fallback: returns false instead of
+	 * throwing
+	 */
+	async trySendForOrder(orderId: string) {
+		try {
+			await this.sendForOrder(orderId);
+			return true;
+		} catch (error) {
+			logger.warn('[PaymentLinks] Could not send payment link', {
+				orderId,
+				error: error instanceof Error ? error.message : error,
+			});
+			return false;
+		}
+	},
+
+	/**
+	 * checkout.session.completed: the order itself is finalized by the
+	 * payment_intent.succeeded event
+	 */
+	async markPaid(stripeSessionId: string) {
+		const [link] = await db
+			.update(paymentLinks)
+			.set({ status: 'paid', paidAt: new Date(), updatedAt: new Date() })
+			.where(
+				and(
+					eq(paymentLinks.stripeSessionId, stripeSessionId),
+					ne(paymentLinks.status, 'paid'),
+				),
+			)
+			.returning();
+
+		return link ?? null;
+	},
+
+	/**
+	 * checkout.session.expired, or the scheduler noticing first. The order
+	 * stays unpaid; its stock hold lapses and a new link can be sent.
+	 */
+	async markExpired(stripeSessionId: string) {
+		const [link] = await db
+			.update(paymentLinks)
+			.set({ status: 'expired', updatedAt: new Date() })
+			.where(
+				and(
+					eq(paymentLinks.stripeSessionId, stripeSessionId),
+					eq(paymentLinks.status, 'open'),
+				),
+			)
+			.returning();
+
+		return link ?? null;
+	},
+
+	/**
+	 * Close the order's open links once it was paid another way, so the
+	 * customer cannot pay twice
+	 */
+	async closeForPaidOrder(orderId: string) {
+		const open = await db
+			.select({ stripeSessionId: paymentLinks.stripeSessionId })
+			.from(paymentLinks)
+			.where(
+				and(
+					eq(paymentLinks.orderID, orderId),
+					eq(paymentLinks.status, 'open'),
+				),
+			);
+
+		for (const { stripeSessionId } of open) {
+			if (await expireSession(stripeSessionId)) {
+				await this.markExpired(stripeSessionId);
+			}
+		}
+	},
+
+	/**
+	 * Mark open links past their expiry. Returns how many expired.
+	 */
+	async expireStale(): Promise<number> {
+		const now = new Date();
+		const expired = await db
+			.update(paymentLinks)
+			.set({ status: 'expired', updatedAt: now })
+			.where(
+				and(
+					eq(paymentLinks.status, 'open'),
+					lte(paymentLinks.expiresAt, now),
+				),
+			)
+			.returning({ id: paymentLinks.id });
+
+		return expired.length;
+	},
+
+	/**
+	 * Remind customers of open links on unpaid orders once the reminder
+	 * interval has passed since the last send. Returns how many reminders
+	 * went out.
+	 */
+	async sendDueReminders(): Promise<number> {
+		if (env.PAYMENT_LINK_MAX_REMINDERS === 0) return 0;
+
+		const now = new Date();
+		const lastSentBefore = new Date(
+			now.getTime() -
+				env.PAYMENT_LINK_REMINDER_INTERVAL_MINUTES * 60 * 1000,
+		);
+
+		const due = await db
+			.select({
+				link: paymentLinks,
+				orderNo: orders.orderNo,
+				phone: customerMaster.phone,
+				customerName: customerMaster.name,
+			})
+			.from(paymentLinks)
+			.innerJoin(orders, eq(orders.id, paymentLinks.orderID))
+			.innerJoin(customerMaster, eq(customerMaster.id, orders.customerID))
+			.where(
+				and(
+					eq(paymentLinks.status, 'open'),
+					gt(paymentLinks.expiresAt, now),
+					eq(orders.status, 'pending_payment'),
+					lt(
+						paymentLinks.remindersSent,
+						env.PAYMENT_LINK_MAX_REMINDERS,
+					),
+					lte(
+						sql`coalesce(${paymentLinks.lastSentAt}, ${paymentLinks.createdAt})`,
+						lastSentBefore,
+					),
+					isNotNull(customerMaster.phone),
+				),
+			)
+			.limit(REMINDER_BATCH_SIZE);
+
+		let sent = 0;
+		for (const { link, orderNo, phone, customerName } of due) {
+			// Claim the reminder first so an overlapping run cannot send it too
+			const [claimed] = await db
+				.update(paymentLinks)
+				.set({
+					remindersSent: link.remindersSent + 1,
+					lastSentAt: now,
+					updatedAt: now,
+				})
+				.where(
+					and(
+						eq(paymentLinks.id, link.id),
+						eq(paymentLinks.remindersSent, link.remindersSent),
+					),
+				)
+				.returning({ id: paymentLinks.id });
+			if (!claimed) continue;
+
+			try {
+				await new WhatsAppMessageService().sendPaymentLink(phone, {
+					customerName: customerName || 'there',
+					orderNo,
+					totalAmount: formatAmount(link),
+					url: link.url,
+					expiresAt: link.expiresAt,
+					reminder: true,
+				});
+				sent++;
+			} catch (error) {
+				logger.warn('[PaymentLinks] Reminder failed', {
+					orderNo,
+					error: error instanceof Error ? error.message : error,
+				});
+			}
+		}
+
+		return sent;
+	},
+};
@@ -0,0 +1,276 @@
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import Stripe from 'stripe';
+import { db } from '@/database';
+import { orders, payments, refunds, SelectPayment } from '@/database/schema';
+import { DbOrTx } from '@/database/transactionType/transactionType';
+import logger from '@/lib/logger';
+
+type PaymentStatus = SelectPayment['status'];
+
+interface CardDetails {
+	brand?: string;
+	last4?: string;
+	funding?: string;
+}
+
+interface RecordIntentOptions {
+	card?: CardDetails;
+	pointsApplied?: number;
+	userId?: string;
+}
+
+interface RecordRefundOptions {
+	reason?: string;
+	userId?: string;
+}
+
+interface RecordDeclinedInput {
+	orderID: string;
+	amount: number;
+	currency: string;
+	error: Stripe.errors.StripeError;
+	card?: CardDetails;
+	pointsApplied?: number;
+	userId?: string;
+}
+
+// Refunds Stripe accepted; failed or canceled ones give nothing back
+const ACTIVE_REFUND_STATUSES = ['pending', 'requires_action', 'succeeded'];
+
+// Once a payment reaches one of these, later intent events cannot change it
+const FINAL_STATUSES = sql`${payments.status} NOT IN ('succeeded', 'canceled', 'partially_refunded', 'refunded')`;
+
+export function toPaymentStatus(pi: Stripe.PaymentIntent): PaymentStatus {
+	switch (pi.status) {
+		case 'succeeded':
+			return 'succeeded';
+		case 'canceled':
+			return 'canceled';
+		case 'requires_action':
+		case 'requires_confirmation':
+			return 'requires_action';
+		// Stripe asks for a new payment method after a failed attempt
+		case 'requires_payment_method':
+			return 'failed';
+		default:
+			return 'processing';
+	}
+}
+
+export const paymentIntentIdOf = (charge: Stripe.Charge) =>
+	typeof charge.payment_intent === 'string'
+		? charge.payment_intent
+		: charge.payment_intent?.id;
+
+const cardColumns = (card?: CardDetails) =>
+	card
+		? {
+				cardBrand: card.brand,
+				cardLast4: card.last4,
+				cardFunding: card.funding,
+			}
+		: {};
+
+export const paymentService = {
+	/**
+	 * Insert or update the payment row for a PaymentIntent. Card details and
+	 * points are only written when given, so webhook updates keep what
+	 * checkout recorded. A row already in a final status is left as it is
+	 * and returned unchanged.
+	 */
+	async recordIntent(
+		orderID: string,
+		pi: Stripe.PaymentIntent,
+		{ card, pointsApplied, userId }: RecordIntentOptions = {},
+		txOrDb: DbOrTx = db,
+	) {
+		const status = toPaymentStatus(pi);
+		const failure = {
+			failureCode:
+				pi.last_payment_error?.decline_code ??
+				pi.last_payment_error?.code ??
+				null,
+			failureMessage: pi.last_payment_error?.message ?? null,
+		};
+
+		const [payment] = await txOrDb
+			.insert(payments)
+			.values({
+				orderID,
+				paymentIntentId: pi.id,
+				status,
+				amount: pi.amount,
+				currency: pi.currency.toUpperCase(),
+				pointsApplied: pointsApplied ?? 0,
+				createdBy: userId,
+				...failure,
+				...cardColumns(card),
+			})
+			.onConflictDoUpdate({
+				target: payments.paymentIntentId,
+				set: {
+					status,
+					...failure,
+					...cardColumns(card),
+					updatedAt: new Date(),
+				},
+				setWhere: FINAL_STATUSES,
+			})
+			.returning();
+		if (payment) return payment;
+
+		const [stored] = await txOrDb
+			.select()
+			.from(payments)
+			.where(eq(payments.paymentIntentId, pi.id))
+			.limit(1);
+		return stored;
+	},
+
+	/**
+	 * Record an intent event from the webhook against the order named in
+	 * its metadata
+	 */
+	async recordIntentForOrderNo(pi: Stripe.PaymentIntent) {
+		const orderNo = pi.metadata?.orderId;
+		if (!orderNo) return null;
+
+		const order = await db.query.orders.findFirst({
+			where: eq(orders.orderNo, orderNo),
+			columns: { id: true },
+		});
+		if (!order) {
+			logger.warn('[Payments] No order for payment intent', {
+				orderNo,
+				paymentIntentId: pi.id,
+			});
+			return null;
+		}
+
+		return this.recordIntent(order.id, pi);
+	},
+
+	/**
+	 * A card Stripe refused outright still counts as an attempt
+	 */
+	async recordDeclined({
+		orderID,
+		amount,
+		currency,
+		error,
+		card,
+		pointsApplied,
+		userId,
+	}: RecordDeclinedInput) {
+		if (error.payment_intent) {
+			return this.recordIntent(orderID, error.payment_intent, {
+				card,
+				pointsApplied,
+				userId,
+			});
+		}
+
+		const [payment] = await db
+			.insert(payments)
+			.values({
+				orderID,
+				status: 'failed',
+				amount,
+				currency: currency.toUpperCase(),
+				pointsApplied: pointsApplied ?? 0,
+				failureCode: error.decline_code ?? error.code,
+				failureMessage: error.message,
+				createdBy: userId,
+				...cardColumns(card),
+			})
+			.returning();
+
+		return payment;
+	},
+
+	/**
+	 * The captured payment of an order that still has money left to refund
+	 */
+	async findRefundable(orderID: string, txOrDb: DbOrTx = db) {
+		const [payment] = await txOrDb
+			.select()
+			.from(payments)
+			.where(
+				and(
+					eq(payments.orderID, orderID),
+					inArray(payments.status, [
+						'succeeded',
+						'partially_refunded',
+					]),
+					sql`${payments.amountRefunded} < ${payments.amount}`,
+				),
+			)
+			.orderBy(desc(payments.createdAt))
+			.limit(1);
+
+		return payment ?? null;
+	},
+
+	/**
+	 * Store a refund issued through the API and add it to the payment's
+	 * refunded amount. The charge.refunded webhook sets the same total, so
+	 * whichever lands second leaves it unchanged.
+	 */
+	async recordApiRefund(
+		payment: SelectPayment,
+		refund: Stripe.Refund,
+		{ reason, userId }: RecordRefundOptions = {},
+		txOrDb: DbOrTx = db,
+	) {
+		const [stored] = await txOrDb
+			.insert(refunds)
+			.values({
+				orderID: payment.orderID,
+				paymentID: payment.id,
+				stripeRefundId: refund.id,
+				status: refund.status ?? 'pending',
+				amount: refund.amount,
+				currency: refund.currency.toUpperCase(),
+				reason,
+				createdBy: userId,
+			})
+			.returning();
+
+		if (ACTIVE_REFUND_STATUSES.includes(refund.status)) {
+			const amountRefunded = payment.amountRefunded + refund.amount;
+			await txOrDb
+				.update(payments)
+				.set({
+					amountRefunded: sql`GREATEST(${payments.amountRefunded}, ${amountRefunded})`,
+					status:
+						amountRefunded >= payment.amount
+							? 'refunded'
+							: 'partially_refunded',
+					updatedAt: new Date(),
+				})
+				.where(eq(payments.id, payment.id));
+		}
+
+		return stored;
+	},
+
+	/**
+	 * Track refunds made on the payment's charge
+	 */
+	async recordRefund(charge: Stripe.Charge) {
+		const paymentIntentId = paymentIntentIdOf(charge);
+		if (!paymentIntentId) return null;
+
+		const [payment] = await db
+			.update(payments)
+			.set({
+				amountRefunded: charge.amount_refunded,
+				status: charge.refunded ? 'refunded' : 'partially_refunded',
+				updatedAt: new Date(),
+			})
+			.where(eq(payments.paymentIntentId, paymentIntentId))
+			.returning();
+
+		return payment ?? null;
+	},
+};
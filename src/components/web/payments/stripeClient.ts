@@ -0,0 +1,11 @@
+import Stripe from 'stripe';
+import env from '@/env';
+
+/** Helper: build Stripe client */
+export function getStripe() {
+	if (!env.STRIPE_SECRET_KEY) {
+		throw new Error('STRIPE_SECRET_KEY missing');
+	}
+	// Use null to bind to your account default API version (keeps TS happy)
+	return new Stripe(env.STRIPE_SECRET_KEY, { apiVersion: null });
+}
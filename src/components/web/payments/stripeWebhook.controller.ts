@@ -0,0 +1,30 @@
+import { Request, Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { stripeWebhookService } from './stripeWebhook.service';
+import BaseApi from '@/components/BaseApi';
+
+export default class StripeWebhookController extends BaseApi {
+	constructor() {
+		super();
+	}
+
+	public register(): Router {
+		this.router.post('/', this.handleStripeEvent.bind(this));
+		return this.router;
+	}
+
+	public async handleStripeEvent(req: Request, res: Response) {
+		const event = stripeWebhookService.constructEvent(
+			req.rawBody,
+			req.get('stripe-signature'),
+		);
+
+		// Errors reach Stripe as a 500, and Stripe retries the event
+		const { duplicate, outcome } =
+			await stripeWebhookService.handleEvent(event);
+
+		res.locals.data = { received: true, duplicate, outcome };
+		res.locals.message = 'Stripe event received';
+		super.send(res, StatusCodes.OK);
+	}
+}
@@ -0,0 +1,245 @@
+import { eq } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import Stripe from 'stripe';
+import { orderPaymentService } from './orderPayment.service';
+import { paymentLinkService } from './paymentLinks.service';
+import { paymentIntentIdOf, paymentService } from './payments.service';
+import { getStripe } from './stripeClient';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import { stripeWebhookEvents } from '@/database/schema';
+import env from '@/env';
+import logger from '@/lib/logger';
+import { fromSmallestUnit } from '@/utils/currency';
+
+interface HandledEvent {
+	outcome: string;
+	paymentIntentId?: string;
+	orderNo?: string;
+}
+
+async function handlePaymentIntent(
+	type: string,
+	pi: Stripe.PaymentIntent,
+): Promise<HandledEvent> {
+	// Set when the intent is created at checkout
+	const orderNo = pi.metadata?.orderId;
+	const handled = { paymentIntentId: pi.id, orderNo };
+	if (!orderNo) return { ...handled, outcome: 'no_order' };
+
+	const payment = await paymentService.recordIntentForOrderNo(pi);
+
+	if (type === 'payment_intent.succeeded') {
+		const { finalized } = await orderPaymentService.finalizePaidOrder({
+			orderNo,
+			customerID: pi.metadata.customerID,
+			pointsToRedeem: Number(pi.metadata.pointsApplied || 0),
+			paymentIntentId: pi.id,
+		});
+		if (!finalized) {
+			// Cancelled or already paid by another payment: give it back
+			const outcome = await orderPaymentService.refundUnclaimedPayment(
+				orderNo,
+				payment,
+			);
+			return { ...handled, outcome };
+		}
+
+		await orderPaymentService.sendPaymentConfirmation(
+			orderNo,
+			fromSmallestUnit(pi.amount, pi.currency),
+			pi.currency.toUpperCase(),
+		);
+		return { ...handled, outcome: 'finalized' };
+	}
+
+	if (type === 'payment_intent.payment_failed') {
+		// The customer can try again; the stock hold expires on its own
+		logger.warn('[StripeWebhook] Payment failed', {
+			orderNo,
+			paymentIntentId: pi.id,
+			reason: pi.last_payment_error?.message,
+		});
+		return { ...handled, outcome: 'payment_failed' };
+	}
+
+	// payment_intent.canceled
+	const cancelled = await orderPaymentService.cancelUnpaidOrder(
+		orderNo,
+		`Payment cancelled (${pi.cancellation_reason ?? 'no reason given'})`,
+	);
+	return { ...handled, outcome: cancelled ? 'cancelled' : 'not_pending' };
+}
+
+async function handleChargeRefunded(
+	charge: Stripe.Charge,
+): Promise<HandledEvent> {
+	const paymentIntentId = paymentIntentIdOf(charge);
+	await paymentService.recordRefund(charge);
+	if (!charge.refunded) return { paymentIntentId, outcome: 'partial_refund' };
+
+	let orderNo = charge.metadata?.orderId;
+	if (!orderNo && paymentIntentId) {
+		const pi = await getStripe().paymentIntents.retrieve(paymentIntentId);
+		orderNo = pi.metadata?.orderId;
+	}
+	if (!orderNo) return { paymentIntentId, outcome: 'no_order' };
+
+	try {
+		const refunded = await orderPaymentService.markOrderRefunded(
+			orderNo,
+			'Payment refunded in Stripe',
+		);
+		return {
+			paymentIntentId,
+			orderNo,
+			outcome: refunded ? 'refunded' : 'already_refunded',
+		};
+	} catch (error) {
+		// Retrying will not make the transition valid, so record and move on
+		if (
+			error instanceof AppError &&
+			error.statusCode === StatusCodes.CONFLICT
+		) {
+			logger.warn(
+				'[StripeWebhook] Refunded order cannot be marked refunded',
+				{
+					orderNo,
+					error: error.message,
+				},
+			);
+			return {
+				paymentIntentId,
+				orderNo,
+				outcome: 'refund_status_conflict',
+			};
+		}
+		throw error;
+	}
+}
+
+async function handleCheckoutSession(
+	type: string,
+	session: Stripe.Checkout.Session,
+): Promise<HandledEvent> {
+	const handled = {
+		orderNo: session.metadata?.orderId ?? session.client_reference_id,
+		paymentIntentId:
+			typeof session.payment_intent === 'string'
+				? session.payment_intent
+				: session.payment_intent?.id,
+	};
+
+	if (type === 'checkout.session.completed') {
+		if (session.payment_status !== 'paid') {
+			return { ...handled, outcome: 'link_awaiting_payment' };
+		}
+		const link = await paymentLinkService.markPaid(session.id);
+		return { ...handled, outcome: link ? 'link_paid' : 'no_link' };
+	}
+
+	// checkout.session.expired
+	const link = await paymentLinkService.markExpired(session.id);
+	return { ...handled, outcome: link ? 'link_expired' : 'no_link' };
+}
+
+export const stripeWebhookService = {
+	/**
+	 * Verify the Stripe-Signature header against the raw body
+	 */
+	constructEvent(rawBody: Buffer, signature?: string): Stripe.Event {
+		if (!env.STRIPE_WEBHOOK_SECRET) {
+			logger.error(
+				'Stripe webhook received but STRIPE_WEBHOOK_SECRET is not set',
+			);
+			throw new AppError(
+				'Stripe webhook is not configured',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+			);
+		}
+		if (!signature || !rawBody) {
+			throw new AppError(
+				'Missing Stripe signature',
+				StatusCodes.BAD_REQUEST,
+			);
+		}
+
+		try {
+			return getStripe().webhooks.constructEvent(
+				rawBody,
+				signature,
+				env.STRIPE_WEBHOOK_SECRET,
+			);
+		} catch (error) {
+			logger.warn('Stripe webhook rejected: signature mismatch', {
+				error: error instanceof Error ? error.message : error,
+			});
+			throw new AppError(
+				'Invalid Stripe signature',
+				StatusCodes.BAD_REQUEST,
+			);
+		}
+	},
+
+	/**
+	 * Apply a Stripe event to its order. Each event id is handled once; if
+	 * handling throws, the claim is dropped so Stripe's retry runs it again.
+	 */
+	async handleEvent(event: Stripe.Event) {
+		const [claimed] = await db
+			.insert(stripeWebhookEvents)
+			.values({ stripeEventId: event.id, type: event.type })
+			.onConflictDoNothing({ target: stripeWebhookEvents.stripeEventId })
+			.returning({ id: stripeWebhookEvents.id });
+
+		if (!claimed) {
+			logger.info('[StripeWebhook] Event already processed, skipping', {
+				eventId: event.id,
+			});
+			return { duplicate: true, outcome: null };
+		}
+
+		let handled: HandledEvent;
+		try {
+			switch (event.type) {
+				case 'payment_intent.succeeded':
+				case 'payment_intent.payment_failed':
+				case 'payment_intent.canceled':
+					handled = await handlePaymentIntent(
+						event.type,
+						event.data.object,
+					);
+					break;
+				case 'charge.refunded':
+					handled = await handleChargeRefunded(event.data.object);
+					break;
+				case 'checkout.session.completed':
+				case 'checkout.session.expired':
+					handled = await handleCheckoutSession(
+						event.type,
+						event.data.object,
+					);
+					break;
+				default:
+					handled = { outcome: 'ignored' };
+			}
+		} catch (error) {
+			await db
+				.delete(stripeWebhookEvents)
+				.where(eq(stripeWebhookEvents.id, claimed.id));
+			throw error;
+		}
+
+		await db
+			.update(stripeWebhookEvents)
+			.set(handled)
+			.where(eq(stripeWebhookEvents.id, claimed.id));
+
+		logger.info('[StripeWebhook] Event processed', {
+			eventId: event.id,
+			type: event.type,
+			...handled,
+		});
+		return { duplicate: false, outcome: handled.outcome };
+	},
+};
@@ -0,0 +1,429 @@
+import path from 'node:path';
+import { and, asc, eq, max, ne, or, sql } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import { v4 as uuidv4 } from 'uuid';
+import AppError from '@/abstractions/AppError';
+import { catalogSyncService } from '@/components/web/catalog/catalogSync.service';
+import { db } from '@/database';
+import {
+	InsertProductMedia,
+	productMedia,
+	products,
+	SelectProductMedia,
+} from '@/database/schema';
+import env from '@/env';
+import logger from '@/lib/logger';
+import { fileHandlerService } from '@/utils/fileUploadBlob';
+import { generateThumbnail, PRODUCT_IMAGE_TYPES } from '@/utils/imageThumbnail';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+const mediaDir = (productId: string) => `products/${productId}`;
+
+// Room left for the original file name in a blob name, after the key
+const MAX_FILE_NAME_LENGTH = 100;
+
+/**
+ * Unique blob name that keeps a readable part of the original file name,
+ * with its extension, short enough for the blob_name column
+ */
+function toBlobName(key: string, originalName: string) {
+	const safeName = originalName.replace(/[^\w.-]/g, '-');
+	const ext = path.extname(safeName).slice(0, 10);
+	const base = path
+		.basename(safeName, path.extname(safeName))
+		.slice(0, MAX_FILE_NAME_LENGTH - ext.length);
+	return `${key}_${base}${ext}`;
+}
+
+/**
+ * Public URL of a media file, served by the product media route. The
+ * catalog and WhatsApp fetch images without a session, and the container
+ * is private.
+ */
+function mediaUrl(productId: string, blobName: string) {
+	const backend = env.APP_URI_BACKEND.replace(/\/$/, '');
+	return `${backend}/web/product-media/${productId}/${encodeURIComponent(blobName)}`;
+}
+
+/**
+ * Remove a media row's files; a failure only leaves an orphaned blob behind
+ */
+async function deleteMediaFiles(
+	media: Pick<
+		SelectProductMedia,
+		'productID' | 'blobName' | 'thumbnailBlobName'
+	>,
+) {
+	const dirName = mediaDir(media.productID);
+	try {
+		await fileHandlerService.deleteFile(media.blobName, dirName);
+		await fileHandlerService.deleteFile(media.thumbnailBlobName, dirName);
+	} catch (error) {
+		logger.warn('[ProductMedia] Could not delete media files', {
+			blobName: media.blobName,
+			error: error instanceof Error ? error.message : error,
+		});
+	}
+}
+
+async function assertProductExists(productId: string) {
+	const product = await db.query.products.findFirst({
+		where: eq(products.id, productId),
+		columns: { id: true, contentId: true },
+	});
+	if (!product) {
+		throw new AppError('Product not found', StatusCodes.NOT_FOUND);
+	}
+	return product;
+}
+
+export const productMediaService = {
+	/**
+	 * Images of a product in display order
+	 */
+	async listForProduct(productId: string) {
+		try {
+			const data = await db.query.productMedia.findMany({
+				where: eq(productMedia.productID, productId),
+				orderBy: [
+					asc(productMedia.sortOrder),
+					asc(productMedia.createdAt),
+				],
+			});
+			return { data, message: 'Product media fetched successfully' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch product media',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listForProduct',
+				{ productId },
+			);
+		}
+	},
+
+	/**
+	 * Upload images with their thumbnails and append them after the existing
+	 * ones. The first image of a product becomes its primary image.
+	 */
+	async uploadMedia(
+		productId: string,
+		files: Express.Multer.File[],
+		userId?: string,
+	) {
+		try {
+			if (!files?.length) {
+				throw new AppError(
+					'No images uploaded',
+					StatusCodes.BAD_REQUEST,
+				);
+			}
+			const unsupported = files.find(
+				(file) => !PRODUCT_IMAGE_TYPES.includes(file.mimetype),
+			);
+			if (unsupported) {
+				throw new AppError(
+					`Unsupported image type for ${unsupported.originalname}`,
+					StatusCodes.BAD_REQUEST,
+				);
+			}
+
+			const product = await assertProductExists(productId);
+			const dirName = mediaDir(productId);
+
+			// Upload everything first so a failed image leaves no rows behind
+			const uploaded: InsertProductMedia[] = [];
+			try {
+				for (const file of files) {
+					const thumbnail = await generateThumbnail(
+						file.buffer,
+					).catch(() => {
+						throw new AppError(
+							`${file.originalname} is not a readable image`,
+							StatusCodes.BAD_REQUEST,
+						);
+					});
+
+					const key = uuidv4();
+					const blobName = toBlobName(key, file.originalname);
+					const thumbnailBlobName = `${key}_thumb.jpg`;
+
+					await fileHandlerService.uploadFile(
+						file,
+						blobName,
+						dirName,
+					);
+					await fileHandlerService.uploadFile(
+						{
+							...file,
+							originalname: thumbnailBlobName,
+							mimetype: thumbnail.contentType,
+							size: thumbnail.buffer.length,
+							buffer: thumbnail.buffer,
+						},
+						thumbnailBlobName,
+						dirName,
+					);
+
+					uploaded.push({
+						productID: productId,
+						blobName,
+						thumbnailBlobName,
+						url: mediaUrl(productId, blobName),
+						thumbnailUrl: mediaUrl(productId, thumbnailBlobName),
+						originalName: file.originalname,
+						contentType: file.mimetype,
+						size: file.size,
+						width: thumbnail.width,
+						height: thumbnail.height,
+						createdBy: userId,
+					});
+				}
+			} catch (error) {
+				for (const media of uploaded) {
+					await deleteMediaFiles(media);
+				}
+				throw error;
+			}
+
+			const data = await db
+				.transaction(async (tx) => {
+					const [{ lastOrder, hasPrimary }] = await tx
+						.select({
+							lastOrder: max(productMedia.sortOrder),
+							hasPrimary: sql<boolean>`coalesce(bool_or(${productMedia.isPrimary}), false)`,
+						})
+						.from(productMedia)
+						.where(eq(productMedia.productID, productId));
+
+					const start = lastOrder === null ? 0 : lastOrder + 1;
+					const inserted = await tx
+						.insert(productMedia)
+						.values(
+							uploaded.map((media, i) => ({
+								...media,
+								sortOrder: start + i,
+								isPrimary: !hasPrimary && i === 0,
+							})),
+						)
+						.returning();
+
+					if (!hasPrimary) {
+						await catalogSyncService.enqueue(product, 'update', tx);
+					}
+					return inserted;
+				})
+				.catch(async (error) => {
+					// No rows point at the files, so they would be orphaned
+					for (const media of uploaded) {
+						await deleteMediaFiles(media);
+					}
+					throw error;
+				});
+
+			return { data, message: 'Product images uploaded successfully' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to upload product images',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'uploadMedia',
+				{ productId, count: files?.length },
+			);
+		}
+	},
+
+	/**
+	 * Stream an image or thumbnail of a product for the public media route.
+	 * Only files recorded for the product are served.
+	 */
+	async streamFile(productId: string, fileName: string) {
+		const media = await db.query.productMedia.findFirst({
+			where: and(
+				eq(productMedia.productID, productId),
+				or(
+					eq(productMedia.blobName, fileName),
+					eq(productMedia.thumbnailBlobName, fileName),
+				),
+			),
+			columns: { id: true },
+		});
+		if (!media) {
+			throw new AppError(
+				'Product image not found',
+				StatusCodes.NOT_FOUND,
+			);
+		}
+
+		return fileHandlerService.fileStreamProxy(
+			fileName,
+			mediaDir(productId),
+		);
+	},
+
+	/**
+	 * Set the display order; every image of the product must be listed
+	 */
+	async reorderMedia(productId: string, mediaIds: string[]) {
+		try {
+			await assertProductExists(productId);
+
+			const data = await db.transaction(async (tx) => {
+				const existing = await tx
+					.select({ id: productMedia.id })
+					.from(productMedia)
+					.where(eq(productMedia.productID, productId));
+
+				const existingIds = new Set(existing.map((m) => m.id));
+				if (
+					existing.length !== mediaIds.length ||
+					mediaIds.some((id) => !existingIds.has(id))
+				) {
+					throw new AppError(
+						'Order must list every image of the product exactly once',
+						StatusCodes.BAD_REQUEST,
+					);
+				}
+
+				for (const [sortOrder, id] of mediaIds.entries()) {
+					await tx
+						.update(productMedia)
+						.set({ sortOrder })
+						.where(eq(productMedia.id, id));
+				}
+
+				return tx.query.productMedia.findMany({
+					where: eq(productMedia.productID, productId),
+					orderBy: [asc(productMedia.sortOrder)],
+				});
+			});
+
+			return { data, message: 'Product images reordered successfully' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to reorder product images',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'reorderMedia',
+				{ productId, mediaIds },
+			);
+		}
+	},
+
+	/**
+	 * Make an image the primary one and push it to the catalog
+	 */
+	async setPrimary(productId: string, mediaId: string) {
+		try {
+			const product = await assertProductExists(productId);
+
+			const data = await db.transaction(async (tx) => {
+				const [media] = await tx
+					.select()
+					.from(productMedia)
+					.where(
+						and(
+							eq(productMedia.id, mediaId),
+							eq(productMedia.productID, productId),
+						),
+					)
+					.limit(1);
+				if (!media) {
+					throw new AppError(
+						'Product image not found',
+						StatusCodes.NOT_FOUND,
+					);
+				}
+				if (media.isPrimary) return media;
+
+				await tx
+					.update(productMedia)
+					.set({ isPrimary: false })
+					.where(
+						and(
+							eq(productMedia.productID, productId),
+							ne(productMedia.id, mediaId),
+						),
+					);
+				const [primary] = await tx
+					.update(productMedia)
+					.set({ isPrimary: true })
+					.where(eq(productMedia.id, mediaId))
+					.returning();
+
+				await catalogSyncService.enqueue(product, 'update', tx);
+				return primary;
+			});
+
+			return { data, message: 'Primary image updated successfully' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to set primary image',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'setPrimary',
+				{ productId, mediaId },
+			);
+		}
+	},
+
+	/**
+	 * Delete an image and its files. When it was the primary image, the next
+	 * one in order takes its place.
+	 */
+	async deleteMedia(productId: string, mediaId: string) {
+		try {
+			const product = await assertProductExists(productId);
+
+			const deleted = await db.transaction(async (tx) => {
+				const [media] = await tx
+					.delete(productMedia)
+					.where(
+						and(
+							eq(productMedia.id, mediaId),
+							eq(productMedia.productID, productId),
+						),
+					)
+					.returning();
+				if (!media) {
+					throw new AppError(
+						'Product image not found',
+						StatusCodes.NOT_FOUND,
+					);
+				}
+
+				if (media.isPrimary) {
+					const [next] = await tx
+						.select({ id: productMedia.id })
+						.from(productMedia)
+						.where(eq(productMedia.productID, productId))
+						.orderBy(asc(productMedia.sortOrder))
+						.limit(1);
+					if (next) {
+						await tx
+							.update(productMedia)
+							.set({ isPrimary: true })
+							.where(eq(productMedia.id, next.id));
+					}
+					await catalogSyncService.enqueue(product, 'update', tx);
+				}
+				return media;
+			});
+
+			await deleteMediaFiles(deleted);
+
+			return {
+				data: deleted,
+				message: 'Product image deleted successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to delete product image',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'deleteMedia',
+				{ productId, mediaId },
+			);
+		}
+	},
+};
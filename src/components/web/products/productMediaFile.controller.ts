@@ -0,0 +1,41 @@
+import { Request, Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { productMediaService } from './productMedia.service';
+import { ProductMediaFileParamsParser } from './products.parser';
+import BaseApi from '@/components/BaseApi';
+import logger from '@/lib/logger';
+
+export default class ProductMediaFileController extends BaseApi {
+	constructor() {
+		super();
+	}
+
+	public register(): Router {
+		this.router.get('/:productId/:fileName', this.getFile.bind(this));
+
+		return this.router;
+	}
+
+	public async getFile(req: Request, res: Response) {
+		const { productId, fileName } = ProductMediaFileParamsParser.parse(
+			req.params,
+		);
+		const { stream, contentLength, contentType } =
+			await productMediaService.streamFile(productId, fileName);
+
+		res.setHeader('Content-Type', contentType);
+		// Blob names are unique per upload, so a file never changes
+		res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+		if (contentLength) {
+			res.setHeader('Content-Length', contentLength.toString());
+		}
+
+		stream.on('error', (error) => {
+			logger.error('[ProductMedia] Stream error', error);
+			if (!res.headersSent) res.sendStatus(StatusCodes.NOT_FOUND);
+			else res.end();
+		});
+
+		stream.pipe(res);
+	}
+}
@@ -0,0 +1,324 @@
+import { and, asc, eq, inArray, ne, sql } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import { ProductVariantInput, ProductVariantUpdate } from './products.parser';
+import AppError from '@/abstractions/AppError';
+import { catalogSyncService } from '@/components/web/catalog/catalogSync.service';
+import { inventoryMovementService } from '@/components/web/inventory/inventoryMovement.service';
+import { db } from '@/database';
+import { products, productVariants } from '@/database/schema';
+import { DbOrTx } from '@/database/transactionType/transactionType';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+export interface ResolvedRetailerItem {
+	productID: string;
+	// Null when the retailer id is the parent product's contentId
+	variantID: string | null;
+	name: string;
+	qty: number;
+	reservedQty: number;
+	isActive: boolean;
+}
+
+/**
+ * SKUs and retailer ids are shared between products and variants: the
+ * catalog and order webhooks only see the retailer id, so it has to point at
+ * exactly one row. A product's retailer id is its contentId. The row being
+ * saved is left out of the check.
+ */
+export async function assertIdentifiersFree(
+	{ sku, retailerId }: { sku?: string; retailerId?: string },
+	{ variantId, productId }: { variantId?: string; productId?: string } = {},
+	txOrDb: DbOrTx = db,
+) {
+	const notSelfVariant = variantId
+		? ne(productVariants.id, variantId)
+		: undefined;
+	const notSelfProduct = productId ? ne(products.id, productId) : undefined;
+
+	if (sku) {
+		const [variantClash] = await txOrDb
+			.select({ id: productVariants.id })
+			.from(productVariants)
+			.where(and(eq(productVariants.sku, sku), notSelfVariant))
+			.limit(1);
+		const [productClash] = await txOrDb
+			.select({ id: products.id })
+			.from(products)
+			.where(and(eq(products.sku, sku), notSelfProduct))
+			.limit(1);
+
+		if (variantClash || productClash) {
+			throw new AppError(
+				'A product or variant with this SKU already exists',
+				StatusCodes.CONFLICT,
+			);
+		}
+	}
+
+	if (retailerId) {
+		const [variantClash] = await txOrDb
+			.select({ id: productVariants.id })
+			.from(productVariants)
+			.where(
+				and(eq(productVariants.retailerId, retailerId), notSelfVariant),
+			)
+			.limit(1);
+		const [productClash] = await txOrDb
+			.select({ id: products.id })
+			.from(products)
+			.where(and(eq(products.contentId, retailerId), notSelfProduct))
+			.limit(1);
+
+		if (variantClash || productClash) {
+			throw new AppError(
+				'A product or variant with this retailer id already exists',
+				StatusCodes.CONFLICT,
+			);
+		}
+	}
+}
+
+export const productVariantService = {
+	/**
+	 * Variants of a product with their sync state
+	 */
+	async listForProduct(productId: string) {
+		try {
+			const variants = await db.query.productVariants.findMany({
+				where: eq(productVariants.productID, productId),
+				orderBy: [asc(productVariants.createdAt)],
+			});
+
+			const data = await Promise.all(
+				variants.map(async (variant) => ({
+					...variant,
+					catalogSync: await catalogSyncService.getProductSyncStatus(
+						productId,
+						variant.id,
+					),
+				})),
+			);
+
+			return { data, message: 'Product variants fetched successfully' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch product variants',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listForProduct',
+				{ productId },
+			);
+		}
+	},
+
+	/**
+	 * Add a variant under a product. Opening stock goes through the ledger and
+	 * the variant is queued for the catalog under the product's item group.
+	 */
+	async createVariant(
+		productId: string,
+		data: ProductVariantInput,
+		userId?: string,
+	) {
+		try {
+			const product = await db.query.products.findFirst({
+				where: eq(products.id, productId),
+				columns: { id: true },
+			});
+			if (!product) {
+				throw new AppError('Product not found', StatusCodes.NOT_FOUND);
+			}
+
+			await assertIdentifiersFree(data);
+
+			const variant = await db.transaction(async (tx) => {
+				const [created] = await tx
+					.insert(productVariants)
+					.values({
+						...data,
+						productID: productId,
+						createdBy: userId,
+						updatedBy: userId,
+					})
+					.returning();
+
+				if (created.qty) {
+					await inventoryMovementService.record(
+						{
+							variant: created,
+							type: 'restock',
+							qtyChange: created.qty,
+							reason: 'Opening stock',
+							referenceType: 'product_variant',
+							referenceID: created.id,
+							createdBy: userId,
+						},
+						tx,
+					);
+				}
+
+				await catalogSyncService.enqueueVariant(created, 'create', tx);
+				return created;
+			});
+
+			return { data: variant, message: 'Variant created successfully' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to create variant',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'createVariant',
+				{ productId, data },
+			);
+		}
+	},
+
+	/**
+	 * Update a variant. A qty edit is recorded as an adjustment; a new
+	 * retailer id is pushed as a create since the catalog has no item for it
+	 * yet, and the item under the old one is deleted.
+	 */
+	async updateVariant(
+		productId: string,
+		variantId: string,
+		data: ProductVariantUpdate,
+		userId?: string,
+	) {
+		try {
+			const existing = await db.query.productVariants.findFirst({
+				where: and(
+					eq(productVariants.id, variantId),
+					eq(productVariants.productID, productId),
+				),
+			});
+			if (!existing) {
+				throw new AppError('Variant not found', StatusCodes.NOT_FOUND);
+			}
+
+			await assertIdentifiersFree(
+				{
+					sku: data.sku !== existing.sku ? data.sku : undefined,
+					retailerId:
+						data.retailerId !== existing.retailerId
+							? data.retailerId
+							: undefined,
+				},
+				{ variantId },
+			);
+
+			const variant = await db.transaction(async (tx) => {
+				// On-hand stock may not drop below what unpaid orders hold
+				const [updated] = await tx
+					.update(productVariants)
+					.set({ ...data, updatedBy: userId, updatedAt: new Date() })
+					.where(
+						and(
+							eq(productVariants.id, variantId),
+							data.qty === undefined
+								? undefined
+								: sql`${data.qty} >= ${productVariants.reservedQty}`,
+						),
+					)
+					.returning();
+				if (!updated) {
+					throw new AppError(
+						`Quantity cannot be below the ${existing.reservedQty} units held for unpaid orders`,
+						StatusCodes.BAD_REQUEST,
+					);
+				}
+
+				const qtyChange = updated.qty - existing.qty;
+				if (qtyChange !== 0) {
+					await inventoryMovementService.record(
+						{
+							variant: updated,
+							type: 'adjustment',
+							qtyChange,
+							reason: 'Quantity edited on variant',
+							referenceType: 'product_variant',
+							referenceID: variantId,
+							createdBy: userId,
+						},
+						tx,
+					);
+				}
+
+				const retailerIdChanged =
+					updated.retailerId !== existing.retailerId;
+				await catalogSyncService.enqueueVariant(
+					updated,
+					retailerIdChanged ? 'create' : 'update',
+					tx,
+				);
+				if (retailerIdChanged) {
+					await catalogSyncService.enqueueVariantDelete(
+						existing,
+						existing.retailerId,
+						tx,
+					);
+				}
+				return updated;
+			});
+
+			return { data: variant, message: 'Variant updated successfully' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to update variant',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'updateVariant',
+				{ productId, variantId, data },
+			);
+		}
+	},
+
+	/**
+	 * Map catalog retailer ids (as sent in order webhooks) to the product or
+	 * variant they belong to. Unknown ids are left out.
+	 */
+	async resolveRetailerIds(
+		retailerIds: string[],
+		txOrDb: DbOrTx = db,
+	): Promise<Map<string, ResolvedRetailerItem>> {
+		const resolved = new Map<string, ResolvedRetailerItem>();
+		if (retailerIds.length === 0) return resolved;
+
+		const productRows = await txOrDb
+			.select()
+			.from(products)
+			.where(inArray(products.contentId, retailerIds));
+		for (const product of productRows) {
+			resolved.set(product.contentId, {
+				productID: product.id,
+				variantID: null,
+				name: product.productName,
+				qty: product.qty ?? 0,
+				reservedQty: product.reservedQty,
+				isActive: true,
+			});
+		}
+
+		const variantRows = await txOrDb
+			.select({
+				variant: productVariants,
+				productName: products.productName,
+			})
+			.from(productVariants)
+			.innerJoin(products, eq(products.id, productVariants.productID))
+			.where(inArray(productVariants.retailerId, retailerIds));
+		for (const { variant, productName } of variantRows) {
+			resolved.set(variant.retailerId, {
+				productID: variant.productID,
+				variantID: variant.id,
+				name: variant.name
+					? `${productName} - ${variant.name}`
+					: productName,
+				qty: variant.qty,
+				reservedQty: variant.reservedQty,
+				isActive: variant.isActive,
+			});
+		}
+
+		return resolved;
+	},
+};
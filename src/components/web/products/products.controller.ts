@@ -1,6 +1,31 @@
 import { Request, Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import multer from 'multer';
+import { productMediaService } from './productMedia.service';
+import { productVariantService } from './productVariants.service';
+import {
+	ProductBulkUpdateBodyParser,
+	ProductListQueryParser,
+	ProductMediaOrderBodyParser,
+	ProductMediaParamsParser,
+	ProductSheetFormatQueryParser,
+	ProductVariantBodyParser,
+	ProductVariantParamsParser,
+	ProductVariantUpdateBodyParser,
+} from './products.parser';
 import { productService } from './products.service';
+import AppError from '@/abstractions/AppError';
 import BaseApi from '@/components/BaseApi';
+import { CatalogSyncWorker } from '@/components/web/catalog/catalogSyncWorker';
+import {
+	buildProductsTemplate,
+	ProductSheetFormat,
+} from '@/utils/excelProducts';
+
+const SHEET_CONTENT_TYPES: Record<ProductSheetFormat, string> = {
+	xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+	csv: 'text/csv',
+};
 
 export default class ProductController extends BaseApi {
 	constructor() {
@@ -8,16 +33,55 @@ export default class ProductController extends BaseApi {
 	}
 
 	public register(): Router {
+		const sheetUpload = multer({
+			storage: multer.memoryStorage(),
+			limits: { fileSize: 5 * 1024 * 1024, files: 1 },
+		});
+		const imageUpload = multer({
+			storage: multer.memoryStorage(),
+			limits: { fileSize: 10 * 1024 * 1024, files: 10 },
+		});
+
+		this.router.get('/template', this.downloadTemplate.bind(this));
+		this.router.get('/export', this.exportProducts.bind(this));
+		this.router.post(
+			'/import',
+			sheetUpload.single('file'),
+			this.importProducts.bind(this),
+		);
+
 		this.router.get('/', this.getAllProducts.bind(this));
 		this.router.get('/:id', this.getProductById.bind(this));
 		this.router.post('/', this.createProduct.bind(this));
+		this.router.patch('/bulk', this.bulkUpdateProducts.bind(this));
 		this.router.patch('/:id', this.updateProduct.bind(this));
 
+		this.router.get('/:id/variants', this.getVariants.bind(this));
+		this.router.post('/:id/variants', this.createVariant.bind(this));
+		this.router.patch(
+			'/:id/variants/:variantId',
+			this.updateVariant.bind(this),
+		);
+
+		this.router.get('/:id/media', this.getMedia.bind(this));
+		this.router.post(
+			'/:id/media',
+			imageUpload.array('images', 10),
+			this.uploadMedia.bind(this),
+		);
+		this.router.patch('/:id/media/order', this.reorderMedia.bind(this));
+		this.router.patch(
+			'/:id/media/:mediaId/primary',
+			this.setPrimaryMedia.bind(this),
+		);
+		this.router.delete('/:id/media/:mediaId', this.deleteMedia.bind(this));
+
 		return this.router;
 	}
 
 	public async getAllProducts(req: Request, res: Response) {
-		const { data, message } = await productService.getAllProducts();
+		const query = ProductListQueryParser.parse(req.query);
+		const { data, message } = await productService.getAllProducts(query);
 		res.locals = { data, message };
 		super.send(res);
 	}
@@ -50,4 +114,158 @@ export default class ProductController extends BaseApi {
 		res.locals = { data, message };
 		super.send(res);
 	}
+
+	public async bulkUpdateProducts(req: Request, res: Response) {
+		const { userId } = req.query;
+		const body = ProductBulkUpdateBodyParser.parse(req.body);
+		const { data, message } = await productService.bulkUpdateProducts(
+			body.products,
+			userId ? String(userId) : undefined,
+		);
+		CatalogSyncWorker.trigger();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getVariants(req: Request, res: Response) {
+		const { id } = req.params;
+		const { data, message } =
+			await productVariantService.listForProduct(id);
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async createVariant(req: Request, res: Response) {
+		const { id } = req.params;
+		const { userId } = req.query;
+		const body = ProductVariantBodyParser.parse(req.body);
+		const { data, message } = await productVariantService.createVariant(
+			id,
+			body,
+			userId ? String(userId) : undefined,
+		);
+		CatalogSyncWorker.trigger();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async updateVariant(req: Request, res: Response) {
+		const { id, variantId } = ProductVariantParamsParser.parse(req.params);
+		const { userId } = req.query;
+		const body = ProductVariantUpdateBodyParser.parse(req.body);
+		const { data, message } = await productVariantService.updateVariant(
+			id,
+			variantId,
+			body,
+			userId ? String(userId) : undefined,
+		);
+		CatalogSyncWorker.trigger();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getMedia(req: Request, res: Response) {
+		const { id } = req.params;
+		const { data, message } = await productMediaService.listForProduct(id);
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async uploadMedia(req: Request, res: Response) {
+		const { id } = req.params;
+		const { userId } = req.query;
+		const { data, message } = await productMediaService.uploadMedia(
+			id,
+			req.files as Express.Multer.File[],
+			userId ? String(userId) : undefined,
+		);
+		CatalogSyncWorker.trigger();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async reorderMedia(req: Request, res: Response) {
+		const { id } = req.params;
+		const { mediaIds } = ProductMediaOrderBodyParser.parse(req.body);
+		const { data, message } = await productMediaService.reorderMedia(
+			id,
+			mediaIds,
+		);
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async setPrimaryMedia(req: Request, res: Response) {
+		const { id, mediaId } = ProductMediaParamsParser.parse(req.params);
+		const { data, message } = await productMediaService.setPrimary(
+			id,
+			mediaId,
+		);
+		CatalogSyncWorker.trigger();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async deleteMedia(req: Request, res: Response) {
+		const { id, mediaId } = ProductMediaParamsParser.parse(req.params);
+		const { data, message } = await productMediaService.deleteMedia(
+			id,
+			mediaId,
+		);
+		CatalogSyncWorker.trigger();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async downloadTemplate(req: Request, res: Response) {
+		const { format } = ProductSheetFormatQueryParser.parse(req.query);
+		const buffer = await buildProductsTemplate(format);
+
+		this.sendSheet(res, buffer, format, 'products_template');
+	}
+
+	public async exportProducts(req: Request, res: Response) {
+		const { format } = ProductSheetFormatQueryParser.parse(req.query);
+		const { data } = await productService.exportProducts(format);
+
+		this.sendSheet(res, data, format, 'products');
+	}
+
+	public async importProducts(req: Request, res: Response) {
+		const { userId } = req.query;
+		const file = req.file;
+		if (!file) {
+			throw new AppError('No file provided', StatusCodes.BAD_REQUEST);
+		}
+
+		const { data, message } = await productService.importProducts(
+			file,
+			userId ? String(userId) : undefined,
+		);
+		CatalogSyncWorker.trigger();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	private sendSheet(
+		res: Response,
+		buffer: Buffer,
+		format: ProductSheetFormat,
+		filename: string,
+	) {
+		res.setHeader('Content-Type', SHEET_CONTENT_TYPES[format]);
+		res.setHeader(
+			'Content-Disposition',
+			`attachment; filename="${filename}.${format}"`,
+		);
+
+		res.status(200).send(buffer);
+	}
 }
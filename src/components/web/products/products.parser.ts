@@ -0,0 +1,179 @@
+import { z } from 'zod/v4';
+import { Zerror } from '@/utils/validations';
+
+export const ProductListQueryParser = z
+	.object({
+		page: z.coerce.number().int().min(1).default(1),
+		limit: z.coerce.number().int().min(1).max(100).default(20),
+		// Matches name, SKU, contentId and variant SKUs
+		search: z.string().trim().min(1).optional(),
+		productType: z.string().trim().min(1).optional(),
+		type: z.string().trim().min(1).optional(),
+		stock: z.enum(['in_stock', 'low_stock', 'out_of_stock']).optional(),
+		// Available stock at or below this counts as low
+		lowStockThreshold: z.coerce.number().int().min(0).default(5),
+		minPrice: z.coerce.number().int().min(0).optional(),
+		maxPrice: z.coerce.number().int().min(0).optional(),
+		pointsEligible: z
+			.enum(['true', 'false'])
+			.transform((v) => v === 'true')
+			.optional(),
+		sortBy: z
+			.enum([
+				'createdAt',
+				'updatedAt',
+				'productName',
+				'amount',
+				'points',
+				'available',
+			])
+			.default('createdAt'),
+		sortOrder: z.enum(['asc', 'desc']).default('desc'),
+	})
+	.refine(
+		(v) =>
+			v.minPrice === undefined ||
+			v.maxPrice === undefined ||
+			v.minPrice <= v.maxPrice,
+		{ message: 'minPrice cannot be above maxPrice', path: ['minPrice'] },
+	);
+
+export type ProductListQuery = z.infer<typeof ProductListQueryParser>;
+
+const BulkProductChangeParser = z.object({
+	id: z.uuid({
+		error: (issue) => Zerror(issue, 'Product id', 'uuid'),
+	}),
+	productName: z.string().trim().min(1).max(255).optional(),
+	productType: z.string().trim().max(100).optional(),
+	sku: z.string().trim().min(1).max(100).optional(),
+	qty: z.number().int().min(0).optional(),
+	amount: z.number().int().min(0).optional(),
+	currency: z.string().trim().min(1).max(10).optional(),
+	type: z.string().trim().max(50).optional(),
+	points: z.number().int().min(0).optional(),
+});
+
+export const ProductBulkUpdateBodyParser = z.object({
+	products: z
+		.array(BulkProductChangeParser)
+		.min(1)
+		.max(200)
+		.refine(
+			(items) =>
+				new Set(items.map((item) => item.id)).size === items.length,
+			{ message: 'Each product can only appear once' },
+		),
+});
+
+export type BulkProductChange = z.infer<typeof BulkProductChangeParser>;
+
+export const ProductSheetFormatQueryParser = z.object({
+	format: z.enum(['xlsx', 'csv']).default('xlsx'),
+});
+
+// Cells arrive as text; empty cells are left out
+export const ProductImportRowParser = z.object({
+	contentId: z
+		.string({ error: 'Content id is required' })
+		.max(100, 'Content id is too long'),
+	productName: z
+		.string({ error: 'Product name is required' })
+		.max(255, 'Product name is too long'),
+	sku: z.string({ error: 'SKU is required' }).max(100, 'SKU is too long'),
+	productType: z.string().max(100).optional(),
+	weight: z.string().max(50).optional(),
+	dimensions: z.string().max(100).optional(),
+	warrantyPeriod: z.string().max(100).optional(),
+	returnPeriodDays: z.string().max(50).optional(),
+	qty: z.coerce
+		.number({ error: 'Qty must be a number' })
+		.int('Qty must be a whole number')
+		.min(0, 'Qty cannot be negative')
+		.optional(),
+	amount: z.coerce
+		.number({ error: 'Amount must be a number' })
+		.int('Amount must be a whole number')
+		.min(0, 'Amount cannot be negative')
+		.optional(),
+	currency: z
+		.string()
+		.transform((v) => v.toUpperCase())
+		.pipe(
+			z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter code'),
+		)
+		.optional(),
+	type: z.string().max(50).optional(),
+	points: z.coerce
+		.number({ error: 'Points must be a number' })
+		.int('Points must be a whole number')
+		.min(0, 'Points cannot be negative')
+		.optional(),
+	imageUrl: z.url('Image URL must be a valid URL').max(255).optional(),
+});
+
+export type ProductImportRow = z.infer<typeof ProductImportRowParser>;
+
+export const ProductVariantParamsParser = z.object({
+	id: z.uuid({
+		error: (issue) => Zerror(issue, 'Product id', 'uuid'),
+	}),
+	variantId: z.uuid({
+		error: (issue) => Zerror(issue, 'Variant id', 'uuid'),
+	}),
+});
+
+export const ProductVariantBodyParser = z.object({
+	sku: z.string().trim().min(1).max(100),
+	retailerId: z.string().trim().min(1).max(100),
+	name: z.string().trim().min(1).max(255).optional(),
+	size: z.string().trim().min(1).max(50).optional(),
+	colour: z.string().trim().min(1).max(50).optional(),
+	length: z.string().trim().min(1).max(50).optional(),
+	qty: z.number().int().min(0).default(0),
+	// Left out to use the parent product's price
+	amount: z.number().int().min(0).optional(),
+	imageUrl: z.url().max(255).optional(),
+	isActive: z.boolean().default(true),
+});
+
+export const ProductVariantUpdateBodyParser = ProductVariantBodyParser.partial()
+	.extend({
+		qty: z.number().int().min(0).optional(),
+		isActive: z.boolean().optional(),
+		// null switches the variant back to the parent product's price
+		amount: z.number().int().min(0).nullable().optional(),
+	})
+	.refine((v) => Object.keys(v).length > 0, {
+		message: 'Nothing to update',
+	});
+
+export type ProductVariantInput = z.infer<typeof ProductVariantBodyParser>;
+export type ProductVariantUpdate = z.infer<
+	typeof ProductVariantUpdateBodyParser
+>;
+
+export const ProductMediaParamsParser = z.object({
+	id: z.uuid({
+		error: (issue) => Zerror(issue, 'Product id', 'uuid'),
+	}),
+	mediaId: z.uuid({
+		error: (issue) => Zerror(issue, 'Media id', 'uuid'),
+	}),
+});
+
+export const ProductMediaFileParamsParser = z.object({
+	productId: z.uuid({
+		error: (issue) => Zerror(issue, 'Product id', 'uuid'),
+	}),
+	fileName: z.string().min(1).max(255),
+});
+
+export const ProductMediaOrderBodyParser = z.object({
+	mediaIds: z
+		.array(z.uuid())
+		.min(1)
+		.refine((ids) => new Set(ids).size === ids.length, {
+			message: 'Each image can only appear once',
+		}),
+});
@@ -1,11 +1,42 @@
-import { eq, desc as orderDesc } from 'drizzle-orm';
+import {
+	and,
+	asc,
+	count,
+	eq,
+	gt,
+	gte,
+	ilike,
+	inArray,
+	isNull,
+	lte,
+	or,
+	sql,
+	desc as orderDesc,
+} from 'drizzle-orm';
 import { StatusCodes } from 'http-status-codes';
+import { productMediaService } from './productMedia.service';
+import {
+	assertIdentifiersFree,
+	productVariantService,
+} from './productVariants.service';
+import {
+	BulkProductChange,
+	ProductImportRow,
+	ProductImportRowParser,
+	ProductListQuery,
+} from './products.parser';
 import AppError from '@/abstractions/AppError';
+import { catalogSyncService } from '@/components/web/catalog/catalogSync.service';
+import { inventoryMovementService } from '@/components/web/inventory/inventoryMovement.service';
 import { db } from '@/database';
-import { products } from '@/database/schema';
+import { products, productVariants, SelectProduct } from '@/database/schema';
+import {
+	buildProductsExport,
+	parseProductsSheet,
+	PRODUCT_SHEET_TYPES,
+	ProductSheetFormat,
+} from '@/utils/excelProducts';
 import { handleServiceError } from '@/utils/serviceErrorHandler';
-import axios from 'axios';
-import { fbUpdateProductStock, syncToFacebookCatalog } from './facebookProductSync';
 
 interface CreateOrUpdateProductInput {
 	contentId: string;
@@ -24,18 +55,132 @@ interface CreateOrUpdateProductInput {
 	metadata?: Record<string, any>;
 }
 
+const availableStock = sql<number>`COALESCE(${products.qty}, 0) - ${products.reservedQty}`;
+
+/**
+ * Update guard for a qty edit: on-hand stock may not drop below what unpaid
+ * orders hold, or paying for them would sell stock that is not there
+ */
+const qtyCoversReserved = (qty?: number | null) =>
+	qty === undefined
+		? undefined
+		: sql`COALESCE(${qty}::integer, 0) >= ${products.reservedQty}`;
+
+const belowReservedError = ({
+	productName,
+	reservedQty,
+}: Pick<SelectProduct, 'productName' | 'reservedQty'>) =>
+	new AppError(
+		`${productName}: quantity cannot be below the ${reservedQty} units held for unpaid orders`,
+		StatusCodes.BAD_REQUEST,
+	);
+
+const PRODUCT_SORT_COLUMNS = {
+	createdAt: products.createdAt,
+	updatedAt: products.updatedAt,
+	productName: products.productName,
+	amount: products.amount,
+	points: products.points,
+	available: availableStock,
+};
+
 export const productService = {
 
 
 	/**
-	 * Fetch all products
+	 * Search, filter, sort and page through products
 	 */
-	async getAllProducts() {
+	async getAllProducts({
+		page,
+		limit,
+		search,
+		productType,
+		type,
+		stock,
+		lowStockThreshold,
+		minPrice,
+		maxPrice,
+		pointsEligible,
+		sortBy,
+		sortOrder,
+	}: ProductListQuery) {
 		try {
-			const data = await db.query.products.findMany({
-				orderBy: [orderDesc(products.createdAt)],
-			});
-			return { data, message: 'All products fetched successfully' };
+			const filters = [];
+			if (search) {
+				filters.push(
+					or(
+						ilike(products.productName, `%${search}%`),
+						ilike(products.sku, `%${search}%`),
+						ilike(products.contentId, `%${search}%`),
+						inArray(
+							products.id,
+							db
+								.select({ id: productVariants.productID })
+								.from(productVariants)
+								.where(
+									ilike(productVariants.sku, `%${search}%`),
+								),
+						),
+					),
+				);
+			}
+			if (productType) {
+				filters.push(eq(products.productType, productType));
+			}
+			if (type) filters.push(eq(products.type, type));
+			if (stock === 'in_stock') {
+				filters.push(sql`${availableStock} > ${lowStockThreshold}`);
+			} else if (stock === 'low_stock') {
+				filters.push(
+					sql`${availableStock} > 0 AND ${availableStock} <= ${lowStockThreshold}`,
+				);
+			} else if (stock === 'out_of_stock') {
+				filters.push(sql`${availableStock} <= 0`);
+			}
+			if (minPrice !== undefined) {
+				filters.push(gte(products.amount, minPrice));
+			}
+			if (maxPrice !== undefined) {
+				filters.push(lte(products.amount, maxPrice));
+			}
+			if (pointsEligible === true) filters.push(gt(products.points, 0));
+			if (pointsEligible === false) {
+				filters.push(
+					or(isNull(products.points), eq(products.points, 0)),
+				);
+			}
+			const where = filters.length ? and(...filters) : undefined;
+
+			const direction = sortOrder === 'asc' ? asc : orderDesc;
+			const productRows = await db
+				.select()
+				.from(products)
+				.where(where)
+				// id keeps the order stable across pages
+				.orderBy(
+					direction(PRODUCT_SORT_COLUMNS[sortBy]),
+					asc(products.id),
+				)
+				.limit(limit)
+				.offset((page - 1) * limit);
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(products)
+				.where(where);
+
+			return {
+				data: {
+					products: productRows,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'All products fetched successfully',
+			};
 		} catch (error) {
 			handleServiceError(
 				error,
@@ -59,7 +204,17 @@ export const productService = {
 				throw new AppError('Product not found', StatusCodes.NOT_FOUND);
 			}
 
-			return { data: product, message: 'Product fetched successfully' };
+			const catalogSync =
+				await catalogSyncService.getProductSyncStatus(productId);
+			const { data: variants } =
+				await productVariantService.listForProduct(productId);
+			const { data: media } =
+				await productMediaService.listForProduct(productId);
+
+			return {
+				data: { ...product, catalogSync, variants, media },
+				message: 'Product fetched successfully',
+			};
 		} catch (error) {
 			handleServiceError(
 				error,
@@ -77,18 +232,12 @@ export const productService = {
 
 	async createProduct(data: CreateOrUpdateProductInput, userId?: string) {
 		try {
-			// 1) Check duplicate contentId
-			const existing = await db.query.products.findFirst({
-				where: eq(products.contentId, data.contentId),
+			// 1) Check duplicate contentId and SKU, on products and variants
+			await assertIdentifiersFree({
+				sku: data.sku,
+				retailerId: data.contentId,
 			});
 
-			if (existing) {
-				throw new AppError(
-					"Product with this contentId already exists",
-					StatusCodes.CONFLICT
-				);
-			}
-
 			// 2) Fix metadata type
 			const metadata = Array.isArray(data.metadata)
 				? data.metadata
@@ -96,43 +245,37 @@ export const productService = {
 					? JSON.parse(data.metadata)
 					: [];
 
-			// 3) Insert into DB
-			const [newProduct]: any = await db
-				.insert(products)
-				.values({
-					...data,
-					metadata,
-					createdBy: userId,
-					updatedBy: userId,
-				})
-				.returning();
-
-			// ======================================================
-			// 🔗 FACEBOOK CATALOG — CREATE PRODUCT
-			// ======================================================
-			try {
-				const fbResponse = await syncToFacebookCatalog({
-					retailer_id: newProduct.contentId,
-					name: newProduct.productName,
-					description: "No description available",
-					price: newProduct.amount,
-					currency: newProduct.currency,
-					availability: newProduct.qty > 0 ? "in stock" : "out of stock",
-					condition: "new",
-					brand: "Default",
-					image_url: Array.isArray(newProduct.metadata)
-						? newProduct.metadata[0]
-						: "",
-					url: "https://example.com/product/" + newProduct.contentId,
-				});
-
-				console.log("FB Sync Response:", fbResponse.data);
-			} catch (fbErr) {
-				console.error(
-					"❌ FB Catalog Sync Failed:",
-					fbErr?.response?.data || fbErr
-				);
-			}
+			// 3) Insert into DB, with its ledger row and catalog push
+			const newProduct = await db.transaction(async (tx) => {
+				const [product]: any = await tx
+					.insert(products)
+					.values({
+						...data,
+						metadata,
+						createdBy: userId,
+						updatedBy: userId,
+					})
+					.returning();
+
+				if (product.qty) {
+					await inventoryMovementService.record(
+						{
+							product,
+							type: 'restock',
+							qtyChange: product.qty,
+							reason: 'Opening stock',
+							referenceType: 'product',
+							referenceID: product.id,
+							createdBy: userId,
+						},
+						tx,
+					);
+				}
+
+				// Pushed to the Facebook catalog by the sync worker
+				await catalogSyncService.enqueue(product, 'create', tx);
+				return product;
+			});
 
 			return {
 				data: newProduct,
@@ -165,35 +308,70 @@ export const productService = {
 				throw new AppError("Product not found", StatusCodes.NOT_FOUND);
 			}
 
-			// Prevent duplicate SKU
-			if (data.sku && data.sku !== existing.sku) {
-				const duplicateSKU = await db.query.products.findFirst({
-					where: eq(products.sku, data.sku),
-				});
-				if (duplicateSKU) {
-					throw new AppError(
-						"Product with this SKU already exists",
-						StatusCodes.CONFLICT
+			// Prevent duplicate SKU or contentId, on products and variants
+			await assertIdentifiersFree(
+				{
+					sku: data.sku !== existing.sku ? data.sku : undefined,
+					retailerId:
+						data.contentId !== existing.contentId
+							? data.contentId
+							: undefined,
+				},
+				{ productId },
+			);
+
+			// --- UPDATE IN DB ---
+			const updated = await db.transaction(async (tx) => {
+				const [product] = await tx
+					.update(products)
+					.set({
+						...data,
+						updatedBy: userId,
+						updatedAt: new Date(),
+					})
+					.where(
+						and(
+							eq(products.id, productId),
+							qtyCoversReserved(data.qty),
+						),
+					)
+					.returning();
+				if (!product) throw belowReservedError(existing);
+
+				// Direct qty edits still go through the ledger
+				const qtyChange = (product.qty ?? 0) - (existing.qty ?? 0);
+				if (qtyChange !== 0) {
+					await inventoryMovementService.record(
+						{
+							product,
+							type: 'adjustment',
+							qtyChange,
+							reason: 'Quantity edited on product',
+							referenceType: 'product',
+							referenceID: productId,
+							createdBy: userId,
+						},
+						tx,
 					);
 				}
-			}
 
-			// --- UPDATE IN DB ---
-			const [updated] = await db
-				.update(products)
-				.set({
-					...data,
-					updatedBy: userId,
-					updatedAt: new Date(),
-				})
-				.where(eq(products.id, productId))
-				.returning();
-
-			// --- UPDATE IN FACEBOOK API ---
-			await fbUpdateProductStock({
-				sku: updated.sku,
-				amount: updated.amount,
-				qty: updated.qty,
+				// --- QUEUE FACEBOOK CATALOG UPDATE ---
+				// A new contentId is a new catalog item; the old one is removed
+				const contentIdChanged =
+					product.contentId !== existing.contentId;
+				await catalogSyncService.enqueue(
+					product,
+					contentIdChanged ? 'create' : 'update',
+					tx,
+				);
+				if (contentIdChanged) {
+					await catalogSyncService.enqueueProductDelete(
+						product,
+						existing.contentId,
+						tx,
+					);
+				}
+				return product;
 			});
 
 			return {
@@ -213,6 +391,377 @@ export const productService = {
 
 	,
 
+	/**
+	 * Apply changes to many products in one transaction. Each changed
+	 * product is queued for the catalog; the sync worker sends them all in
+	 * one batch.
+	 */
+	async bulkUpdateProducts(changes: BulkProductChange[], userId?: string) {
+		try {
+			const updatedProducts = await db.transaction(async (tx) => {
+				const ids = changes.map((change) => change.id);
+				const existingRows = await tx
+					.select()
+					.from(products)
+					.where(inArray(products.id, ids));
+				const existingById = new Map(
+					existingRows.map((p) => [p.id, p]),
+				);
+
+				const missing = ids.filter((id) => !existingById.has(id));
+				if (missing.length > 0) {
+					throw new AppError(
+						`Products not found: ${missing.join(', ')}`,
+						StatusCodes.NOT_FOUND,
+					);
+				}
+
+				const updated = [];
+				for (const { id, ...data } of changes) {
+					const existing = existingById.get(id);
+
+					await assertIdentifiersFree(
+						{
+							sku:
+								data.sku !== existing.sku
+									? data.sku
+									: undefined,
+						},
+						{ productId: id },
+						tx,
+					);
+
+					const [product] = await tx
+						.update(products)
+						.set({
+							...data,
+							updatedBy: userId,
+							updatedAt: new Date(),
+						})
+						.where(
+							and(
+								eq(products.id, id),
+								qtyCoversReserved(data.qty),
+							),
+						)
+						.returning();
+					if (!product) throw belowReservedError(existing);
+
+					const qtyChange = (product.qty ?? 0) - (existing.qty ?? 0);
+					if (qtyChange !== 0) {
+						await inventoryMovementService.record(
+							{
+								product,
+								type: 'adjustment',
+								qtyChange,
+								reason: 'Quantity edited in bulk update',
+								referenceType: 'product',
+								referenceID: id,
+								createdBy: userId,
+							},
+							tx,
+						);
+					}
+
+					await catalogSyncService.enqueue(product, 'update', tx);
+					updated.push(product);
+				}
+
+				return updated;
+			});
+
+			return {
+				data: updatedProducts,
+				message: `${updatedProducts.length} products updated successfully`,
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to update products',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'bulkUpdateProducts',
+				{ count: changes.length },
+			);
+		}
+	},
+
+	/**
+	 * Create or update products from an uploaded Excel/CSV sheet, matched
+	 * on SKU. Every row is validated on its own and saved in its own
+	 * transaction, so bad rows are reported without blocking the rest.
+	 */
+	async importProducts(file: Express.Multer.File, userId?: string) {
+		try {
+			if (!PRODUCT_SHEET_TYPES.includes(file.mimetype)) {
+				throw new AppError(
+					`Unsupported file type for ${file.originalname}`,
+					StatusCodes.BAD_REQUEST,
+				);
+			}
+			const format: ProductSheetFormat =
+				/\.csv$/i.test(file.originalname) ||
+				file.mimetype === 'text/csv'
+					? 'csv'
+					: 'xlsx';
+			const rows = await parseProductsSheet(file.buffer, format);
+			if (!rows.length) {
+				throw new AppError(
+					'No rows found in file',
+					StatusCodes.BAD_REQUEST,
+				);
+			}
+
+			const errors: {
+				row: number;
+				sku: string | null;
+				errors: string[];
+			}[] = [];
+			const validRows: { rowNumber: number; data: ProductImportRow }[] =
+				[];
+			const skuRows = new Map<string, number>();
+			const contentIdRows = new Map<string, number>();
+
+			for (const { rowNumber, values } of rows) {
+				const parsed = ProductImportRowParser.safeParse(values);
+				if (!parsed.success) {
+					errors.push({
+						row: rowNumber,
+						sku: values.sku ?? null,
+						errors: parsed.error.issues.map(
+							(issue) =>
+								`${issue.path.join('.')}: ${issue.message}`,
+						),
+					});
+					continue;
+				}
+
+				const { sku, contentId } = parsed.data;
+				const rowErrors = [];
+				if (skuRows.has(sku)) {
+					rowErrors.push(`sku: also used on row ${skuRows.get(sku)}`);
+				}
+				if (contentIdRows.has(contentId)) {
+					rowErrors.push(
+						`contentId: also used on row ${contentIdRows.get(contentId)}`,
+					);
+				}
+				if (rowErrors.length) {
+					errors.push({ row: rowNumber, sku, errors: rowErrors });
+					continue;
+				}
+
+				skuRows.set(sku, rowNumber);
+				contentIdRows.set(contentId, rowNumber);
+				validRows.push({ rowNumber, data: parsed.data });
+			}
+
+			const existingRows = validRows.length
+				? await db
+						.select()
+						.from(products)
+						.where(
+							or(
+								inArray(products.sku, [...skuRows.keys()]),
+								inArray(products.contentId, [
+									...contentIdRows.keys(),
+								]),
+							),
+						)
+				: [];
+			const existingBySku = new Map(existingRows.map((p) => [p.sku, p]));
+			const existingByContentId = new Map(
+				existingRows.map((p) => [p.contentId, p]),
+			);
+
+			let created = 0;
+			let updated = 0;
+			for (const { rowNumber, data } of validRows) {
+				const { imageUrl, ...fields } = data;
+				const existing = existingBySku.get(data.sku);
+				const contentOwner = existingByContentId.get(data.contentId);
+
+				if (contentOwner && contentOwner.id !== existing?.id) {
+					errors.push({
+						row: rowNumber,
+						sku: data.sku,
+						errors: [
+							`contentId: already used by product with SKU ${contentOwner.sku}`,
+						],
+					});
+					continue;
+				}
+
+				try {
+					await db.transaction(async (tx) => {
+						// Variants share the SKU and retailer id space
+						await assertIdentifiersFree(
+							{ sku: data.sku, retailerId: data.contentId },
+							{ productId: existing?.id },
+							tx,
+						);
+
+						if (existing) {
+							const [product] = await tx
+								.update(products)
+								.set({
+									...fields,
+									...(imageUrl
+										? { image_url: imageUrl }
+										: {}),
+									updatedBy: userId,
+									updatedAt: new Date(),
+								})
+								.where(
+									and(
+										eq(products.id, existing.id),
+										qtyCoversReserved(fields.qty),
+									),
+								)
+								.returning();
+							if (!product) {
+								throw belowReservedError(existing);
+							}
+
+							const qtyChange =
+								(product.qty ?? 0) - (existing.qty ?? 0);
+							if (qtyChange !== 0) {
+								await inventoryMovementService.record(
+									{
+										product,
+										type: 'adjustment',
+										qtyChange,
+										reason: 'Quantity changed by product import',
+										referenceType: 'product',
+										referenceID: product.id,
+										createdBy: userId,
+									},
+									tx,
+								);
+							}
+							const contentIdChanged =
+								product.contentId !== existing.contentId;
+							await catalogSyncService.enqueue(
+								product,
+								contentIdChanged ? 'create' : 'update',
+								tx,
+							);
+							if (contentIdChanged) {
+								await catalogSyncService.enqueueProductDelete(
+									product,
+									existing.contentId,
+									tx,
+								);
+							}
+							return;
+						}
+
+						const [product] = await tx
+							.insert(products)
+							.values({
+								...fields,
+								image_url: imageUrl,
+								metadata: [],
+								createdBy: userId,
+								updatedBy: userId,
+							})
+							.returning();
+
+						if (product.qty) {
+							await inventoryMovementService.record(
+								{
+									product,
+									type: 'restock',
+									qtyChange: product.qty,
+									reason: 'Opening stock',
+									referenceType: 'product',
+									referenceID: product.id,
+									createdBy: userId,
+								},
+								tx,
+							);
+						}
+						await catalogSyncService.enqueue(product, 'create', tx);
+					});
+
+					if (existing) updated += 1;
+					else created += 1;
+				} catch (rowError) {
+					errors.push({
+						row: rowNumber,
+						sku: data.sku,
+						errors: [
+							rowError instanceof AppError
+								? rowError.message
+								: 'Failed to save row',
+						],
+					});
+				}
+			}
+
+			errors.sort((a, b) => a.row - b.row);
+
+			return {
+				data: {
+					totalRows: rows.length,
+					created,
+					updated,
+					failedCount: errors.length,
+					errors,
+				},
+				message: 'Product import completed',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to import products',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'importProducts',
+				{ userId },
+			);
+		}
+	},
+
+	/**
+	 * Current products in the import template layout
+	 */
+	async exportProducts(format: ProductSheetFormat) {
+		try {
+			const rows = await db
+				.select()
+				.from(products)
+				.orderBy(products.createdAt);
+
+			const data = await buildProductsExport(
+				rows.map((product) => ({
+					contentId: product.contentId,
+					productName: product.productName,
+					productType: product.productType,
+					sku: product.sku,
+					weight: product.weight,
+					dimensions: product.dimensions,
+					warrantyPeriod: product.warrantyPeriod,
+					returnPeriodDays: product.returnPeriodDays,
+					qty: product.qty,
+					amount: product.amount,
+					currency: product.currency,
+					type: product.type,
+					points: product.points,
+					imageUrl: product.image_url,
+				})),
+				format,
+			);
+
+			return { data, message: 'Products exported successfully' };
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to export products',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'exportProducts',
+				{ format },
+			);
+		}
+	},
 
 	/**
 	 * Update product
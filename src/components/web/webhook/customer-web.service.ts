@@ -258,6 +258,16 @@ export class CustomerWebService {
 		}
 	}
 
+	/**
+	 * Send a plain text message
+	 */
+	public async sendTextMessage(
+		phoneNumber: string,
+		body: string,
+	): Promise<void> {
+		await this.whatsappMessageService.sendText(phoneNumber, body);
+	}
+
 	/**
 	 * Send interactive menu message
 	 */
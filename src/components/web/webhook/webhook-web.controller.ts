@@ -5,9 +5,10 @@ import { WebhookVerificationQueryParser } from './webhook-web-parser';
 import { WebhookWebService } from './webhook-web.service';
 import AppError from '@/abstractions/AppError';
 import BaseApi from '@/components/BaseApi';
+import { WebhookJobWorker } from '@/components/web/webhookJobs/webhookJobWorker';
 import { db } from '@/database';
 import { users } from '@/database/schema';
-import logger from '@/lib/logger';
+import verifyWebhookSignature from '@/middleware/verifyWebhookSignature';
 
 export default class WebhookWebController extends BaseApi {
 	private webhookService: WebhookWebService;
@@ -19,7 +20,11 @@ export default class WebhookWebController extends BaseApi {
 
 	public register(): Router {
 		this.router.get('/', this.verifyWebhook.bind(this));
-		this.router.post('/', this.handleWebhookEvents.bind(this));
+		this.router.post(
+			'/',
+			verifyWebhookSignature,
+			this.handleWebhookEvents.bind(this),
+		);
 		this.router.get('/fetchTemplates', this.fetchAllTemplates.bind(this));
 		this.router.post('/earn-loyalty', this.earnLoyaltyPoints.bind(this));
 		return this.router;
@@ -50,13 +55,15 @@ export default class WebhookWebController extends BaseApi {
 		req: Request,
 		res: Response,
 	): Promise<void> {
-		res.locals.data = { received: true };
+		// Queue before acknowledging: if this throws Meta gets an error and retries
+		const queued = await this.webhookService.enqueueWebhookPayload(
+			req.body,
+		);
+		if (queued > 0) WebhookJobWorker.trigger();
+
+		res.locals.data = { received: true, queued };
 		res.locals.message = 'Webhook event received';
 		super.send(res, StatusCodes.OK);
-
-		this.webhookService.processWebhookPayload(req.body).catch((error) => {
-			logger.error('Error processing webhook events', { error });
-		});
 	}
 
 	public async fetchAllTemplates(req: Request, res: Response) {
@@ -66,7 +73,7 @@ export default class WebhookWebController extends BaseApi {
 	}
 
 	public async earnLoyaltyPoints(req: Request, res: Response) {
-		const { productID, customerID } = req.body;
+		const { productID, customerID, orderNo } = req.body;
 		const { userId } = req.query;
 
 		// Validate required fields
@@ -101,6 +108,7 @@ export default class WebhookWebController extends BaseApi {
 			String(customerID),
 			String(productID),
 			resolvedUserId,
+			orderNo ? String(orderNo) : undefined,
 		);
 
 		res.locals = { data, message };
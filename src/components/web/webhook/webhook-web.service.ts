@@ -1,6 +1,25 @@
 import axios from 'axios';
-import { eq, inArray } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 import { StatusCodes } from 'http-status-codes';
+import { catalogMirrorService } from '../catalog/catalogMirror.service';
+import {
+	ChatbotIntentRoute,
+	ChatbotIntentRouter,
+} from '../chatbotIntents/chatbotIntentRouter';
+import {
+	messageLogService,
+	parseMessageContent,
+} from '../conversations/messageLog.service';
+import { inventoryReservationService } from '../inventory/inventoryReservation.service';
+import { journeyEngine } from '../journeys/journeyEngine';
+import { orderLifecycleService } from '../orders/orderLifecycle/orderLifecycle.service';
+import { paymentLinkService } from '../payments/paymentLinks.service';
+import { productVariantService } from '../products/productVariants.service';
+import {
+	getWebhookEventKey,
+	webhookEventService,
+} from '../webhookEvents/webhookEvents.service';
+import { webhookJobService } from '../webhookJobs/webhookJobs.service';
 import { CustomerWebService } from './customer-web.service';
 import { parseWaIdToCustomerID } from './webhook-utils';
 import AppError from '@/abstractions/AppError';
@@ -12,12 +31,20 @@ import {
 	orderItems,
 	orders,
 	products,
+	SelectWebhookJob,
 } from '@/database/schema';
 import env from '@/env';
 import logger from '@/lib/logger';
 import { handleServiceError } from '@/utils/serviceErrorHandler';
 import { formatTemplateResponse } from '@/utils/templateFormatter';
-import { fbCheckStock } from '../orders/orderMaster/facebookSync';
+
+interface WebhookEvent {
+	eventType: 'message' | 'status';
+	waMessageId?: string;
+	waId?: string;
+	subType?: string;
+	payload: Record<string, unknown>;
+}
 
 export class WebhookWebService {
 	private customerService: CustomerWebService;
@@ -56,18 +83,20 @@ export class WebhookWebService {
 	}
 
 	/**
-	 * Process webhook payload and extract events
+	 * Split a webhook payload into message/status events and queue them for
+	 * the worker. Retried deliveries of an event already seen are skipped.
 	 */
-	public async processWebhookPayload(payload: any): Promise<void> {
+	public async enqueueWebhookPayload(payload: any): Promise<number> {
 		logger.info('Webhook event received', {
 			object: payload?.object,
 			entryCount: payload?.entry?.length || 0,
 		});
 
 		if (!payload?.entry || !Array.isArray(payload.entry)) {
-			return;
+			return 0;
 		}
 
+		let queued = 0;
 		for (const entry of payload.entry) {
 			if (!entry?.changes || !Array.isArray(entry.changes)) {
 				continue;
@@ -75,28 +104,42 @@ export class WebhookWebService {
 
 			for (const change of entry.changes) {
 				const value = change?.value;
+				const events: WebhookEvent[] = [];
 
-				if (
-					value?.messages &&
-					Array.isArray(value.messages) &&
-					value.messages.length > 0
-				) {
+				if (Array.isArray(value?.messages)) {
 					// Extract wa_id from contacts if available
 					const waId =
-						value?.contacts?.[0]?.wa_id || value?.messages[0]?.from;
-					await this.processMessages(
-						value.messages,
-						value.metadata,
-						waId,
-					);
+						value?.contacts?.[0]?.wa_id || value.messages[0]?.from;
+					const profileName = value?.contacts?.[0]?.profile?.name;
+
+					for (const message of value.messages) {
+						if (!message) continue;
+						events.push({
+							eventType: 'message',
+							waMessageId: message?.id,
+							waId: waId || message?.from,
+							subType: message?.type,
+							payload: {
+								message,
+								metadata: value.metadata,
+								waId,
+								profileName,
+							},
+						});
+					}
 				}
 
-				if (
-					value?.statuses &&
-					Array.isArray(value.statuses) &&
-					value.statuses.length > 0
-				) {
-					await this.processStatuses(value.statuses);
+				if (Array.isArray(value?.statuses)) {
+					for (const status of value.statuses) {
+						if (!status) continue;
+						events.push({
+							eventType: 'status',
+							waMessageId: status?.id,
+							waId: status?.recipient_id,
+							subType: status?.status,
+							payload: { status },
+						});
+					}
 				}
 
 				if (!value?.messages && !value?.statuses) {
@@ -108,234 +151,230 @@ export class WebhookWebService {
 						},
 					);
 				}
+
+				for (const event of events) {
+					if (await this.enqueueEvent(event)) queued++;
+				}
 			}
 		}
+
+		return queued;
+	}
+
+	/**
+	 * Mark the event as seen and queue its job in one transaction, so an
+	 * event is never acknowledged without being queued
+	 */
+	private async enqueueEvent({
+		payload,
+		...event
+	}: WebhookEvent): Promise<boolean> {
+		if (!event.waMessageId) {
+			logger.warn('Webhook event without an id skipped', event);
+			return false;
+		}
+
+		const waMessageId = event.waMessageId;
+		const queued = await db.transaction(async (tx) => {
+			const claimed = await webhookEventService.claimEvent(
+				{ ...event, waMessageId },
+				tx,
+			);
+			if (!claimed) return false;
+
+			await webhookJobService.enqueue(
+				{
+					eventKey: getWebhookEventKey(
+						event.eventType,
+						waMessageId,
+						event.subType,
+					),
+					eventType: event.eventType,
+					payload,
+					waId:
+						event.eventType === 'message' ? event.waId : undefined,
+				},
+				tx,
+			);
+			return true;
+		});
+
+		if (!queued) {
+			logger.info('Duplicate webhook event skipped', event);
+		}
+		return queued;
+	}
+
+	/**
+	 * Run a queued webhook job. Errors propagate so the worker can retry;
+	 * WhatsApp sends and journey steps the failed attempt already did are
+	 * skipped on the retry.
+	 */
+	public async processJob(job: SelectWebhookJob): Promise<void> {
+		const payload = job.payload as any;
+
+		if (job.eventType === 'message') {
+			await this.processMessage(
+				payload?.message,
+				payload?.metadata,
+				payload?.waId,
+				payload?.profileName,
+			);
+		} else {
+			await this.processStatus(payload?.status);
+		}
 	}
 
 	/**
-	 * Process incoming messages from users
+	 * Process an incoming message from a user
 	 */
-	private async processMessages(
-		messages: any[],
+	private async processMessage(
+		message: any,
 		metadata?: any,
 		waId?: string,
+		profileName?: string,
 	): Promise<void> {
-		for (const message of messages) {
-			if (!message) continue;
+		const phoneNumber = message?.from;
+		const messageType = message?.type;
+		// Use wa_id from parameter or fallback to phone number
+		const customerWaId = waId || phoneNumber;
+
+		// Persist the message for the agent inbox before any bot handling
+		await messageLogService.recordInboundMessage({
+			message,
+			waId: customerWaId,
+			profileName,
+		});
 
-			const phoneNumber = message?.from;
-			const messageType = message?.type;
-			// Use wa_id from parameter or fallback to phone number
-			const customerWaId = waId || phoneNumber;
+		logger.info('Message received from user', {
+			from: phoneNumber,
+			waId: customerWaId,
+			messageId: message?.id,
+			type: messageType,
+			timestamp: message?.timestamp,
+			phoneNumberId: metadata?.phone_number_id,
+		});
 
-			logger.info('Message received from user', {
-				from: phoneNumber,
-				waId: customerWaId,
-				messageId: message?.id,
-				type: messageType,
-				timestamp: message?.timestamp,
-				phoneNumberId: metadata?.phone_number_id,
+		// Log interactive message structure for debugging
+		if (messageType === 'interactive') {
+			logger.info('Interactive message structure', {
+				phoneNumber,
+				interactiveType: message?.interactive?.type,
+				interactiveKeys: Object.keys(message?.interactive || {}),
+				hasFlowResponseJson: !!message?.interactive?.flow_response_json,
+				hasFlowResponseData: !!message?.interactive?.flow_response_data,
+				hasButtonReply: !!message?.interactive?.button_reply,
+				hasNfmReply: !!message?.interactive?.nfm_reply,
+				fullInteractive: JSON.stringify(message?.interactive).substring(
+					0,
+					1000,
+				),
 			});
+		}
 
-			// Log interactive message structure for debugging
-			if (messageType === 'interactive') {
-				logger.info('Interactive message structure', {
-					phoneNumber,
-					interactiveType: message?.interactive?.type,
-					interactiveKeys: Object.keys(message?.interactive || {}),
-					hasFlowResponseJson:
-						!!message?.interactive?.flow_response_json,
-					hasFlowResponseData:
-						!!message?.interactive?.flow_response_data,
-					hasButtonReply: !!message?.interactive?.button_reply,
-					hasNfmReply: !!message?.interactive?.nfm_reply,
-					fullInteractive: JSON.stringify(
-						message?.interactive,
-					).substring(0, 1000),
-				});
-			}
-
-			// Handle WhatsApp Flow responses
-			// Check for flow type explicitly OR check for flow data fields (more flexible)
-			let isFlowMessage = false;
-			if (messageType === 'interactive') {
-				const interactive = message?.interactive;
+		// Handle WhatsApp Flow responses
+		// Check for flow type explicitly OR check for flow data fields (more flexible)
+		let isFlowMessage = false;
+		if (messageType === 'interactive') {
+			const interactive = message?.interactive;
 
-				// Check explicit flow type
-				if (interactive?.type === 'flow') {
-					isFlowMessage = true;
-				}
-				// Check for nfm_reply (Native Flow Message reply) - new WhatsApp format
-				else if (
-					interactive?.type === 'nfm_reply' ||
-					interactive?.nfm_reply
-				) {
-					isFlowMessage = true;
-				}
-				// Check for flow response data fields
-				else if (
-					interactive?.flow_response_json ||
-					interactive?.flow_response_data
-				) {
-					isFlowMessage = true;
-				}
-				// Check button_reply payload for flow_token
-				else if (interactive?.button_reply?.payload) {
-					try {
-						const payload =
-							typeof interactive.button_reply.payload === 'string'
-								? JSON.parse(interactive.button_reply.payload)
-								: interactive.button_reply.payload;
-
-						if (
-							payload?.flow_token ||
-							payload?.screen === 'COMPLETE' ||
-							payload?.data
-						) {
-							isFlowMessage = true;
-						}
-					} catch (e) {
-						// If payload is not JSON, check if it's a flow-related string
-						logger.info(
-							"Button reply payload is not JSON, checking if it's a flow-related string",
-							{
-								payload: interactive.button_reply.payload,
-								error: e,
-							},
-						);
-						if (
-							typeof interactive.button_reply.payload ===
-							'string' &&
-							interactive.button_reply.payload.includes('flow')
-						) {
-							isFlowMessage = true;
-						}
-					}
-				}
+			// Check explicit flow type
+			if (interactive?.type === 'flow') {
+				isFlowMessage = true;
 			}
-
-			if (isFlowMessage) {
-				logger.info('Flow message detected, processing...', {
-					phoneNumber,
-					interactiveType: message?.interactive?.type,
-				});
-				await this.handleFlowResponse(
-					message,
-					phoneNumber,
-					customerWaId,
-				);
+			// Check for nfm_reply (Native Flow Message reply) - new WhatsApp format
+			else if (
+				interactive?.type === 'nfm_reply' ||
+				interactive?.nfm_reply
+			) {
+				isFlowMessage = true;
 			}
-
-			// Handle MENU or BACK commands
-			if (messageType === 'text') {
-				const textContent = message?.text?.body?.toUpperCase()?.trim();
-				if (textContent === 'MENU' || textContent === 'BACK') {
-					await this.handleMenuRequest(phoneNumber);
-				} else if (
-					textContent === 'ADD_POINTS' ||
-					textContent === 'ADD POINTS'
-				) {
-					await this.handleAddPointsRequest(
-						phoneNumber,
-						customerWaId,
-					);
-				} else if (
-					textContent === 'VIEW_CATALOG' ||
-					textContent === 'CATALOG' ||
-					textContent === 'VIEW CATALOG'
-				) {
-					await this.handleCatalogRequest(phoneNumber, customerWaId);
-				} else if (
-					textContent === 'VIEW_BALANCE' ||
-					textContent === 'BALANCE' ||
-					textContent === 'VIEW BALANCE'
-				) {
-					await this.handleBalanceRequest(phoneNumber, customerWaId);
-				} else if (
-					textContent === 'TRY' ||
-					textContent === 'TRY WIG' ||
-					textContent === 'WIG'
-				) {
-					await this.handleTryWigsRequest(phoneNumber, customerWaId);
-				}
+			// Check for flow response data fields
+			else if (
+				interactive?.flow_response_json ||
+				interactive?.flow_response_data
+			) {
+				isFlowMessage = true;
 			}
+			// Check button_reply payload for flow_token
+			else if (interactive?.button_reply?.payload) {
+				try {
+					const payload =
+						typeof interactive.button_reply.payload === 'string'
+							? JSON.parse(interactive.button_reply.payload)
+							: interactive.button_reply.payload;
 
-			// Handle button replies
-			if (
-				messageType === 'interactive' &&
-				message?.interactive?.type === 'button_reply'
-			) {
-				const buttonId =
-					message?.interactive?.button_reply?.id?.toUpperCase();
-				if (buttonId === 'MENU' || buttonId === 'BACK') {
-					await this.handleMenuRequest(phoneNumber);
-				} else if (buttonId === 'ADD_POINTS') {
-					await this.handleAddPointsRequest(
-						phoneNumber,
-						customerWaId,
+					if (
+						payload?.flow_token ||
+						payload?.screen === 'COMPLETE' ||
+						payload?.data
+					) {
+						isFlowMessage = true;
+					}
+				} catch (e) {
+					// If payload is not JSON, check if it's a flow-related string
+					logger.info(
+						"Button reply payload is not JSON, checking if it's a flow-related string",
+						{
+							payload: interactive.button_reply.payload,
+							error: e,
+						},
 					);
-				} else if (buttonId === 'VIEW_CATALOG') {
-					await this.handleCatalogRequest(phoneNumber, customerWaId);
-				} else if (buttonId === 'VIEW_BALANCE') {
-					await this.handleBalanceRequest(phoneNumber, customerWaId);
-				} else if (buttonId === 'TRY_WIG') {
-					await this.handleTryWigsRequest(phoneNumber, customerWaId);
+					if (
+						typeof interactive.button_reply.payload === 'string' &&
+						interactive.button_reply.payload.includes('flow')
+					) {
+						isFlowMessage = true;
+					}
 				}
 			}
+		}
 
-			// Handle order events from catalog
-			if (messageType === 'order') {
-				await this.handleOrderEvent(message, phoneNumber, customerWaId);
-			}
-
-			const messageContent = this.extractMessageContent(message);
-
-			logger.info('Message content extracted', {
-				from: phoneNumber,
-				messageId: message?.id,
-				content: messageContent,
-				type: messageType,
+		if (isFlowMessage) {
+			logger.info('Flow message detected, processing...', {
+				phoneNumber,
+				interactiveType: message?.interactive?.type,
 			});
+			await this.handleFlowResponse(message, phoneNumber, customerWaId);
 		}
-	}
 
-	/**
-	 * Extract message content based on message type
-	 */
-	private extractMessageContent(message: any): string | undefined {
-		const messageType = message?.type;
+		// Route keywords and button replies through the configurable intent table
+		const buttonId =
+			messageType === 'interactive' &&
+			message?.interactive?.type === 'button_reply'
+				? message?.interactive?.button_reply?.id
+				: null;
+		const text = messageType === 'text' ? message?.text?.body : null;
+
+		// A running journey gets the message before keyword routing
+		const handledByJourney = await journeyEngine.handleInbound({
+			message,
+			waId: customerWaId,
+			phoneNumber,
+		});
 
-		switch (messageType) {
-			case 'text':
-				return message?.text?.body;
-			case 'interactive':
-				if (message?.interactive?.type === 'button_reply') {
-					return message?.interactive?.button_reply?.title;
-				}
-				if (message?.interactive?.type === 'list_reply') {
-					return message?.interactive?.list_reply?.title;
-				}
-				if (message?.interactive?.type === 'flow') {
-					return '[Flow Response]';
-				}
-				return undefined;
-			case 'image':
-				return message?.image?.caption || '[Image]';
-			case 'video':
-				return message?.video?.caption || '[Video]';
-			case 'audio':
-				return '[Audio]';
-			case 'document':
-				return (
-					message?.document?.caption ||
-					message?.document?.filename ||
-					'[Document]'
-				);
-			case 'location':
-				return `[Location: ${message?.location?.latitude}, ${message?.location?.longitude}]`;
-			default:
-				return `[${messageType || 'unknown'}]`;
+		if (!handledByJourney && (text || buttonId)) {
+			const intent = await ChatbotIntentRouter.match({ text, buttonId });
+			if (intent) {
+				await this.handleIntent(intent, phoneNumber, customerWaId);
+			} else if (text) {
+				await this.handleUnmatchedText(phoneNumber, customerWaId);
+			}
+		}
+
+		// Handle order events from catalog
+		if (messageType === 'order') {
+			await this.handleOrderEvent(message, phoneNumber, customerWaId);
 		}
+
+		const messageContent = parseMessageContent(message).body;
+
+		logger.info('Message content extracted', {
+			from: phoneNumber,
+			messageId: message?.id,
+			content: messageContent,
+			type: messageType,
+		});
 	}
 
 	/**
@@ -551,6 +590,80 @@ export class WebhookWebService {
 				waId,
 				messageId: message?.id,
 			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Run the action configured for a matched chatbot intent
+	 */
+	private async handleIntent(
+		intent: ChatbotIntentRoute,
+		phoneNumber: string,
+		waId: string,
+	): Promise<void> {
+		logger.info('Chatbot intent matched', {
+			phoneNumber,
+			intent: intent.name,
+			action: intent.action,
+		});
+
+		switch (intent.action) {
+			case 'menu':
+				await this.handleMenuRequest(phoneNumber);
+				break;
+			case 'add_points':
+				await this.handleAddPointsRequest(phoneNumber, waId);
+				break;
+			case 'catalog':
+				await this.handleCatalogRequest(phoneNumber, waId);
+				break;
+			case 'balance':
+				await this.handleBalanceRequest(phoneNumber, waId);
+				break;
+			case 'try_wig':
+				await this.handleTryWigsRequest(phoneNumber, waId);
+				break;
+			case 'start_journey':
+				await journeyEngine.start(intent.journey, {
+					waId,
+					phoneNumber,
+				});
+				break;
+			case 'reply_text':
+				await this.handleTextReply(
+					phoneNumber,
+					intent.responseText || env.CHATBOT_FALLBACK_MESSAGE,
+				);
+				break;
+		}
+	}
+
+	/**
+	 * Tell the customer we did not understand and point them to the menu
+	 */
+	private async handleUnmatchedText(
+		phoneNumber: string,
+		waId: string,
+	): Promise<void> {
+		logger.info('No chatbot intent matched', { phoneNumber, waId });
+		await this.handleTextReply(phoneNumber, env.CHATBOT_FALLBACK_MESSAGE);
+	}
+
+	/**
+	 * Send a plain text reply
+	 */
+	private async handleTextReply(
+		phoneNumber: string,
+		body: string,
+	): Promise<void> {
+		try {
+			await this.customerService.sendTextMessage(phoneNumber, body);
+		} catch (error) {
+			logger.error('Error sending text reply', {
+				error,
+				phoneNumber,
+			});
 		}
 	}
 
@@ -709,7 +822,7 @@ export class WebhookWebService {
 		waId?: string,
 	): Promise<void> {
 		try {
-			logger.info("Order event received from catalog", {
+			logger.info('Order event received from catalog', {
 				phoneNumber,
 				waId,
 				messageId: message?.id,
@@ -718,7 +831,7 @@ export class WebhookWebService {
 
 			const order = message?.order;
 			if (!order) {
-				logger.warn("Order event received but no order data found", {
+				logger.warn('Order event received but no order data found', {
 					phoneNumber,
 					messageId: message?.id,
 				});
@@ -737,14 +850,16 @@ export class WebhookWebService {
 				totalAmount += itemPrice * quantity;
 			}
 
-			const currency = productsList[0]?.currency || "NGN";
+			const currency = productsList[0]?.currency || 'NGN';
 			const formattedTotal = `${totalAmount} ${currency}`;
 
 			const customerName =
-				(await this.customerService.getCustomerName(phoneNumber, waId)) ||
-				"Customer";
+				(await this.customerService.getCustomerName(
+					phoneNumber,
+					waId,
+				)) || 'Customer';
 
-			logger.info("Order details", {
+			logger.info('Order details', {
 				products: order?.products,
 				productItems: order?.product_items,
 				itemsCount,
@@ -756,6 +871,22 @@ export class WebhookWebService {
 				orderId: message?.order?.id,
 			});
 
+			const orderNo = order?.id || `ORD-${message?.id}`;
+			const [existingOrder] = await db
+				.select({ id: orders.id })
+				.from(orders)
+				.where(eq(orders.orderNo, orderNo))
+				.limit(1);
+
+			if (existingOrder) {
+				logger.info('Order already recorded, skipping', {
+					orderNo,
+					orderId: existingOrder.id,
+					messageId: message?.id,
+				});
+				return;
+			}
+
 			// ================================================================
 			// 🔥 1) STOCK VALIDATION BEFORE ORDER INSERTION
 			// ================================================================
@@ -765,25 +896,18 @@ export class WebhookWebService {
 
 			if (skus.length === 0) {
 				throw new AppError(
-					"No valid product Retailer ID found in the incoming order",
-					StatusCodes.BAD_REQUEST
+					'No valid product Retailer ID found in the incoming order',
+					StatusCodes.BAD_REQUEST,
 				);
 			}
 
-			// Fetch products from DB
-			const dbProducts = await db
-				.select({
-					id: products.id,
-					contentId: products.contentId,
-					qty: products.qty,
-					productName: products.productName,
-				})
-				.from(products)
-				.where(inArray(products.contentId, skus));
-
-			const contentIdToProductMap = new Map(
-				dbProducts.map((p) => [p.contentId, p])
-			);
+			// Retailer ids are either a product's contentId or a variant's
+			// retailerId
+			const contentIdToProductMap =
+				await productVariantService.resolveRetailerIds(skus);
+
+			// Catalog availability comes from the local mirror in one lookup
+			const catalog = await catalogMirrorService.getAvailability(skus);
 
 			// Loop through each ordered product
 			for (const item of productsList) {
@@ -796,31 +920,35 @@ export class WebhookWebService {
 				if (!dbProduct) {
 					throw new AppError(
 						`Product with contentId/SKU ${contentId} not found in DB`,
-						StatusCodes.NOT_FOUND
+						StatusCodes.NOT_FOUND,
 					);
 				}
 
-				if (!dbProduct.qty || dbProduct.qty < qtyRequired) {
+				// Stock held by other unpaid orders is not available
+				const available = dbProduct.isActive
+					? dbProduct.qty - dbProduct.reservedQty
+					: 0;
+				if (available < qtyRequired) {
 					throw new AppError(
-						`Product ${dbProduct.productName} does not have enough DB stock`,
-						StatusCodes.BAD_REQUEST
+						`Product ${dbProduct.name} does not have enough DB stock`,
+						StatusCodes.BAD_REQUEST,
 					);
 				}
 
 				// --- FACEBOOK STOCK CHECK ---
-				const fbInfo = await fbCheckStock(contentId);
+				const fbInfo = catalog.get(contentId);
 
-				if (!fbInfo.exists) {
+				if (!fbInfo?.exists) {
 					throw new AppError(
-						`Product ${dbProduct.productName} not found in Facebook catalog`,
-						StatusCodes.BAD_REQUEST
+						`Product ${dbProduct.name} not found in Facebook catalog`,
+						StatusCodes.BAD_REQUEST,
 					);
 				}
 
-				if (fbInfo.availability === "out of stock") {
+				if (fbInfo.availability === 'out of stock') {
 					throw new AppError(
-						`Product ${dbProduct.productName} is out of stock on Facebook`,
-						StatusCodes.BAD_REQUEST
+						`Product ${dbProduct.name} is out of stock on Facebook`,
+						StatusCodes.BAD_REQUEST,
 					);
 				}
 			}
@@ -835,13 +963,13 @@ export class WebhookWebService {
 				await db.transaction(async (tx) => {
 					const customer =
 						await this.customerService.findCustomerByPhone(
-							phoneNumber
+							phoneNumber,
 						);
 
 					if (!customer) {
 						throw new AppError(
 							`Customer not found for phone number: ${phoneNumber}`,
-							StatusCodes.NOT_FOUND
+							StatusCodes.NOT_FOUND,
 						);
 					}
 
@@ -849,11 +977,10 @@ export class WebhookWebService {
 						.insert(orders)
 						.values({
 							customerID: customer.id,
-							orderNo:
-								message?.order?.id || `ORD-${Date.now()}`,
+							orderNo,
 							orderName: message?.order?.id,
-							status: "new",
-							paymentType: "WhatsApp",
+							status: 'pending_payment',
+							paymentType: 'WhatsApp',
 							metadata: {
 								itemsCount,
 								totalAmount,
@@ -869,8 +996,13 @@ export class WebhookWebService {
 						.returning();
 
 					newOrder = insertedOrder;
+					await orderLifecycleService.recordInitialStatus(
+						insertedOrder,
+						undefined,
+						tx,
+					);
 
-					logger.info("Order inserted successfully", {
+					logger.info('Order inserted successfully', {
 						orderId: newOrder.id,
 						orderNo: newOrder.orderNo,
 						customerID: newOrder.customerID,
@@ -882,33 +1014,44 @@ export class WebhookWebService {
 							(p) =>
 								p?.product_retailer_id &&
 								contentIdToProductMap.has(
-									p.product_retailer_id
-								)
+									p.product_retailer_id,
+								),
 						)
-						.map((p) => ({
-							orderID: newOrder.id,
-							productID: contentIdToProductMap.get(
-								p.product_retailer_id
-							)!.id,
-							qty: parseInt(p?.quantity || 1, 10),
-							status: "new" as const,
-						}));
+						.map((p) => {
+							const resolved = contentIdToProductMap.get(
+								p.product_retailer_id,
+							)!;
+							return {
+								orderID: newOrder.id,
+								productID: resolved.productID,
+								variantID: resolved.variantID,
+								qty: parseInt(p?.quantity || 1, 10),
+								status: 'new' as const,
+							};
+						});
 
 					if (orderItemsData.length > 0) {
 						await tx.insert(orderItems).values(orderItemsData);
 
-						logger.info("Bulk order-product mapping inserted", {
+						logger.info('Bulk order-product mapping inserted', {
 							orderId: newOrder.id,
 							itemCount: orderItemsData.length,
 						});
 					}
+
+					// Hold the stock until the order is paid or the hold expires
+					await inventoryReservationService.reserveForOrder(
+						newOrder.id,
+						orderItemsData,
+						tx,
+					);
 				});
 
-				logger.info("Order saved successfully", {
+				logger.info('Order saved successfully', {
 					orderId: newOrder?.id,
 				});
 			} catch (dbError) {
-				logger.error("Error inserting order & products", {
+				logger.error('Error inserting order & products', {
 					error: dbError,
 					messageId: message?.id,
 					orderId: message?.order?.id,
@@ -917,17 +1060,22 @@ export class WebhookWebService {
 			}
 
 			// ================================================================
-			// Send order confirmation to user
+			// Send the payment link; the order page is the fallback
 			// ================================================================
-			await this.customerService.sendOrderConfirmation(
-				phoneNumber,
-				customerName,
-				itemsCount,
-				formattedTotal,
-				newOrder?.id
+			const linkSent = await paymentLinkService.trySendForOrder(
+				newOrder?.id,
 			);
+			if (!linkSent) {
+				await this.customerService.sendOrderConfirmation(
+					phoneNumber,
+					customerName,
+					itemsCount,
+					formattedTotal,
+					newOrder?.id,
+				);
+			}
 
-			logger.info("Order confirmation sent", {
+			logger.info('Order confirmation sent', {
 				phoneNumber,
 				customerName,
 				itemsCount,
@@ -935,38 +1083,36 @@ export class WebhookWebService {
 				orderId: newOrder?.id,
 			});
 		} catch (error) {
-			logger.error("Error handling order event", {
+			logger.error('Error handling order event', {
 				error,
 				phoneNumber,
 				waId,
 				messageId: message?.id,
 			});
+			throw error;
 		}
 	}
 
-
 	/**
-	 * Process message status updates
+	 * Process a message status update
 	 */
-	private async processStatuses(statuses: any[]): Promise<void> {
-		for (const status of statuses) {
-			if (!status) continue;
+	private async processStatus(status: any): Promise<void> {
+		logger.info('Message status update', {
+			messageId: status?.id,
+			status: status?.status,
+			recipientId: status?.recipient_id,
+			timestamp: status?.timestamp,
+		});
 
-			logger.info('Message status update', {
+		if (status?.status === 'failed' && status?.errors) {
+			logger.error('Message delivery failed', {
 				messageId: status?.id,
-				status: status?.status,
 				recipientId: status?.recipient_id,
-				timestamp: status?.timestamp,
+				errors: status?.errors,
 			});
-
-			if (status?.status === 'failed' && status?.errors) {
-				logger.error('Message delivery failed', {
-					messageId: status?.id,
-					recipientId: status?.recipient_id,
-					errors: status?.errors,
-				});
-			}
 		}
+
+		await messageLogService.applyStatusUpdate(status);
 	}
 
 	async fetchAllTemplates() {
@@ -1015,6 +1161,8 @@ export class WebhookWebService {
 		userIdentifier: string,
 		productID: string,
 		resolvedUserId: string,
+		// Ties the points to an order so a refund can take them back
+		orderNo?: string,
 	) {
 		try {
 			const isUUID = /^[0-9a-fA-F-]{36}$/.test(userIdentifier);
@@ -1071,6 +1219,7 @@ export class WebhookWebService {
 						totalPoint: newBalance,
 						description: `Earned ${productPoints} points for purchasing ${product.productName}`,
 						type: 'EARN',
+						orderNo,
 						metadata: {
 							productID,
 							productName: product.productName,
@@ -1,7 +1,48 @@
+import { createHash } from 'node:crypto';
 import axios from 'axios';
+import {
+	extractWhatsAppError,
+	messageLogService,
+} from '../conversations/messageLog.service';
+import { webhookJobEffectService } from '../webhookJobs/webhookJobEffects.service';
 import env from '@/env';
 import logger from '@/lib/logger';
 
+export type WhatsAppMediaType = 'image' | 'video' | 'audio' | 'document';
+
+export interface WhatsAppMediaInput {
+	type: WhatsAppMediaType;
+	link: string;
+	caption?: string;
+	filename?: string;
+}
+
+export interface WhatsAppTemplateInput {
+	name: string;
+	languageCode?: string;
+	components?: Record<string, unknown>[];
+}
+
+export interface WhatsAppReplyButton {
+	id: string;
+	title: string;
+}
+
+export interface PaymentLinkMessageInput {
+	customerName: string;
+	orderNo: string;
+	// Already formatted with the currency
+	totalAmount: string;
+	url: string;
+	expiresAt: Date;
+	reminder?: boolean;
+}
+
+export interface SendOptions {
+	// Staff user who sent the message (agent replies)
+	sentBy?: string;
+}
+
 export class WhatsAppMessageService {
 	private readonly apiUrl: string;
 	private readonly phoneNumberId: string;
@@ -15,6 +56,275 @@ export class WhatsAppMessageService {
 		this.apiUrl = `https://graph.facebook.com/${this.apiVersion}/${this.phoneNumberId}/messages`;
 	}
 
+	/**
+	 * Post a message payload to the Cloud API and return the WhatsApp message id.
+	 * Every send is recorded in `messages` so status callbacks can track delivery.
+	 * Inside a webhook job, a retry does not send the same message again.
+	 */
+	private async dispatch(
+		payload: Record<string, any>,
+		options: SendOptions = {},
+	): Promise<string> {
+		const to: string = payload.to;
+		const payloadHash = createHash('sha256')
+			.update(JSON.stringify(payload))
+			.digest('hex')
+			.slice(0, 16);
+		try {
+			const messageId = await webhookJobEffectService.once(
+				`send:${to}:${payloadHash}`,
+				async () => {
+					const response = await axios.post(this.apiUrl, payload, {
+						headers: {
+							Authorization: `Bearer ${this.accessToken}`,
+							'Content-Type': 'application/json',
+						},
+					});
+					return response.data?.messages?.[0]?.id as string;
+				},
+			);
+
+			await messageLogService.recordOutboundMessage({
+				to,
+				payload,
+				waMessageId: messageId,
+				sentBy: options.sentBy,
+			});
+
+			return messageId;
+		} catch (error) {
+			await messageLogService.recordOutboundMessage({
+				to,
+				payload,
+				sentBy: options.sentBy,
+				error: extractWhatsAppError(error),
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Send a free-form text message (only allowed inside the 24-hour window)
+	 */
+	public async sendText(
+		to: string,
+		body: string,
+		options?: SendOptions,
+	): Promise<string> {
+		try {
+			const messageId = await this.dispatch(
+				{
+					messaging_product: 'whatsapp',
+					recipient_type: 'individual',
+					to,
+					type: 'text',
+					text: { preview_url: true, body },
+				},
+				options,
+			);
+
+			logger.info('Text message sent successfully', { to, messageId });
+			return messageId;
+		} catch (error) {
+			logger.error('Failed to send text message', {
+				error: error instanceof Error ? error.message : error,
+				errorResponse: (error as any)?.response?.data,
+				to,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Send a media message by public link (only allowed inside the 24-hour window)
+	 */
+	public async sendMedia(
+		to: string,
+		media: WhatsAppMediaInput,
+		options?: SendOptions,
+	): Promise<string> {
+		try {
+			const mediaObject: Record<string, string> = { link: media.link };
+			if (media.caption && media.type !== 'audio') {
+				mediaObject.caption = media.caption;
+			}
+			if (media.filename && media.type === 'document') {
+				mediaObject.filename = media.filename;
+			}
+
+			const messageId = await this.dispatch(
+				{
+					messaging_product: 'whatsapp',
+					recipient_type: 'individual',
+					to,
+					type: media.type,
+					[media.type]: mediaObject,
+				},
+				options,
+			);
+
+			logger.info('Media message sent successfully', {
+				to,
+				type: media.type,
+				messageId,
+			});
+			return messageId;
+		} catch (error) {
+			logger.error('Failed to send media message', {
+				error: error instanceof Error ? error.message : error,
+				errorResponse: (error as any)?.response?.data,
+				to,
+				type: media.type,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Send an approved template message (allowed outside the 24-hour window)
+	 */
+	public async sendTemplate(
+		to: string,
+		template: WhatsAppTemplateInput,
+		options?: SendOptions,
+	): Promise<string> {
+		try {
+			const messageId = await this.dispatch(
+				{
+					messaging_product: 'whatsapp',
+					to,
+					type: 'template',
+					template: {
+						name: template.name,
+						language: { code: template.languageCode || 'en' },
+						...(template.components?.length
+							? { components: template.components }
+							: {}),
+					},
+				},
+				options,
+			);
+
+			logger.info('Template message sent successfully', {
+				to,
+				templateName: template.name,
+				messageId,
+			});
+			return messageId;
+		} catch (error) {
+			logger.error('Failed to send template message', {
+				error: error instanceof Error ? error.message : error,
+				errorResponse: (error as any)?.response?.data,
+				to,
+				templateName: template.name,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Send a text body with up to three quick-reply buttons
+	 */
+	public async sendButtons(
+		to: string,
+		body: string,
+		buttons: WhatsAppReplyButton[],
+	): Promise<string> {
+		try {
+			const messageId = await this.dispatch({
+				messaging_product: 'whatsapp',
+				recipient_type: 'individual',
+				to,
+				type: 'interactive',
+				interactive: {
+					type: 'button',
+					body: { text: body },
+					action: {
+						buttons: buttons.slice(0, 3).map((button) => ({
+							type: 'reply',
+							reply: { id: button.id, title: button.title },
+						})),
+					},
+				},
+			});
+
+			logger.info('Button message sent successfully', { to, messageId });
+			return messageId;
+		} catch (error) {
+			logger.error('Failed to send button message', {
+				error: error instanceof Error ? error.message : error,
+				errorResponse: (error as any)?.response?.data,
+				to,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Mark an inbound message as read (shows blue ticks to the customer)
+	 */
+	public async markMessageAsRead(messageId: string): Promise<void> {
+		try {
+			await axios.post(
+				this.apiUrl,
+				{
+					messaging_product: 'whatsapp',
+					status: 'read',
+					message_id: messageId,
+				},
+				{
+					headers: {
+						Authorization: `Bearer ${this.accessToken}`,
+						'Content-Type': 'application/json',
+					},
+				},
+			);
+		} catch (error) {
+			logger.error('Failed to mark message as read', {
+				error: error instanceof Error ? error.message : error,
+				errorResponse: (error as any)?.response?.data,
+				messageId,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Download media sent by a customer (resolves the media id to a
+	 * temporary URL, then streams the file)
+	 */
+	public async downloadMedia(mediaId: string): Promise<{
+		stream: NodeJS.ReadableStream;
+		mimeType?: string;
+		fileSize?: number;
+	}> {
+		try {
+			const headers = { Authorization: `Bearer ${this.accessToken}` };
+			const { data: media } = await axios.get(
+				`https://graph.facebook.com/${this.apiVersion}/${mediaId}`,
+				{ headers },
+			);
+
+			const response = await axios.get(media.url, {
+				headers,
+				responseType: 'stream',
+			});
+
+			return {
+				stream: response.data,
+				mimeType: media.mime_type,
+				fileSize: media.file_size,
+			};
+		} catch (error) {
+			logger.error('Failed to download WhatsApp media', {
+				error: error instanceof Error ? error.message : error,
+				errorResponse: (error as any)?.response?.data,
+				mediaId,
+			});
+			throw error;
+		}
+	}
+
 	/**
 	 * Send enrollment confirmation message to customer
 	 * @param to - Recipient phone number
@@ -64,18 +374,13 @@ export class WhatsAppMessageService {
 				},
 			};
 
-			const response = await axios.post(this.apiUrl, payload, {
-				headers: {
-					Authorization: `Bearer ${this.accessToken}`,
-					'Content-Type': 'application/json',
-				},
-			});
+			const messageId = await this.dispatch(payload);
 
 			logger.info('Enrollment confirmation message sent successfully', {
 				to,
 				customerName,
 				templateName: finalTemplateName,
-				messageId: response.data?.messages?.[0]?.id,
+				messageId,
 			});
 		} catch (error) {
 			// Log error but don't throw - message sending failure shouldn't break customer creation
@@ -147,16 +452,11 @@ export class WhatsAppMessageService {
 				},
 			};
 
-			const response = await axios.post(this.apiUrl, payload, {
-				headers: {
-					Authorization: `Bearer ${this.accessToken}`,
-					'Content-Type': 'application/json',
-				},
-			});
+			const messageId = await this.dispatch(payload);
 
 			logger.info('Interactive menu message sent successfully', {
 				to,
-				messageId: response.data?.messages?.[0]?.id,
+				messageId,
 			});
 		} catch (error) {
 			logger.error('Failed to send interactive menu message', {
@@ -206,18 +506,13 @@ export class WhatsAppMessageService {
 				},
 			};
 
-			const response = await axios.post(this.apiUrl, payload, {
-				headers: {
-					Authorization: `Bearer ${this.accessToken}`,
-					'Content-Type': 'application/json',
-				},
-			});
+			const messageId = await this.dispatch(payload);
 
 			logger.info('Add Points CTA message sent successfully', {
 				to,
 				ctaUrl,
 				userId,
-				messageId: response.data?.messages?.[0]?.id,
+				messageId,
 			});
 		} catch (error) {
 			logger.error('Failed to send Add Points CTA message', {
@@ -268,18 +563,13 @@ export class WhatsAppMessageService {
 				},
 			};
 
-			const response = await axios.post(this.apiUrl, payload, {
-				headers: {
-					Authorization: `Bearer ${this.accessToken}`,
-					'Content-Type': 'application/json',
-				},
-			});
+			const messageId = await this.dispatch(payload);
 
 			logger.info('Try Wigs CTA message sent successfully', {
 				to,
 				ctaUrl,
 				userId,
-				messageId: response.data?.messages?.[0]?.id,
+				messageId,
 			});
 		} catch (error) {
 			logger.error('Failed to send Try Wigs CTA message', {
@@ -328,18 +618,13 @@ export class WhatsAppMessageService {
 				},
 			};
 
-			const response = await axios.post(this.apiUrl, payload, {
-				headers: {
-					Authorization: `Bearer ${this.accessToken}`,
-					'Content-Type': 'application/json',
-				},
-			});
+			const messageId = await this.dispatch(payload);
 
 			logger.info('Catalog message sent successfully', {
 				to,
 				customerName,
 				templateName,
-				messageId: response.data?.messages?.[0]?.id,
+				messageId,
 			});
 		} catch (error) {
 			logger.error('Failed to send catalog message', {
@@ -395,12 +680,7 @@ export class WhatsAppMessageService {
 				},
 			};
 
-			const response = await axios.post(this.apiUrl, payload, {
-				headers: {
-					Authorization: `Bearer ${this.accessToken}`,
-					'Content-Type': 'application/json',
-				},
-			});
+			const messageId = await this.dispatch(payload);
 
 			logger.info('Order confirmation message sent successfully', {
 				to,
@@ -408,7 +688,7 @@ export class WhatsAppMessageService {
 				itemsCount,
 				totalAmount,
 				ctaUrl,
-				messageId: response.data?.messages?.[0]?.id,
+				messageId,
 			});
 		} catch (error) {
 			logger.error('Failed to send order confirmation message', {
@@ -421,6 +701,95 @@ export class WhatsAppMessageService {
 		}
 	}
 
+	/**
+	 * Send the Stripe Checkout link for an unpaid order as a CTA URL
+	 * message. Reminders use the same link with a nudge instead of the order
+	 * summary.
+	 */
+	public async sendPaymentLink(
+		to: string,
+		{
+			customerName,
+			orderNo,
+			totalAmount,
+			url,
+			expiresAt,
+			reminder = false,
+		}: PaymentLinkMessageInput,
+	): Promise<string> {
+		try {
+			const hoursLeft = Math.max(
+				1,
+				Math.round((expiresAt.getTime() - Date.now()) / 3_600_000),
+			);
+			const expiry = `⏳ This link expires in about *${hoursLeft} hour${hoursLeft === 1 ? '' : 's'}*.`;
+
+			const headerText = reminder
+				? '⏰ Your Order Is Waiting'
+				: '💳 Complete Your Payment';
+			const bodyText = reminder
+				? `Hey ${customerName} 🌸
+Just a reminder that order *${orderNo}* (💰 *${totalAmount}*) is still waiting for payment.
+
+${expiry} After that we release the items for other customers. 💖`
+				: `Hey ${customerName} 🌸
+Thank you for your order! ✨
+
+🛍️ *Order:* ${orderNo}
+💰 *Total:* ${totalAmount}
+
+Tap the button below to pay securely by card. ${expiry}
+
+Once the payment is confirmed, we'll begin preparing your order for dispatch right away! 🚚`;
+			const footerText = '🌼 Secure payment by Stripe';
+			const displayText = 'Pay Now';
+
+			const payload = {
+				messaging_product: 'whatsapp',
+				to,
+				type: 'interactive',
+				interactive: {
+					type: 'cta_url',
+					header: {
+						type: 'text',
+						text: headerText,
+					},
+					body: {
+						text: bodyText,
+					},
+					footer: {
+						text: footerText,
+					},
+					action: {
+						name: 'cta_url',
+						parameters: {
+							display_text: displayText,
+							url,
+						},
+					},
+				},
+			};
+
+			const messageId = await this.dispatch(payload);
+
+			logger.info('Payment link message sent successfully', {
+				to,
+				orderNo,
+				reminder,
+				messageId,
+			});
+			return messageId;
+		} catch (error) {
+			logger.error('Failed to send payment link message', {
+				error: error instanceof Error ? error.message : error,
+				errorResponse: (error as any)?.response?.data,
+				to,
+				orderNo,
+			});
+			throw error;
+		}
+	}
+
 	/**
 	 * Send balance message showing loyalty points
 	 */
@@ -466,17 +835,12 @@ export class WhatsAppMessageService {
 				},
 			};
 
-			const response = await axios.post(this.apiUrl, payload, {
-				headers: {
-					Authorization: `Bearer ${this.accessToken}`,
-					'Content-Type': 'application/json',
-				},
-			});
+			const messageId = await this.dispatch(payload);
 
 			logger.info('Balance message sent successfully', {
 				to,
 				pointsBalance,
-				messageId: response.data?.messages?.[0]?.id,
+				messageId,
 			});
 		} catch (error) {
 			logger.error('Failed to send balance message', {
@@ -535,19 +899,14 @@ export class WhatsAppMessageService {
 				},
 			};
 
-			const response = await axios.post(this.apiUrl, payload, {
-				headers: {
-					Authorization: `Bearer ${this.accessToken}`,
-					'Content-Type': 'application/json',
-				},
-			});
+			const messageId = await this.dispatch(payload);
 
 			logger.info('Points earned message sent successfully', {
 				to,
 				pointsAdded,
 				newBalance,
 				customerName,
-				messageId: response.data?.messages?.[0]?.id,
+				messageId,
 			});
 		} catch (error) {
 			logger.error('Failed to send points earned message', {
@@ -601,18 +960,13 @@ export class WhatsAppMessageService {
 				},
 			};
 
-			const response = await axios.post(this.apiUrl, payload, {
-				headers: {
-					Authorization: `Bearer ${this.accessToken}`,
-					'Content-Type': 'application/json',
-				},
-			});
+			const messageId = await this.dispatch(payload);
 
 			logger.info('Product message sent successfully', {
 				to,
 				productRetailerId,
 				catalogId: finalCatalogId,
-				messageId: response.data?.messages?.[0]?.id,
+				messageId,
 			});
 		} catch (error) {
 			logger.error('Failed to send product message', {
@@ -667,17 +1021,12 @@ export class WhatsAppMessageService {
 				},
 			};
 
-			const response = await axios.post(this.apiUrl, payload, {
-				headers: {
-					Authorization: `Bearer ${this.accessToken}`,
-					'Content-Type': 'application/json',
-				},
-			});
+			const messageId = await this.dispatch(payload);
 
 			logger.info('Payment confirmation message sent successfully', {
 				to,
 				orderNo,
-				messageId: response.data?.messages?.[0]?.id,
+				messageId,
 			});
 		} catch (error) {
 			logger.error('Failed to send payment confirmation message', {
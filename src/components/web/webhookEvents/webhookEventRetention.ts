@@ -0,0 +1,32 @@
+import { webhookEventService } from './webhookEvents.service';
+import { webhookJobService } from '@/components/web/webhookJobs/webhookJobs.service';
+import logger from '@/lib/logger';
+
+export class WebhookEventRetention {
+	private static intervalId: NodeJS.Timeout;
+
+	private static async purge() {
+		try {
+			const purged = await webhookEventService.purgeExpired();
+			const purgedJobs = await webhookJobService.purgeCompleted();
+			if (purged > 0 || purgedJobs > 0) {
+				logger.info(
+					`[WebhookEventRetention] Purged ${purged} processed webhook events and ${purgedJobs} completed jobs`,
+				);
+			}
+		} catch (err) {
+			logger.error('Webhook event purge failed', err);
+		}
+	}
+
+	static init(intervalMs: number = 60 * 60 * 1000) {
+		this.purge();
+		this.intervalId = setInterval(() => this.purge(), intervalMs);
+		logger.info('[WebhookEventRetention] Interval started');
+	}
+
+	static stopIt() {
+		if (this.intervalId) clearInterval(this.intervalId);
+		logger.info('[WebhookEventRetention] Interval stopped');
+	}
+}
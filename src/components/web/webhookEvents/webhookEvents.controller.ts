@@ -0,0 +1,24 @@
+import { Request, Response, Router } from 'express';
+import { WebhookEventListQueryParser } from './webhookEvents.parser';
+import { webhookEventService } from './webhookEvents.service';
+import BaseApi from '@/components/BaseApi';
+
+export default class WebhookEventController extends BaseApi {
+	constructor() {
+		super();
+	}
+
+	public register(): Router {
+		this.router.get('/', this.getEvents.bind(this));
+
+		return this.router;
+	}
+
+	public async getEvents(req: Request, res: Response) {
+		const query = WebhookEventListQueryParser.parse(req.query);
+		const { data, message } = await webhookEventService.listEvents(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+}
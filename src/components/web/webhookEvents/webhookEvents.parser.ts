@@ -0,0 +1,8 @@
+import { z } from 'zod/v4';
+
+export const WebhookEventListQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+	eventType: z.enum(['message', 'status']).optional(),
+	waId: z.string().trim().min(1).optional(),
+});
@@ -0,0 +1,122 @@
+import { and, count, desc, eq, lt } from 'drizzle-orm';
+import { StatusCodes } from 'http-status-codes';
+import { db } from '@/database';
+import {
+	InsertProcessedWebhookEvent,
+	processedWebhookEvents,
+} from '@/database/schema';
+import { DbOrTx } from '@/database/transactionType/transactionType';
+import env from '@/env';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+interface ListWebhookEventsInput {
+	page: number;
+	limit: number;
+	eventType?: 'message' | 'status';
+	waId?: string;
+}
+
+/**
+ * Build the dedup key for a webhook event. Statuses are keyed per status so
+ * sent → delivered → read are each processed once.
+ */
+export function getWebhookEventKey(
+	eventType: 'message' | 'status',
+	waMessageId: string,
+	subType?: string,
+): string {
+	return eventType === 'status'
+		? `status:${waMessageId}:${subType}`
+		: `message:${waMessageId}`;
+}
+
+export const webhookEventService = {
+	/**
+	 * Record an event as processed. Returns false when it was already seen,
+	 * so Meta's retried deliveries are skipped.
+	 */
+	async claimEvent(
+		event: Omit<InsertProcessedWebhookEvent, 'eventKey'> & {
+			waMessageId: string;
+		},
+		txOrDb: DbOrTx = db,
+	): Promise<boolean> {
+		const eventKey = getWebhookEventKey(
+			event.eventType,
+			event.waMessageId,
+			event.subType ?? undefined,
+		);
+
+		const [claimed] = await txOrDb
+			.insert(processedWebhookEvents)
+			.values({ ...event, eventKey })
+			.onConflictDoNothing({ target: processedWebhookEvents.eventKey })
+			.returning({ id: processedWebhookEvents.id });
+
+		return !!claimed;
+	},
+
+	/**
+	 * Drop processed events older than the retention window
+	 */
+	async purgeExpired(
+		retentionHours: number = env.WEBHOOK_EVENT_RETENTION_HOURS,
+	): Promise<number> {
+		const cutoff = new Date(Date.now() - retentionHours * 60 * 60 * 1000);
+		const deleted = await db
+			.delete(processedWebhookEvents)
+			.where(lt(processedWebhookEvents.processedAt, cutoff))
+			.returning({ id: processedWebhookEvents.id });
+
+		return deleted.length;
+	},
+
+	/**
+	 * List recently processed events, newest first
+	 */
+	async listEvents({ page, limit, eventType, waId }: ListWebhookEventsInput) {
+		try {
+			const filters = [];
+			if (eventType) {
+				filters.push(eq(processedWebhookEvents.eventType, eventType));
+			}
+			if (waId) filters.push(eq(processedWebhookEvents.waId, waId));
+			const where = filters.length ? and(...filters) : undefined;
+
+			const events = await db
+				.select()
+				.from(processedWebhookEvents)
+				.where(where)
+				.orderBy(desc(processedWebhookEvents.processedAt))
+				.limit(limit)
+				.offset((page - 1) * limit);
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(processedWebhookEvents)
+				.where(where);
+
+			return {
+				data: {
+					events,
+					retentionHours: env.WEBHOOK_EVENT_RETENTION_HOURS,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Webhook events fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch webhook events',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listWebhookEvents',
+				{ page, limit, eventType, waId },
+			);
+		}
+	},
+};
@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/database';
+import { webhookJobEffects } from '@/database/schema';
+
+interface JobEffectScope {
+	jobId: string;
+	// How many times each effect name has come up in this run, so the same
+	// effect done twice by one job gets two keys
+	seen: Map<string, number>;
+}
+
+const jobEffectScope = new AsyncLocalStorage<JobEffectScope>();
+
+export const webhookJobEffectService = {
+	/**
+	 * Run a job with its side effects recorded, so that once() inside it
+	 * skips what an earlier attempt of the same job already did
+	 */
+	async run<T>(jobId: string, fn: () => Promise<T>): Promise<T> {
+		return jobEffectScope.run({ jobId, seen: new Map() }, fn);
+	},
+
+	/**
+	 * Carry out a side effect once per job. On a retry the effect is skipped
+	 * and its recorded result returned instead. Outside a job it just runs.
+	 * Names must be stable between attempts (no timestamps or random ids).
+	 */
+	async once<T>(name: string, fn: () => Promise<T>): Promise<T> {
+		const scope = jobEffectScope.getStore();
+		if (!scope) return fn();
+
+		const occurrence = scope.seen.get(name) ?? 0;
+		scope.seen.set(name, occurrence + 1);
+		const effectKey = `${name}#${occurrence}`.slice(0, 255);
+
+		const [done] = await db
+			.select({ result: webhookJobEffects.result })
+			.from(webhookJobEffects)
+			.where(
+				and(
+					eq(webhookJobEffects.jobID, scope.jobId),
+					eq(webhookJobEffects.effectKey, effectKey),
+				),
+			)
+			.limit(1);
+		if (done) return done.result as T;
+
+		const result = await fn();
+		await db
+			.insert(webhookJobEffects)
+			.values({
+				jobID: scope.jobId,
+				effectKey,
+				result: result ?? null,
+			})
+			.onConflictDoNothing();
+		return result;
+	},
+};
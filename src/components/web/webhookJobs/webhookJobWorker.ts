@@ -0,0 +1,75 @@
+import { webhookJobEffectService } from './webhookJobEffects.service';
+import { webhookJobService } from './webhookJobs.service';
+import { WebhookWebService } from '@/components/web/webhook/webhook-web.service';
+import { SelectWebhookJob } from '@/database/schema';
+import env from '@/env';
+import logger from '@/lib/logger';
+
+export class WebhookJobWorker {
+	private static intervalId: NodeJS.Timeout;
+	private static running = false;
+	private static webhookService = new WebhookWebService();
+
+	private static async runJob(job: SelectWebhookJob) {
+		try {
+			// Effects done by an earlier attempt are skipped on a retry
+			await webhookJobEffectService.run(job.id, () =>
+				this.webhookService.processJob(job),
+			);
+			await webhookJobService.completeJob(job.id);
+		} catch (error) {
+			const outcome = await webhookJobService.failJob(job, error);
+			logger.error(`[WebhookJobWorker] Job failed (${outcome})`, {
+				jobId: job.id,
+				eventKey: job.eventKey,
+				attempts: job.attempts,
+				error: error instanceof Error ? error.message : error,
+			});
+		}
+	}
+
+	/**
+	 * Drain due jobs, WEBHOOK_WORKER_CONCURRENCY at a time
+	 */
+	private static async poll() {
+		if (this.running) return;
+		this.running = true;
+
+		try {
+			await webhookJobService.recoverStaleJobs();
+
+			let jobs = await webhookJobService.claimDueJobs(
+				env.WEBHOOK_WORKER_CONCURRENCY,
+			);
+			while (jobs.length > 0) {
+				await Promise.all(jobs.map((job) => this.runJob(job)));
+				jobs = await webhookJobService.claimDueJobs(
+					env.WEBHOOK_WORKER_CONCURRENCY,
+				);
+			}
+		} catch (err) {
+			logger.error('Webhook job polling failed', err);
+		} finally {
+			this.running = false;
+		}
+	}
+
+	/**
+	 * Poll right away instead of waiting for the next tick (called after a
+	 * webhook has been queued)
+	 */
+	static trigger() {
+		this.poll();
+	}
+
+	static init(intervalMs: number = 5 * 1000) {
+		this.poll();
+		this.intervalId = setInterval(() => this.poll(), intervalMs);
+		logger.info('[WebhookJobWorker] Interval started');
+	}
+
+	static stopIt() {
+		if (this.intervalId) clearInterval(this.intervalId);
+		logger.info('[WebhookJobWorker] Interval stopped');
+	}
+}
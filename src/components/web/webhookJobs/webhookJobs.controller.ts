@@ -0,0 +1,55 @@
+import { Request, Response, Router } from 'express';
+import { WebhookJobWorker } from './webhookJobWorker';
+import {
+	WebhookDeadLetterIdParamsParser,
+	WebhookDeadLetterListQueryParser,
+	WebhookJobListQueryParser,
+} from './webhookJobs.parser';
+import { webhookJobService } from './webhookJobs.service';
+import BaseApi from '@/components/BaseApi';
+
+export default class WebhookJobController extends BaseApi {
+	constructor() {
+		super();
+	}
+
+	public register(): Router {
+		this.router.get('/', this.getJobs.bind(this));
+		this.router.get('/dead-letters', this.getDeadLetters.bind(this));
+		this.router.post(
+			'/dead-letters/:id/replay',
+			this.replayDeadLetter.bind(this),
+		);
+
+		return this.router;
+	}
+
+	public async getJobs(req: Request, res: Response) {
+		const query = WebhookJobListQueryParser.parse(req.query);
+		const { data, message } = await webhookJobService.listJobs(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async getDeadLetters(req: Request, res: Response) {
+		const query = WebhookDeadLetterListQueryParser.parse(req.query);
+		const { data, message } =
+			await webhookJobService.listDeadLetters(query);
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+
+	public async replayDeadLetter(req: Request, res: Response) {
+		const { id } = WebhookDeadLetterIdParamsParser.parse(req.params);
+		const { data, message } = await webhookJobService.replayDeadLetter(
+			id,
+			req.user_details?.id,
+		);
+		WebhookJobWorker.trigger();
+
+		res.locals = { data, message };
+		super.send(res);
+	}
+}
@@ -0,0 +1,24 @@
+import { z } from 'zod/v4';
+import { Zerror } from '@/utils/validations';
+
+export const WebhookJobListQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+	status: z.enum(['pending', 'processing', 'completed', 'dead']).optional(),
+	eventType: z.enum(['message', 'status']).optional(),
+});
+
+export const WebhookDeadLetterListQueryParser = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+	replayed: z
+		.enum(['true', 'false'])
+		.transform((v) => v === 'true')
+		.optional(),
+});
+
+export const WebhookDeadLetterIdParamsParser = z.object({
+	id: z.uuid({
+		error: (issue) => Zerror(issue, 'Dead letter id', 'uuid'),
+	}),
+});
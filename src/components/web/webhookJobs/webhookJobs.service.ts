@@ -0,0 +1,425 @@
+import {
+	and,
+	count,
+	desc,
+	eq,
+	inArray,
+	isNull,
+	lt,
+	lte,
+	notExists,
+	or,
+	sql,
+} from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { StatusCodes } from 'http-status-codes';
+import AppError from '@/abstractions/AppError';
+import { db } from '@/database';
+import {
+	SelectWebhookJob,
+	webhookDeadLetters,
+	webhookJobs,
+} from '@/database/schema';
+import { DbOrTx } from '@/database/transactionType/transactionType';
+import env from '@/env';
+import { handleServiceError } from '@/utils/serviceErrorHandler';
+
+interface EnqueueJobInput {
+	eventKey: string;
+	eventType: 'message' | 'status';
+	payload: Record<string, unknown>;
+	// Set for messages, so one customer's messages are handled in order
+	waId?: string;
+}
+
+interface ListJobsInput {
+	page: number;
+	limit: number;
+	status?: SelectWebhookJob['status'];
+	eventType?: 'message' | 'status';
+}
+
+interface ListDeadLettersInput {
+	page: number;
+	limit: number;
+	replayed?: boolean;
+}
+
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+// A job locked longer than this is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, 4m ... capped at 1h
+ */
+export function getBackoffDelay(attempts: number): number {
+	return Math.min(
+		BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0),
+		MAX_BACKOFF_MS,
+	);
+}
+
+/**
+ * Client errors (bad payload, unknown customer, out of stock) will fail the
+ * same way on every attempt, so they go straight to the dead-letter table
+ */
+export function isRetryableError(error: unknown): boolean {
+	return !(error instanceof AppError && error.statusCode < 500);
+}
+
+export const webhookJobService = {
+	/**
+	 * Queue a webhook event for the worker. Returns false for an event that
+	 * is already queued.
+	 */
+	async enqueue(
+		{ eventKey, eventType, payload, waId }: EnqueueJobInput,
+		txOrDb: DbOrTx = db,
+	): Promise<boolean> {
+		const [job] = await txOrDb
+			.insert(webhookJobs)
+			.values({
+				eventKey,
+				eventType,
+				payload,
+				waId,
+				maxAttempts: env.WEBHOOK_JOB_MAX_ATTEMPTS,
+			})
+			.onConflictDoNothing({ target: webhookJobs.eventKey })
+			.returning({ id: webhookJobs.id });
+
+		return !!job;
+	},
+
+	/**
+	 * Lock up to `limit` due jobs for this worker. SKIP LOCKED lets several
+	 * app instances poll the same table without picking the same job. A
+	 * customer's message only comes due once every earlier one has finished
+	 * (or died), so their messages run one at a time and in arrival order,
+	 * even while an earlier one waits out a retry.
+	 */
+	async claimDueJobs(limit: number): Promise<SelectWebhookJob[]> {
+		const earlier = alias(webhookJobs, 'earlier');
+		const due = db
+			.select({ id: webhookJobs.id })
+			.from(webhookJobs)
+			.where(
+				and(
+					eq(webhookJobs.status, 'pending'),
+					lte(webhookJobs.nextRunAt, sql`now()`),
+					notExists(
+						db
+							.select({ id: earlier.id })
+							.from(earlier)
+							.where(
+								and(
+									eq(earlier.waId, webhookJobs.waId),
+									inArray(earlier.status, [
+										'pending',
+										'processing',
+									]),
+									or(
+										lt(
+											earlier.createdAt,
+											webhookJobs.createdAt,
+										),
+										and(
+											eq(
+												earlier.createdAt,
+												webhookJobs.createdAt,
+											),
+											lt(earlier.id, webhookJobs.id),
+										),
+									),
+								),
+							),
+					),
+				),
+			)
+			.orderBy(webhookJobs.nextRunAt)
+			.limit(limit)
+			.for('update', { skipLocked: true });
+
+		return db
+			.update(webhookJobs)
+			.set({
+				status: 'processing',
+				attempts: sql`${webhookJobs.attempts} + 1`,
+				lockedAt: new Date(),
+				updatedAt: new Date(),
+			})
+			.where(inArray(webhookJobs.id, due))
+			.returning();
+	},
+
+	async completeJob(jobId: string) {
+		const now = new Date();
+		await db
+			.update(webhookJobs)
+			.set({
+				status: 'completed',
+				completedAt: now,
+				lockedAt: null,
+				lastError: null,
+				updatedAt: now,
+			})
+			.where(eq(webhookJobs.id, jobId));
+	},
+
+	/**
+	 * Schedule a retry with exponential backoff, or move the job to the
+	 * dead-letter table once it is out of attempts
+	 */
+	async failJob(job: SelectWebhookJob, error: unknown) {
+		const message = error instanceof Error ? error.message : String(error);
+		const now = new Date();
+
+		if (job.attempts < job.maxAttempts && isRetryableError(error)) {
+			await db
+				.update(webhookJobs)
+				.set({
+					status: 'pending',
+					nextRunAt: new Date(
+						now.getTime() + getBackoffDelay(job.attempts),
+					),
+					lockedAt: null,
+					lastError: message,
+					updatedAt: now,
+				})
+				.where(eq(webhookJobs.id, job.id));
+			return 'retry' as const;
+		}
+
+		await db.transaction(async (tx) => {
+			await tx
+				.update(webhookJobs)
+				.set({
+					status: 'dead',
+					lockedAt: null,
+					lastError: message,
+					updatedAt: now,
+				})
+				.where(eq(webhookJobs.id, job.id));
+
+			await tx.insert(webhookDeadLetters).values({
+				jobID: job.id,
+				eventKey: job.eventKey,
+				eventType: job.eventType,
+				payload: job.payload,
+				attempts: job.attempts,
+				error: message,
+				failedAt: now,
+			});
+		});
+		return 'dead' as const;
+	},
+
+	/**
+	 * Release jobs left in `processing` by a worker that died mid-run
+	 */
+	async recoverStaleJobs(): Promise<number> {
+		const recovered = await db
+			.update(webhookJobs)
+			.set({ status: 'pending', lockedAt: null, updatedAt: new Date() })
+			.where(
+				and(
+					eq(webhookJobs.status, 'processing'),
+					lt(
+						webhookJobs.lockedAt,
+						new Date(Date.now() - STALE_LOCK_MS),
+					),
+				),
+			)
+			.returning({ id: webhookJobs.id });
+
+		return recovered.length;
+	},
+
+	/**
+	 * Drop completed jobs older than the webhook event retention window
+	 */
+	async purgeCompleted(
+		retentionHours: number = env.WEBHOOK_EVENT_RETENTION_HOURS,
+	): Promise<number> {
+		const cutoff = new Date(Date.now() - retentionHours * 60 * 60 * 1000);
+		const deleted = await db
+			.delete(webhookJobs)
+			.where(
+				and(
+					eq(webhookJobs.status, 'completed'),
+					lt(webhookJobs.completedAt, cutoff),
+				),
+			)
+			.returning({ id: webhookJobs.id });
+
+		return deleted.length;
+	},
+
+	/**
+	 * List queued jobs, newest first
+	 */
+	async listJobs({ page, limit, status, eventType }: ListJobsInput) {
+		try {
+			const filters = [];
+			if (status) filters.push(eq(webhookJobs.status, status));
+			if (eventType) filters.push(eq(webhookJobs.eventType, eventType));
+			const where = filters.length ? and(...filters) : undefined;
+
+			const jobs = await db
+				.select()
+				.from(webhookJobs)
+				.where(where)
+				.orderBy(desc(webhookJobs.createdAt))
+				.limit(limit)
+				.offset((page - 1) * limit);
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(webhookJobs)
+				.where(where);
+
+			return {
+				data: {
+					jobs,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Webhook jobs fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch webhook jobs',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listWebhookJobs',
+				{ page, limit, status, eventType },
+			);
+		}
+	},
+
+	/**
+	 * List dead-lettered jobs, most recent failure first
+	 */
+	async listDeadLetters({ page, limit, replayed }: ListDeadLettersInput) {
+		try {
+			const where =
+				replayed === undefined
+					? undefined
+					: replayed
+						? sql`${webhookDeadLetters.replayedAt} IS NOT NULL`
+						: isNull(webhookDeadLetters.replayedAt);
+
+			const deadLetters = await db
+				.select()
+				.from(webhookDeadLetters)
+				.where(where)
+				.orderBy(desc(webhookDeadLetters.failedAt))
+				.limit(limit)
+				.offset((page - 1) * limit);
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(webhookDeadLetters)
+				.where(where);
+
+			return {
+				data: {
+					deadLetters,
+					pagination: {
+						page,
+						limit,
+						total,
+						totalPages: Math.ceil(total / limit),
+					},
+				},
+				message: 'Dead-lettered webhook jobs fetched successfully',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to fetch dead-lettered webhook jobs',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'listWebhookDeadLetters',
+				{ page, limit, replayed },
+			);
+		}
+	},
+
+	/**
+	 * Put a dead-lettered job back on the queue with a fresh set of attempts
+	 */
+	async replayDeadLetter(deadLetterId: string, userId?: string) {
+		try {
+			const replayed = await db.transaction(async (tx) => {
+				const [deadLetter] = await tx
+					.select()
+					.from(webhookDeadLetters)
+					.where(eq(webhookDeadLetters.id, deadLetterId))
+					.for('update');
+
+				if (!deadLetter) {
+					throw new AppError(
+						'Dead-lettered job not found',
+						StatusCodes.NOT_FOUND,
+					);
+				}
+
+				if (deadLetter.replayedAt) {
+					throw new AppError(
+						'Dead-lettered job has already been replayed',
+						StatusCodes.CONFLICT,
+					);
+				}
+
+				const now = new Date();
+				const [job] = await tx
+					.insert(webhookJobs)
+					.values({
+						eventKey: deadLetter.eventKey,
+						eventType: deadLetter.eventType,
+						payload: deadLetter.payload,
+						maxAttempts: env.WEBHOOK_JOB_MAX_ATTEMPTS,
+					})
+					.onConflictDoUpdate({
+						target: webhookJobs.eventKey,
+						set: {
+							status: 'pending',
+							attempts: 0,
+							maxAttempts: env.WEBHOOK_JOB_MAX_ATTEMPTS,
+							nextRunAt: now,
+							lockedAt: null,
+							lastError: null,
+							completedAt: null,
+							updatedAt: now,
+						},
+					})
+					.returning();
+
+				await tx
+					.update(webhookDeadLetters)
+					.set({ replayedAt: now, replayedBy: userId })
+					.where(eq(webhookDeadLetters.id, deadLetterId));
+
+				return job;
+			});
+
+			return {
+				data: replayed,
+				message: 'Webhook job queued for replay',
+			};
+		} catch (error) {
+			handleServiceError(
+				error,
+				'Failed to replay webhook job',
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				'replayWebhookDeadLetter',
+				{ deadLetterId, userId },
+			);
+		}
+	},
+};
@@ -0,0 +1,36 @@
+CREATE TYPE "public"."message_direction" AS ENUM('inbound', 'outbound');--> statement-breakpoint
+CREATE TABLE "conversations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wa_id" varchar(20) NOT NULL,
+	"customer_id" uuid,
+	"profile_name" varchar(255),
+	"last_message_at" timestamp,
+	"last_message_preview" text,
+	"unread_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "conversations_wa_id_unique" UNIQUE("wa_id"),
+	CONSTRAINT "conversations_customer_id_unique" UNIQUE("customer_id")
+);
+--> statement-breakpoint
+CREATE TABLE "messages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"conversation_id" uuid NOT NULL,
+	"wa_message_id" varchar(255),
+	"direction" "message_direction" NOT NULL,
+	"type" varchar(50) NOT NULL,
+	"body" text,
+	"media" jsonb,
+	"location" jsonb,
+	"payload" jsonb,
+	"sent_at" timestamp DEFAULT now() NOT NULL,
+	"read_at" timestamp,
+	"sent_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "messages_wa_message_id_unique" UNIQUE("wa_message_id")
+);
+--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_customer_id_customer_master_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customer_master"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_sent_by_users_id_fk" FOREIGN KEY ("sent_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "messages_conversation_sent_at_idx" ON "messages" USING btree ("conversation_id","sent_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "conversations" ADD COLUMN "last_inbound_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TYPE "public"."message_status" AS ENUM('accepted', 'sent', 'delivered', 'read', 'failed');--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "status" "message_status";--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "recipient" varchar(20);--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "template_name" varchar(255);--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "error_code" integer;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "error_title" varchar(255);--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "error_details" text;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "delivered_at" timestamp;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "failed_at" timestamp;--> statement-breakpoint
+CREATE INDEX "messages_direction_status_idx" ON "messages" USING btree ("direction","status");
\ No newline at end of file
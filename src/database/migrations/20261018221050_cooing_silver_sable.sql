@@ -0,0 +1,13 @@
+CREATE TYPE "public"."webhook_event_type" AS ENUM('message', 'status');--> statement-breakpoint
+CREATE TABLE "processed_webhook_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_key" varchar(320) NOT NULL,
+	"event_type" "webhook_event_type" NOT NULL,
+	"wa_message_id" varchar(255),
+	"wa_id" varchar(20),
+	"sub_type" varchar(50),
+	"processed_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "processed_webhook_events_event_key_unique" UNIQUE("event_key")
+);
+--> statement-breakpoint
+CREATE INDEX "processed_webhook_events_processed_at_idx" ON "processed_webhook_events" USING btree ("processed_at");
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TYPE "public"."webhook_job_status" AS ENUM('pending', 'processing', 'completed', 'dead');--> statement-breakpoint
+CREATE TABLE "webhook_dead_letters" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" uuid,
+	"event_key" varchar(320) NOT NULL,
+	"event_type" "webhook_event_type" NOT NULL,
+	"payload" jsonb NOT NULL,
+	"attempts" integer NOT NULL,
+	"error" text,
+	"failed_at" timestamp DEFAULT now() NOT NULL,
+	"replayed_at" timestamp,
+	"replayed_by" uuid
+);
+--> statement-breakpoint
+CREATE TABLE "webhook_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"event_key" varchar(320) NOT NULL,
+	"event_type" "webhook_event_type" NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "webhook_job_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer NOT NULL,
+	"next_run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_at" timestamp,
+	"last_error" text,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "webhook_jobs_event_key_unique" UNIQUE("event_key")
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_dead_letters" ADD CONSTRAINT "webhook_dead_letters_job_id_webhook_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."webhook_jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_dead_letters" ADD CONSTRAINT "webhook_dead_letters_replayed_by_users_id_fk" FOREIGN KEY ("replayed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_dead_letters_failed_at_idx" ON "webhook_dead_letters" USING btree ("failed_at");--> statement-breakpoint
+CREATE INDEX "webhook_jobs_status_next_run_at_idx" ON "webhook_jobs" USING btree ("status","next_run_at");
\ No newline at end of file
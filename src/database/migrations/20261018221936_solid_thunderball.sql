@@ -0,0 +1,21 @@
+CREATE TYPE "public"."chatbot_action" AS ENUM('menu', 'add_points', 'catalog', 'balance', 'try_wig', 'reply_text');--> statement-breakpoint
+CREATE TABLE "chatbot_intents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"keywords" text[] DEFAULT '{}' NOT NULL,
+	"synonyms" text[] DEFAULT '{}' NOT NULL,
+	"button_ids" text[] DEFAULT '{}' NOT NULL,
+	"action" "chatbot_action" NOT NULL,
+	"response_text" text,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid,
+	"updated_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "chatbot_intents_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "chatbot_intents" ADD CONSTRAINT "chatbot_intents_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbot_intents" ADD CONSTRAINT "chatbot_intents_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
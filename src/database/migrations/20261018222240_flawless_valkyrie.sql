@@ -0,0 +1,20 @@
+CREATE TYPE "public"."conversation_session_status" AS ENUM('active', 'completed', 'cancelled', 'expired');--> statement-breakpoint
+ALTER TYPE "public"."chatbot_action" ADD VALUE 'start_journey';--> statement-breakpoint
+CREATE TABLE "conversation_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wa_id" varchar(20) NOT NULL,
+	"customer_id" uuid,
+	"journey" varchar(50) NOT NULL,
+	"step" varchar(50) NOT NULL,
+	"context" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" "conversation_session_status" DEFAULT 'active' NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"ended_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chatbot_intents" ADD COLUMN "journey" varchar(50);--> statement-breakpoint
+ALTER TABLE "conversation_sessions" ADD CONSTRAINT "conversation_sessions_customer_id_customer_master_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customer_master"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "conversation_sessions_active_wa_id_idx" ON "conversation_sessions" USING btree ("wa_id") WHERE "conversation_sessions"."status" = 'active';--> statement-breakpoint
+CREATE INDEX "conversation_sessions_journey_idx" ON "conversation_sessions" USING btree ("journey","status");
\ No newline at end of file
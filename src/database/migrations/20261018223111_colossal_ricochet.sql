@@ -0,0 +1,19 @@
+CREATE TYPE "public"."order_notification_result" AS ENUM('sent', 'skipped', 'failed');--> statement-breakpoint
+CREATE TABLE "order_notifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"history_id" uuid,
+	"customer_id" uuid,
+	"order_status" "order_status" NOT NULL,
+	"result" "order_notification_result" NOT NULL,
+	"template_name" varchar(255),
+	"recipient" varchar(20),
+	"wa_message_id" varchar(255),
+	"detail" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "order_notifications" ADD CONSTRAINT "order_notifications_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_notifications" ADD CONSTRAINT "order_notifications_history_id_order_status_history_id_fk" FOREIGN KEY ("history_id") REFERENCES "public"."order_status_history"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_notifications" ADD CONSTRAINT "order_notifications_customer_id_customer_master_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customer_master"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "order_notifications_order_status_idx" ON "order_notifications" USING btree ("order_id","order_status");
\ No newline at end of file
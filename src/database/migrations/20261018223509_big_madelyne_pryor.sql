@@ -0,0 +1,21 @@
+CREATE TYPE "public"."inventory_reservation_status" AS ENUM('active', 'converted', 'released', 'expired');--> statement-breakpoint
+CREATE TABLE "inventory_reservations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"order_id" uuid NOT NULL,
+	"qty" integer NOT NULL,
+	"status" "inventory_reservation_status" DEFAULT 'active' NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"converted_at" timestamp,
+	"released_at" timestamp,
+	"release_reason" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "reserved_qty" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "inventory_reservations" ADD CONSTRAINT "inventory_reservations_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inventory_reservations" ADD CONSTRAINT "inventory_reservations_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "inventory_reservations_active_order_product_idx" ON "inventory_reservations" USING btree ("order_id","product_id") WHERE "inventory_reservations"."status" = 'active';--> statement-breakpoint
+CREATE INDEX "inventory_reservations_status_expires_idx" ON "inventory_reservations" USING btree ("status","expires_at");--> statement-breakpoint
+CREATE INDEX "inventory_reservations_product_idx" ON "inventory_reservations" USING btree ("product_id");
\ No newline at end of file
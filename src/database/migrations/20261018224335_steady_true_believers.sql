@@ -0,0 +1,20 @@
+CREATE TYPE "public"."inventory_movement_type" AS ENUM('sale', 'restock', 'adjustment', 'return', 'reservation', 'release');--> statement-breakpoint
+CREATE TABLE "inventory_movements" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"type" "inventory_movement_type" NOT NULL,
+	"qty_change" integer NOT NULL,
+	"reserved_change" integer DEFAULT 0 NOT NULL,
+	"qty_after" integer NOT NULL,
+	"reserved_after" integer NOT NULL,
+	"reason" text,
+	"reference_type" varchar(50),
+	"reference_id" varchar(255),
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "inventory_movements" ADD CONSTRAINT "inventory_movements_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inventory_movements" ADD CONSTRAINT "inventory_movements_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "inventory_movements_product_created_idx" ON "inventory_movements" USING btree ("product_id","created_at");--> statement-breakpoint
+CREATE INDEX "inventory_movements_reference_idx" ON "inventory_movements" USING btree ("reference_type","reference_id");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "catalog_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"retailer_id" varchar(100) NOT NULL,
+	"fb_product_id" varchar(100),
+	"name" varchar(255),
+	"availability" varchar(50),
+	"price" varchar(50),
+	"currency" varchar(10),
+	"image_url" text,
+	"raw" jsonb,
+	"synced_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "catalog_items_retailer_id_unique" UNIQUE("retailer_id")
+);
+--> statement-breakpoint
+CREATE INDEX "catalog_items_synced_at_idx" ON "catalog_items" USING btree ("synced_at");
\ No newline at end of file
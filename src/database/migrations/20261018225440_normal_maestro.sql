@@ -0,0 +1,23 @@
+CREATE TYPE "public"."catalog_sync_operation" AS ENUM('create', 'update', 'stock');--> statement-breakpoint
+CREATE TYPE "public"."catalog_sync_status" AS ENUM('pending', 'processing', 'synced', 'failed');--> statement-breakpoint
+CREATE TABLE "catalog_sync_outbox" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"retailer_id" varchar(100) NOT NULL,
+	"operation" "catalog_sync_operation" NOT NULL,
+	"payload" jsonb,
+	"status" "catalog_sync_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer NOT NULL,
+	"next_run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_at" timestamp,
+	"last_error" text,
+	"synced_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "catalog_sync_outbox" ADD CONSTRAINT "catalog_sync_outbox_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "catalog_sync_outbox_status_next_run_at_idx" ON "catalog_sync_outbox" USING btree ("status","next_run_at");--> statement-breakpoint
+CREATE INDEX "catalog_sync_outbox_product_created_at_idx" ON "catalog_sync_outbox" USING btree ("product_id","created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "catalog_sync_outbox_pending_product_idx" ON "catalog_sync_outbox" USING btree ("product_id") WHERE "catalog_sync_outbox"."status" = 'pending';
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TYPE "public"."catalog_difference_kind" AS ENUM('missing', 'orphaned', 'mismatched');--> statement-breakpoint
+CREATE TYPE "public"."catalog_reconciliation_status" AS ENUM('running', 'completed', 'failed');--> statement-breakpoint
+CREATE TABLE "catalog_reconciliation_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"reconciliation_id" uuid NOT NULL,
+	"kind" "catalog_difference_kind" NOT NULL,
+	"retailer_id" varchar(100) NOT NULL,
+	"product_id" uuid,
+	"differences" jsonb,
+	"fix_action" varchar(50),
+	"fix_error" text,
+	"fixed_at" timestamp,
+	"fixed_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "catalog_reconciliations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"status" "catalog_reconciliation_status" DEFAULT 'running' NOT NULL,
+	"summary" jsonb,
+	"error" text,
+	"triggered_by" uuid,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "catalog_reconciliation_items" ADD CONSTRAINT "catalog_reconciliation_items_reconciliation_id_catalog_reconciliations_id_fk" FOREIGN KEY ("reconciliation_id") REFERENCES "public"."catalog_reconciliations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "catalog_reconciliation_items" ADD CONSTRAINT "catalog_reconciliation_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "catalog_reconciliation_items" ADD CONSTRAINT "catalog_reconciliation_items_fixed_by_users_id_fk" FOREIGN KEY ("fixed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "catalog_reconciliations" ADD CONSTRAINT "catalog_reconciliations_triggered_by_users_id_fk" FOREIGN KEY ("triggered_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "catalog_reconciliation_items_run_kind_idx" ON "catalog_reconciliation_items" USING btree ("reconciliation_id","kind");--> statement-breakpoint
+CREATE INDEX "catalog_reconciliations_started_at_idx" ON "catalog_reconciliations" USING btree ("started_at");
\ No newline at end of file
@@ -0,0 +1,42 @@
+CREATE TABLE "product_variants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"sku" varchar(100) NOT NULL,
+	"retailer_id" varchar(100) NOT NULL,
+	"name" varchar(255),
+	"size" varchar(50),
+	"colour" varchar(50),
+	"length" varchar(50),
+	"qty" integer DEFAULT 0 NOT NULL,
+	"reserved_qty" integer DEFAULT 0 NOT NULL,
+	"amount" integer,
+	"image_url" varchar(255),
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid,
+	"updated_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "product_variants_sku_unique" UNIQUE("sku"),
+	CONSTRAINT "product_variants_retailer_id_unique" UNIQUE("retailer_id")
+);
+--> statement-breakpoint
+DROP INDEX "catalog_sync_outbox_pending_product_idx";--> statement-breakpoint
+DROP INDEX "inventory_reservations_active_order_product_idx";--> statement-breakpoint
+ALTER TABLE "catalog_reconciliation_items" ADD COLUMN "variant_id" uuid;--> statement-breakpoint
+ALTER TABLE "catalog_sync_outbox" ADD COLUMN "variant_id" uuid;--> statement-breakpoint
+ALTER TABLE "inventory_movements" ADD COLUMN "variant_id" uuid;--> statement-breakpoint
+ALTER TABLE "inventory_reservations" ADD COLUMN "variant_id" uuid;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "variant_id" uuid;--> statement-breakpoint
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "product_variants_product_idx" ON "product_variants" USING btree ("product_id");--> statement-breakpoint
+ALTER TABLE "catalog_reconciliation_items" ADD CONSTRAINT "catalog_reconciliation_items_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "catalog_sync_outbox" ADD CONSTRAINT "catalog_sync_outbox_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inventory_movements" ADD CONSTRAINT "inventory_movements_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inventory_reservations" ADD CONSTRAINT "inventory_reservations_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "catalog_sync_outbox_pending_variant_idx" ON "catalog_sync_outbox" USING btree ("variant_id") WHERE "catalog_sync_outbox"."status" = 'pending' AND "catalog_sync_outbox"."variant_id" IS NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "inventory_reservations_active_order_variant_idx" ON "inventory_reservations" USING btree ("order_id","variant_id") WHERE "inventory_reservations"."status" = 'active' AND "inventory_reservations"."variant_id" IS NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "catalog_sync_outbox_pending_product_idx" ON "catalog_sync_outbox" USING btree ("product_id") WHERE "catalog_sync_outbox"."status" = 'pending' AND "catalog_sync_outbox"."variant_id" IS NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "inventory_reservations_active_order_product_idx" ON "inventory_reservations" USING btree ("order_id","product_id") WHERE "inventory_reservations"."status" = 'active' AND "inventory_reservations"."variant_id" IS NULL;
\ No newline at end of file
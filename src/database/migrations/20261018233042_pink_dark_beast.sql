@@ -0,0 +1,22 @@
+CREATE TABLE "product_media" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"blob_name" varchar(255) NOT NULL,
+	"thumbnail_blob_name" varchar(255) NOT NULL,
+	"url" varchar(500) NOT NULL,
+	"thumbnail_url" varchar(500) NOT NULL,
+	"original_name" varchar(255),
+	"content_type" varchar(100) NOT NULL,
+	"size" integer NOT NULL,
+	"width" integer,
+	"height" integer,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"is_primary" boolean DEFAULT false NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "product_media" ADD CONSTRAINT "product_media_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_media" ADD CONSTRAINT "product_media_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "product_media_product_order_idx" ON "product_media" USING btree ("product_id","sort_order");--> statement-breakpoint
+CREATE UNIQUE INDEX "product_media_primary_idx" ON "product_media" USING btree ("product_id") WHERE "product_media"."is_primary" = true;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "stripe_webhook_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"stripe_event_id" varchar(255) NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"payment_intent_id" varchar(255),
+	"order_no" varchar(100),
+	"outcome" varchar(50),
+	"processed_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "stripe_webhook_events_stripe_event_id_unique" UNIQUE("stripe_event_id")
+);
+--> statement-breakpoint
+CREATE INDEX "stripe_webhook_events_payment_intent_idx" ON "stripe_webhook_events" USING btree ("payment_intent_id");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TYPE "public"."payment_status" AS ENUM('requires_action', 'processing', 'succeeded', 'failed', 'canceled', 'partially_refunded', 'refunded');--> statement-breakpoint
+CREATE TABLE "payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"provider" varchar(50) DEFAULT 'stripe' NOT NULL,
+	"payment_intent_id" varchar(255),
+	"status" "payment_status" NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" varchar(10) NOT NULL,
+	"amount_refunded" integer DEFAULT 0 NOT NULL,
+	"points_applied" integer DEFAULT 0 NOT NULL,
+	"card_brand" varchar(50),
+	"card_last4" varchar(4),
+	"card_funding" varchar(20),
+	"failure_code" varchar(100),
+	"failure_message" text,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "payments_payment_intent_id_unique" UNIQUE("payment_intent_id")
+);
+--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payments_order_created_at_idx" ON "payments" USING btree ("order_id","created_at");
\ No newline at end of file
@@ -0,0 +1,23 @@
+ALTER TYPE "public"."inventory_reservation_status" ADD VALUE 'restocked';--> statement-breakpoint
+CREATE TABLE "refunds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"payment_id" uuid NOT NULL,
+	"stripe_refund_id" varchar(255) NOT NULL,
+	"status" varchar(50) NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" varchar(10) NOT NULL,
+	"reason" text,
+	"notification_result" varchar(20),
+	"notification_detail" text,
+	"wa_message_id" varchar(255),
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "refunds_stripe_refund_id_unique" UNIQUE("stripe_refund_id")
+);
+--> statement-breakpoint
+ALTER TABLE "inventory_reservations" ADD COLUMN "restocked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "refunds_order_created_at_idx" ON "refunds" USING btree ("order_id","created_at");
\ No newline at end of file
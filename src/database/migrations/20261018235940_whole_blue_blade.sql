@@ -0,0 +1,23 @@
+CREATE TYPE "public"."payment_link_status" AS ENUM('open', 'paid', 'expired');--> statement-breakpoint
+CREATE TABLE "payment_links" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"stripe_session_id" varchar(255) NOT NULL,
+	"url" text NOT NULL,
+	"status" "payment_link_status" DEFAULT 'open' NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" varchar(10) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"last_sent_at" timestamp,
+	"reminders_sent" integer DEFAULT 0 NOT NULL,
+	"paid_at" timestamp,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "payment_links_stripe_session_id_unique" UNIQUE("stripe_session_id")
+);
+--> statement-breakpoint
+ALTER TABLE "payment_links" ADD CONSTRAINT "payment_links_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_links" ADD CONSTRAINT "payment_links_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "payment_links_open_order_idx" ON "payment_links" USING btree ("order_id") WHERE "payment_links"."status" = 'open';--> statement-breakpoint
+CREATE INDEX "payment_links_status_expires_idx" ON "payment_links" USING btree ("status","expires_at");
\ No newline at end of file
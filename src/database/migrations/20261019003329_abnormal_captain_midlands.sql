@@ -0,0 +1,5 @@
+ALTER TYPE "public"."catalog_sync_operation" ADD VALUE 'delete';--> statement-breakpoint
+DROP INDEX "catalog_sync_outbox_pending_product_idx";--> statement-breakpoint
+DROP INDEX "catalog_sync_outbox_pending_variant_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "catalog_sync_outbox_pending_product_idx" ON "catalog_sync_outbox" USING btree ("product_id") WHERE "catalog_sync_outbox"."status" = 'pending' AND "catalog_sync_outbox"."variant_id" IS NULL AND "catalog_sync_outbox"."operation"::text <> 'delete';--> statement-breakpoint
+CREATE UNIQUE INDEX "catalog_sync_outbox_pending_variant_idx" ON "catalog_sync_outbox" USING btree ("variant_id") WHERE "catalog_sync_outbox"."status" = 'pending' AND "catalog_sync_outbox"."variant_id" IS NOT NULL AND "catalog_sync_outbox"."operation"::text <> 'delete';
\ No newline at end of file
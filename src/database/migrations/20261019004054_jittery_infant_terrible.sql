@@ -0,0 +1,10 @@
+CREATE TABLE "webhook_job_effects" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" uuid NOT NULL,
+	"effect_key" varchar(255) NOT NULL,
+	"result" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_job_effects" ADD CONSTRAINT "webhook_job_effects_job_id_webhook_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."webhook_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "webhook_job_effects_job_key_idx" ON "webhook_job_effects" USING btree ("job_id","effect_key");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "webhook_jobs" ADD COLUMN "wa_id" varchar(20);--> statement-breakpoint
+CREATE INDEX "webhook_jobs_wa_id_created_at_idx" ON "webhook_jobs" USING btree ("wa_id","created_at");--> statement-breakpoint
+UPDATE "webhook_jobs" SET "wa_id" = left("payload"->>'waId', 20) WHERE "event_type" = 'message' AND "status" IN ('pending', 'processing');
@@ -0,0 +1 @@
+ALTER TABLE "catalog_sync_outbox" ALTER COLUMN "product_id" DROP NOT NULL;
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	text,
+	timestamp,
+	jsonb,
+	index,
+} from 'drizzle-orm/pg-core';
+
+// Local mirror of the Facebook commerce catalog, refreshed in batches
+export const catalogItems = pgTable(
+	'catalog_items',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		// Matches products.contentId / the order's product_retailer_id
+		retailerId: varchar('retailer_id', { length: 100 }).notNull().unique(),
+		fbProductId: varchar('fb_product_id', { length: 100 }),
+		name: varchar('name', { length: 255 }),
+		availability: varchar('availability', { length: 50 }),
+		price: varchar('price', { length: 50 }),
+		currency: varchar('currency', { length: 10 }),
+		imageUrl: text('image_url'),
+		raw: jsonb('raw'),
+
+		// Last sync run that saw this item in the catalog
+		syncedAt: timestamp('synced_at').defaultNow().notNull(),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+		updatedAt: timestamp('updated_at').defaultNow().notNull(),
+	},
+	(t) => [index('catalog_items_synced_at_idx').on(t.syncedAt)],
+);
+
+export type SelectCatalogItem = InferSelectModel<typeof catalogItems>;
+export type InsertCatalogItem = InferInsertModel<typeof catalogItems>;
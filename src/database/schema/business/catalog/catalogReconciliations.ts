@@ -0,0 +1,142 @@
+import { relations, InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	text,
+	timestamp,
+	jsonb,
+	pgEnum,
+	index,
+} from 'drizzle-orm/pg-core';
+import { users } from '../../users';
+import { productVariants } from '../order/productVariants';
+import { products } from '../order/products';
+
+export const catalogReconciliationStatusEnum = pgEnum(
+	'catalog_reconciliation_status',
+	['running', 'completed', 'failed'],
+);
+
+export const catalogDifferenceKindEnum = pgEnum('catalog_difference_kind', [
+	// In products, not in the catalog
+	'missing',
+	// In the catalog, not in products
+	'orphaned',
+	// In both with different values
+	'mismatched',
+]);
+
+export interface CatalogFieldDifference {
+	field: string;
+	expected: string | number | null;
+	actual: string | number | null;
+}
+
+export const catalogReconciliations = pgTable(
+	'catalog_reconciliations',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		status: catalogReconciliationStatusEnum('status')
+			.default('running')
+			.notNull(),
+		// Counts per difference kind plus products and catalog items compared
+		summary: jsonb('summary'),
+		error: text('error'),
+
+		// Null when started by the scheduler
+		triggeredBy: uuid('triggered_by').references(() => users.id, {
+			onDelete: 'set null',
+		}),
+		startedAt: timestamp('started_at').defaultNow().notNull(),
+		finishedAt: timestamp('finished_at'),
+	},
+	(t) => [index('catalog_reconciliations_started_at_idx').on(t.startedAt)],
+);
+
+export type SelectCatalogReconciliation = InferSelectModel<
+	typeof catalogReconciliations
+>;
+export type InsertCatalogReconciliation = InferInsertModel<
+	typeof catalogReconciliations
+>;
+
+export const catalogReconciliationItems = pgTable(
+	'catalog_reconciliation_items',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		reconciliationID: uuid('reconciliation_id')
+			.notNull()
+			.references(() => catalogReconciliations.id, {
+				onDelete: 'cascade',
+			}),
+		kind: catalogDifferenceKindEnum('kind').notNull(),
+		retailerId: varchar('retailer_id', { length: 100 }).notNull(),
+		// Null for orphaned catalog items
+		productID: uuid('product_id').references(() => products.id, {
+			onDelete: 'set null',
+		}),
+		variantID: uuid('variant_id').references(() => productVariants.id, {
+			onDelete: 'set null',
+		}),
+		differences: jsonb('differences').$type<CatalogFieldDifference[]>(),
+
+		// What the fix did (queued a push, or a delete from the catalog)
+		fixAction: varchar('fix_action', { length: 50 }),
+		fixError: text('fix_error'),
+		fixedAt: timestamp('fixed_at'),
+		fixedBy: uuid('fixed_by').references(() => users.id, {
+			onDelete: 'set null',
+		}),
+
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+	},
+	(t) => [
+		index('catalog_reconciliation_items_run_kind_idx').on(
+			t.reconciliationID,
+			t.kind,
+		),
+	],
+);
+
+export type SelectCatalogReconciliationItem = InferSelectModel<
+	typeof catalogReconciliationItems
+>;
+export type InsertCatalogReconciliationItem = InferInsertModel<
+	typeof catalogReconciliationItems
+>;
+
+export const catalogReconciliationsRelations = relations(
+	catalogReconciliations,
+	({ one, many }) => ({
+		items: many(catalogReconciliationItems),
+		triggeredByUser: one(users, {
+			fields: [catalogReconciliations.triggeredBy],
+			references: [users.id],
+		}),
+	}),
+);
+
+export const catalogReconciliationItemsRelations = relations(
+	catalogReconciliationItems,
+	({ one }) => ({
+		reconciliation: one(catalogReconciliations, {
+			fields: [catalogReconciliationItems.reconciliationID],
+			references: [catalogReconciliations.id],
+		}),
+		product: one(products, {
+			fields: [catalogReconciliationItems.productID],
+			references: [products.id],
+		}),
+		variant: one(productVariants, {
+			fields: [catalogReconciliationItems.variantID],
+			references: [productVariants.id],
+		}),
+		fixedByUser: one(users, {
+			fields: [catalogReconciliationItems.fixedBy],
+			references: [users.id],
+		}),
+	}),
+);
@@ -0,0 +1,110 @@
+import {
+	relations,
+	sql,
+	InferSelectModel,
+	InferInsertModel,
+} from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	text,
+	integer,
+	timestamp,
+	jsonb,
+	pgEnum,
+	index,
+	uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { productVariants } from '../order/productVariants';
+import { products } from '../order/products';
+
+export const catalogSyncOperationEnum = pgEnum('catalog_sync_operation', [
+	'create',
+	'update',
+	'stock',
+	// Removes an item the catalog should no longer have, e.g. a variant's
+	// old retailer id
+	'delete',
+]);
+
+export const catalogSyncStatusEnum = pgEnum('catalog_sync_status', [
+	'pending',
+	'processing',
+	'synced',
+	'failed',
+]);
+
+export const catalogSyncOutbox = pgTable(
+	'catalog_sync_outbox',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		// Left out only for deletes of catalog items no product owns
+		productID: uuid('product_id').references(() => products.id, {
+			onDelete: 'cascade',
+		}),
+		// Set when the push is for one variant of the product
+		variantID: uuid('variant_id').references(() => productVariants.id, {
+			onDelete: 'cascade',
+		}),
+		retailerId: varchar('retailer_id', { length: 100 }).notNull(),
+		operation: catalogSyncOperationEnum('operation').notNull(),
+		// Fields sent on the last attempt, built from the product at push time
+		payload: jsonb('payload'),
+
+		status: catalogSyncStatusEnum('status').default('pending').notNull(),
+		attempts: integer('attempts').default(0).notNull(),
+		maxAttempts: integer('max_attempts').notNull(),
+		nextRunAt: timestamp('next_run_at').defaultNow().notNull(),
+		lockedAt: timestamp('locked_at'),
+		lastError: text('last_error'),
+		syncedAt: timestamp('synced_at'),
+
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+		updatedAt: timestamp('updated_at').defaultNow().notNull(),
+	},
+	(t) => [
+		index('catalog_sync_outbox_status_next_run_at_idx').on(
+			t.status,
+			t.nextRunAt,
+		),
+		index('catalog_sync_outbox_product_created_at_idx').on(
+			t.productID,
+			t.createdAt,
+		),
+		// Changes made while a push is still waiting fold into that push;
+		// deletes are for another retailer id, so they never fold
+		uniqueIndex('catalog_sync_outbox_pending_product_idx')
+			.on(t.productID)
+			.where(
+				sql`${t.status} = 'pending' AND ${t.variantID} IS NULL AND ${t.operation}::text <> 'delete'`,
+			),
+		uniqueIndex('catalog_sync_outbox_pending_variant_idx')
+			.on(t.variantID)
+			.where(
+				sql`${t.status} = 'pending' AND ${t.variantID} IS NOT NULL AND ${t.operation}::text <> 'delete'`,
+			),
+	],
+);
+
+export type SelectCatalogSyncOutbox = InferSelectModel<
+	typeof catalogSyncOutbox
+>;
+export type InsertCatalogSyncOutbox = InferInsertModel<
+	typeof catalogSyncOutbox
+>;
+
+export const catalogSyncOutboxRelations = relations(
+	catalogSyncOutbox,
+	({ one }) => ({
+		product: one(products, {
+			fields: [catalogSyncOutbox.productID],
+			references: [products.id],
+		}),
+		variant: one(productVariants, {
+			fields: [catalogSyncOutbox.variantID],
+			references: [productVariants.id],
+		}),
+	}),
+);
@@ -0,0 +1,70 @@
+import { relations, InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	text,
+	integer,
+	boolean,
+	timestamp,
+	pgEnum,
+} from 'drizzle-orm/pg-core';
+import { users } from '../../users';
+
+// What the bot does when an intent matches
+export const chatbotActionEnum = pgEnum('chatbot_action', [
+	'menu',
+	'add_points',
+	'catalog',
+	'balance',
+	'try_wig',
+	'reply_text',
+	'start_journey',
+]);
+
+export const chatbotIntents = pgTable('chatbot_intents', {
+	id: uuid('id').defaultRandom().primaryKey(),
+
+	name: varchar('name', { length: 100 }).notNull().unique(),
+	description: text('description'),
+
+	// Matched case-insensitively against the whole text message
+	keywords: text('keywords').array().default([]).notNull(),
+	synonyms: text('synonyms').array().default([]).notNull(),
+	// Matched against interactive button_reply ids
+	buttonIds: text('button_ids').array().default([]).notNull(),
+
+	action: chatbotActionEnum('action').notNull(),
+	// Reply body for the `reply_text` action
+	responseText: text('response_text'),
+	// Journey started by the `start_journey` action
+	journey: varchar('journey', { length: 50 }),
+
+	// Higher priority wins when several intents share a keyword
+	priority: integer('priority').default(0).notNull(),
+	isActive: boolean('is_active').default(true).notNull(),
+
+	createdBy: uuid('created_by').references(() => users.id, {
+		onDelete: 'set null',
+	}),
+	updatedBy: uuid('updated_by').references(() => users.id, {
+		onDelete: 'set null',
+	}),
+
+	createdAt: timestamp('created_at').defaultNow().notNull(),
+	updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type SelectChatbotIntent = InferSelectModel<typeof chatbotIntents>;
+export type InsertChatbotIntent = InferInsertModel<typeof chatbotIntents>;
+
+export const chatbotIntentsRelations = relations(chatbotIntents, ({ one }) => ({
+	createdByUser: one(users, {
+		fields: [chatbotIntents.createdBy],
+		references: [users.id],
+	}),
+	updatedByUser: one(users, {
+		fields: [chatbotIntents.updatedBy],
+		references: [users.id],
+	}),
+}));
@@ -0,0 +1,71 @@
+import {
+	relations,
+	InferSelectModel,
+	InferInsertModel,
+	sql,
+} from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	timestamp,
+	jsonb,
+	pgEnum,
+	index,
+	uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { customerMaster } from '../customer/customers';
+
+export const sessionStatusEnum = pgEnum('conversation_session_status', [
+	'active',
+	'completed',
+	'cancelled',
+	'expired',
+]);
+
+// State of a multi-step chatbot journey for one WhatsApp number
+export const conversationSessions = pgTable(
+	'conversation_sessions',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		waId: varchar('wa_id', { length: 20 }).notNull(),
+		customerID: uuid('customer_id').references(() => customerMaster.id, {
+			onDelete: 'set null',
+		}),
+
+		journey: varchar('journey', { length: 50 }).notNull(),
+		step: varchar('step', { length: 50 }).notNull(),
+		context: jsonb('context').default({}).notNull(),
+		status: sessionStatusEnum('status').default('active').notNull(),
+
+		expiresAt: timestamp('expires_at').notNull(),
+		endedAt: timestamp('ended_at'),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+		updatedAt: timestamp('updated_at').defaultNow().notNull(),
+	},
+	(t) => [
+		// At most one running journey per number
+		uniqueIndex('conversation_sessions_active_wa_id_idx')
+			.on(t.waId)
+			.where(sql`${t.status} = 'active'`),
+		index('conversation_sessions_journey_idx').on(t.journey, t.status),
+	],
+);
+
+export type SelectConversationSession = InferSelectModel<
+	typeof conversationSessions
+>;
+export type InsertConversationSession = InferInsertModel<
+	typeof conversationSessions
+>;
+
+export const conversationSessionsRelations = relations(
+	conversationSessions,
+	({ one }) => ({
+		customer: one(customerMaster, {
+			fields: [conversationSessions.customerID],
+			references: [customerMaster.id],
+		}),
+	}),
+);
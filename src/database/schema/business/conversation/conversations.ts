@@ -0,0 +1,45 @@
+import { relations, InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	text,
+	integer,
+	timestamp,
+} from 'drizzle-orm/pg-core';
+import { customerMaster } from '../customer/customers';
+import { messages } from './messages';
+
+export const conversations = pgTable('conversations', {
+	id: uuid('id').defaultRandom().primaryKey(),
+
+	// One thread per WhatsApp number; linked to the customer once enrolled
+	waId: varchar('wa_id', { length: 20 }).notNull().unique(),
+	customerID: uuid('customer_id')
+		.unique()
+		.references(() => customerMaster.id, { onDelete: 'set null' }),
+	profileName: varchar('profile_name', { length: 255 }),
+
+	// Opens WhatsApp's 24-hour customer service window for free-form replies
+	lastInboundAt: timestamp('last_inbound_at'),
+	lastMessageAt: timestamp('last_message_at'),
+	lastMessagePreview: text('last_message_preview'),
+	unreadCount: integer('unread_count').default(0).notNull(),
+
+	createdAt: timestamp('created_at').defaultNow().notNull(),
+	updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type SelectConversation = InferSelectModel<typeof conversations>;
+export type InsertConversation = InferInsertModel<typeof conversations>;
+
+export const conversationsRelations = relations(
+	conversations,
+	({ one, many }) => ({
+		customer: one(customerMaster, {
+			fields: [conversations.customerID],
+			references: [customerMaster.id],
+		}),
+		messages: many(messages),
+	}),
+);
@@ -0,0 +1,87 @@
+import { relations, InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	text,
+	timestamp,
+	integer,
+	jsonb,
+	pgEnum,
+	index,
+} from 'drizzle-orm/pg-core';
+import { users } from '../../users';
+import { conversations } from './conversations';
+
+export const messageDirectionEnum = pgEnum('message_direction', [
+	'inbound',
+	'outbound',
+]);
+
+// Delivery lifecycle of outbound messages, driven by webhook status callbacks
+export const messageStatusEnum = pgEnum('message_status', [
+	'accepted',
+	'sent',
+	'delivered',
+	'read',
+	'failed',
+]);
+
+export const messages = pgTable(
+	'messages',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		conversationID: uuid('conversation_id')
+			.notNull()
+			.references(() => conversations.id, { onDelete: 'cascade' }),
+
+		// WhatsApp message id (wamid.*)
+		waMessageId: varchar('wa_message_id', { length: 255 }).unique(),
+		direction: messageDirectionEnum('direction').notNull(),
+		type: varchar('type', { length: 50 }).notNull(),
+		body: text('body'),
+		media: jsonb('media'),
+		location: jsonb('location'),
+		payload: jsonb('payload'),
+
+		// Outbound delivery tracking
+		status: messageStatusEnum('status'),
+		recipient: varchar('recipient', { length: 20 }),
+		templateName: varchar('template_name', { length: 255 }),
+		errorCode: integer('error_code'),
+		errorTitle: varchar('error_title', { length: 255 }),
+		errorDetails: text('error_details'),
+
+		sentAt: timestamp('sent_at').defaultNow().notNull(),
+		deliveredAt: timestamp('delivered_at'),
+		readAt: timestamp('read_at'),
+		failedAt: timestamp('failed_at'),
+
+		sentBy: uuid('sent_by').references(() => users.id, {
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+	},
+	(t) => [
+		index('messages_conversation_sent_at_idx').on(
+			t.conversationID,
+			t.sentAt,
+		),
+		index('messages_direction_status_idx').on(t.direction, t.status),
+	],
+);
+
+export type SelectMessage = InferSelectModel<typeof messages>;
+export type InsertMessage = InferInsertModel<typeof messages>;
+
+export const messagesRelations = relations(messages, ({ one }) => ({
+	conversation: one(conversations, {
+		fields: [messages.conversationID],
+		references: [conversations.id],
+	}),
+	sentByUser: one(users, {
+		fields: [messages.sentBy],
+		references: [users.id],
+	}),
+}));
@@ -0,0 +1,92 @@
+import { relations, InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	integer,
+	varchar,
+	text,
+	timestamp,
+	pgEnum,
+	index,
+} from 'drizzle-orm/pg-core';
+import { users } from '../../users';
+import { productVariants } from '../order/productVariants';
+import { products } from '../order/products';
+
+export const inventoryMovementTypeEnum = pgEnum('inventory_movement_type', [
+	'sale',
+	'restock',
+	'adjustment',
+	'return',
+	'reservation',
+	'release',
+]);
+
+export const inventoryMovements = pgTable(
+	'inventory_movements',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		productID: uuid('product_id')
+			.notNull()
+			.references(() => products.id, { onDelete: 'cascade' }),
+		// Set for variant stock; the snapshots below are then the variant's
+		variantID: uuid('variant_id').references(() => productVariants.id, {
+			onDelete: 'cascade',
+		}),
+		type: inventoryMovementTypeEnum('type').notNull(),
+
+		// Signed change to on-hand stock; reservation/release leave it at 0
+		qtyChange: integer('qty_change').notNull(),
+		// Signed change to the reserved quantity
+		reservedChange: integer('reserved_change').default(0).notNull(),
+		// Snapshot after the movement, so counts can be reconciled row by row
+		qtyAfter: integer('qty_after').notNull(),
+		reservedAfter: integer('reserved_after').notNull(),
+
+		reason: text('reason'),
+		// What caused the movement, e.g. order / reservation / manual
+		referenceType: varchar('reference_type', { length: 50 }),
+		referenceID: varchar('reference_id', { length: 255 }),
+
+		createdBy: uuid('created_by').references(() => users.id, {
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+	},
+	(t) => [
+		index('inventory_movements_product_created_idx').on(
+			t.productID,
+			t.createdAt,
+		),
+		index('inventory_movements_reference_idx').on(
+			t.referenceType,
+			t.referenceID,
+		),
+	],
+);
+
+export type SelectInventoryMovement = InferSelectModel<
+	typeof inventoryMovements
+>;
+export type InsertInventoryMovement = InferInsertModel<
+	typeof inventoryMovements
+>;
+
+export const inventoryMovementsRelations = relations(
+	inventoryMovements,
+	({ one }) => ({
+		product: one(products, {
+			fields: [inventoryMovements.productID],
+			references: [products.id],
+		}),
+		variant: one(productVariants, {
+			fields: [inventoryMovements.variantID],
+			references: [productVariants.id],
+		}),
+		createdByUser: one(users, {
+			fields: [inventoryMovements.createdBy],
+			references: [users.id],
+		}),
+	}),
+);
@@ -0,0 +1,96 @@
+import {
+	relations,
+	sql,
+	InferSelectModel,
+	InferInsertModel,
+} from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	integer,
+	varchar,
+	timestamp,
+	pgEnum,
+	index,
+	uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { orders } from '../order/orders';
+import { productVariants } from '../order/productVariants';
+import { products } from '../order/products';
+
+export const reservationStatusEnum = pgEnum('inventory_reservation_status', [
+	'active',
+	'converted',
+	'released',
+	'expired',
+	// Sold stock put back on hand after a cancellation, return or refund
+	'restocked',
+]);
+
+export const inventoryReservations = pgTable(
+	'inventory_reservations',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		productID: uuid('product_id')
+			.notNull()
+			.references(() => products.id, { onDelete: 'cascade' }),
+		// Stock is held on the variant when set, otherwise on the product
+		variantID: uuid('variant_id').references(() => productVariants.id, {
+			onDelete: 'cascade',
+		}),
+		orderID: uuid('order_id')
+			.notNull()
+			.references(() => orders.id, { onDelete: 'cascade' }),
+		qty: integer('qty').notNull(),
+
+		status: reservationStatusEnum('status').default('active').notNull(),
+		expiresAt: timestamp('expires_at').notNull(),
+		convertedAt: timestamp('converted_at'),
+		releasedAt: timestamp('released_at'),
+		releaseReason: varchar('release_reason', { length: 255 }),
+		restockedAt: timestamp('restocked_at'),
+
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+		updatedAt: timestamp('updated_at').defaultNow().notNull(),
+	},
+	(t) => [
+		// One live hold per product (or variant) per order; history rows are kept
+		uniqueIndex('inventory_reservations_active_order_product_idx')
+			.on(t.orderID, t.productID)
+			.where(sql`${t.status} = 'active' AND ${t.variantID} IS NULL`),
+		uniqueIndex('inventory_reservations_active_order_variant_idx')
+			.on(t.orderID, t.variantID)
+			.where(sql`${t.status} = 'active' AND ${t.variantID} IS NOT NULL`),
+		index('inventory_reservations_status_expires_idx').on(
+			t.status,
+			t.expiresAt,
+		),
+		index('inventory_reservations_product_idx').on(t.productID),
+	],
+);
+
+export type SelectInventoryReservation = InferSelectModel<
+	typeof inventoryReservations
+>;
+export type InsertInventoryReservation = InferInsertModel<
+	typeof inventoryReservations
+>;
+
+export const inventoryReservationsRelations = relations(
+	inventoryReservations,
+	({ one }) => ({
+		product: one(products, {
+			fields: [inventoryReservations.productID],
+			references: [products.id],
+		}),
+		variant: one(productVariants, {
+			fields: [inventoryReservations.variantID],
+			references: [productVariants.id],
+		}),
+		order: one(orders, {
+			fields: [inventoryReservations.orderID],
+			references: [orders.id],
+		}),
+	}),
+);
@@ -5,6 +5,7 @@ import { integer } from 'drizzle-orm/pg-core';
 import { pgEnum } from 'drizzle-orm/pg-core';
 import { users } from '../../users';
 import { orders } from './orders';
+import { productVariants } from './productVariants';
 import { products } from './products';
 
 export const productStatusEnum = pgEnum('product_status', [
@@ -23,6 +24,10 @@ export const orderItems = pgTable('order_items', {
 	productID: uuid('product_id')
 		.notNull()
 		.references(() => products.id, { onDelete: 'cascade' }),
+	// Set when the customer ordered a specific variant of the product
+	variantID: uuid('variant_id').references(() => productVariants.id, {
+		onDelete: 'set null',
+	}),
 	qty: integer('qty'),
 	status: productStatusEnum('status').default('new').notNull(),
 
@@ -49,6 +54,10 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
 		fields: [orderItems.productID],
 		references: [products.id],
 	}),
+	variant: one(productVariants, {
+		fields: [orderItems.variantID],
+		references: [productVariants.id],
+	}),
 	createdByUser: one(users, {
 		fields: [orderItems.createdBy],
 		references: [users.id],
@@ -0,0 +1,79 @@
+import { relations, InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	text,
+	timestamp,
+	pgEnum,
+	uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { customerMaster } from '../customer/customers';
+import { orderStatusHistory } from './orderStatusHistory';
+import { orders, orderStatusEnum } from './orders';
+
+export const orderNotificationResultEnum = pgEnum('order_notification_result', [
+	'sent',
+	'skipped',
+	'failed',
+]);
+
+export const orderNotifications = pgTable(
+	'order_notifications',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		orderID: uuid('order_id')
+			.notNull()
+			.references(() => orders.id, { onDelete: 'cascade' }),
+		historyID: uuid('history_id').references(() => orderStatusHistory.id, {
+			onDelete: 'set null',
+		}),
+		customerID: uuid('customer_id').references(() => customerMaster.id, {
+			onDelete: 'set null',
+		}),
+
+		orderStatus: orderStatusEnum('order_status').notNull(),
+		result: orderNotificationResultEnum('result').notNull(),
+		templateName: varchar('template_name', { length: 255 }),
+		recipient: varchar('recipient', { length: 20 }),
+		// Links to the outbound row in `messages` for delivery tracking
+		waMessageId: varchar('wa_message_id', { length: 255 }),
+		// Why the send was skipped or the Graph API error
+		detail: text('detail'),
+
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+	},
+	(t) => [
+		// A status is reached at most once, so this keeps notifications idempotent
+		uniqueIndex('order_notifications_order_status_idx').on(
+			t.orderID,
+			t.orderStatus,
+		),
+	],
+);
+
+export type SelectOrderNotification = InferSelectModel<
+	typeof orderNotifications
+>;
+export type InsertOrderNotification = InferInsertModel<
+	typeof orderNotifications
+>;
+
+export const orderNotificationsRelations = relations(
+	orderNotifications,
+	({ one }) => ({
+		order: one(orders, {
+			fields: [orderNotifications.orderID],
+			references: [orders.id],
+		}),
+		history: one(orderStatusHistory, {
+			fields: [orderNotifications.historyID],
+			references: [orderStatusHistory.id],
+		}),
+		customer: one(customerMaster, {
+			fields: [orderNotifications.customerID],
+			references: [customerMaster.id],
+		}),
+	}),
+);
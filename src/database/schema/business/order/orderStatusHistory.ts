@@ -0,0 +1,60 @@
+import { relations, InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	text,
+	timestamp,
+	jsonb,
+	index,
+} from 'drizzle-orm/pg-core';
+import { users } from '../../users';
+import { orders, orderStatusEnum } from './orders';
+
+export const orderStatusHistory = pgTable(
+	'order_status_history',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		orderID: uuid('order_id')
+			.notNull()
+			.references(() => orders.id, { onDelete: 'cascade' }),
+
+		// Null for the initial status recorded when the order is created
+		fromStatus: orderStatusEnum('from_status'),
+		toStatus: orderStatusEnum('to_status').notNull(),
+		reason: text('reason'),
+		metadata: jsonb('metadata'),
+
+		changedBy: uuid('changed_by').references(() => users.id, {
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+	},
+	(t) => [
+		index('order_status_history_order_created_idx').on(
+			t.orderID,
+			t.createdAt,
+		),
+	],
+);
+
+export type SelectOrderStatusHistory = InferSelectModel<
+	typeof orderStatusHistory
+>;
+export type InsertOrderStatusHistory = InferInsertModel<
+	typeof orderStatusHistory
+>;
+
+export const orderStatusHistoryRelations = relations(
+	orderStatusHistory,
+	({ one }) => ({
+		order: one(orders, {
+			fields: [orderStatusHistory.orderID],
+			references: [orders.id],
+		}),
+		changedByUser: one(users, {
+			fields: [orderStatusHistory.changedBy],
+			references: [users.id],
+		}),
+	}),
+);
@@ -10,12 +10,19 @@ import {
 } from 'drizzle-orm/pg-core';
 import { users } from '../../users';
 import { customerMaster } from '../customer/customers';
+import { paymentLinks } from '../payment/paymentLinks';
+import { payments } from '../payment/payments';
 import { orderItems } from './orderItems';
 
 export const orderStatusEnum = pgEnum('order_status', [
-	'new',
-	'inprogress',
-	'completed',
+	'pending_payment',
+	'paid',
+	'packed',
+	'shipped',
+	'delivered',
+	'cancelled',
+	'refunded',
+	'returned',
 ]);
 
 export const orders = pgTable('orders', {
@@ -28,7 +35,7 @@ export const orders = pgTable('orders', {
 	orderNo: varchar('order_no', { length: 100 }).notNull().unique(),
 	orderName: varchar('order_name', { length: 255 }),
 	orderCreatedAt: timestamp('order_created_at').defaultNow(),
-	status: orderStatusEnum('status').default('new').notNull(),
+	status: orderStatusEnum('status').default('pending_payment').notNull(),
 	trackingNo: varchar('tracking_no', { length: 255 }),
 	paymentType: varchar('payment_type', { length: 50 }),
 	shipToAddress: text('ship_to_address'),
@@ -56,6 +63,8 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
 		references: [customerMaster.id],
 	}),
 	orderItems: many(orderItems),
+	payments: many(payments),
+	paymentLinks: many(paymentLinks),
 	createdByUser: one(users, {
 		fields: [orders.createdBy],
 		references: [users.id],
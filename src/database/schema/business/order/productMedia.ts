@@ -0,0 +1,74 @@
+import {
+	relations,
+	InferSelectModel,
+	InferInsertModel,
+	sql,
+} from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	integer,
+	boolean,
+	timestamp,
+	index,
+	uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { users } from '../../users';
+import { products } from './products';
+
+// Product images stored in blob storage, each with a generated thumbnail
+export const productMedia = pgTable(
+	'product_media',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		productID: uuid('product_id')
+			.notNull()
+			.references(() => products.id, { onDelete: 'cascade' }),
+
+		// Blob names under the product's folder, used to delete the files
+		blobName: varchar('blob_name', { length: 255 }).notNull(),
+		thumbnailBlobName: varchar('thumbnail_blob_name', {
+			length: 255,
+		}).notNull(),
+		url: varchar('url', { length: 500 }).notNull(),
+		thumbnailUrl: varchar('thumbnail_url', { length: 500 }).notNull(),
+
+		originalName: varchar('original_name', { length: 255 }),
+		contentType: varchar('content_type', { length: 100 }).notNull(),
+		size: integer('size').notNull(),
+		width: integer('width'),
+		height: integer('height'),
+
+		sortOrder: integer('sort_order').default(0).notNull(),
+		// The primary image is the one sent to the catalog
+		isPrimary: boolean('is_primary').default(false).notNull(),
+
+		createdBy: uuid('created_by').references(() => users.id, {
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+	},
+	(t) => [
+		index('product_media_product_order_idx').on(t.productID, t.sortOrder),
+		// At most one primary image per product
+		uniqueIndex('product_media_primary_idx')
+			.on(t.productID)
+			.where(sql`${t.isPrimary} = true`),
+	],
+);
+
+export type SelectProductMedia = InferSelectModel<typeof productMedia>;
+export type InsertProductMedia = InferInsertModel<typeof productMedia>;
+
+export const productMediaRelations = relations(productMedia, ({ one }) => ({
+	product: one(products, {
+		fields: [productMedia.productID],
+		references: [products.id],
+	}),
+	createdByUser: one(users, {
+		fields: [productMedia.createdBy],
+		references: [users.id],
+	}),
+}));
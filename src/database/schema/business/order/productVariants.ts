@@ -0,0 +1,71 @@
+import { relations, InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	integer,
+	boolean,
+	timestamp,
+	index,
+} from 'drizzle-orm/pg-core';
+import { users } from '../../users';
+import { products } from './products';
+
+// A sellable option of a parent product (e.g. a wig in 20 inch, natural black)
+export const productVariants = pgTable(
+	'product_variants',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		productID: uuid('product_id')
+			.notNull()
+			.references(() => products.id, { onDelete: 'cascade' }),
+		sku: varchar('sku', { length: 100 }).unique().notNull(),
+		// Catalog retailer_id; the parent's contentId is the item_group_id
+		retailerId: varchar('retailer_id', { length: 100 }).unique().notNull(),
+		name: varchar('name', { length: 255 }),
+
+		size: varchar('size', { length: 50 }),
+		colour: varchar('colour', { length: 50 }),
+		length: varchar('length', { length: 50 }),
+
+		qty: integer('qty').default(0).notNull(),
+		// Held by unpaid orders; available stock is qty - reservedQty
+		reservedQty: integer('reserved_qty').default(0).notNull(),
+		// Null means the parent product's price
+		amount: integer('amount'),
+		imageUrl: varchar('image_url', { length: 255 }),
+		isActive: boolean('is_active').default(true).notNull(),
+
+		createdBy: uuid('created_by').references(() => users.id, {
+			onDelete: 'set null',
+		}),
+		updatedBy: uuid('updated_by').references(() => users.id, {
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+		updatedAt: timestamp('updated_at').defaultNow().notNull(),
+	},
+	(t) => [index('product_variants_product_idx').on(t.productID)],
+);
+
+export type SelectProductVariant = InferSelectModel<typeof productVariants>;
+export type InsertProductVariant = InferInsertModel<typeof productVariants>;
+
+export const productVariantsRelations = relations(
+	productVariants,
+	({ one }) => ({
+		product: one(products, {
+			fields: [productVariants.productID],
+			references: [products.id],
+		}),
+		createdByUser: one(users, {
+			fields: [productVariants.createdBy],
+			references: [users.id],
+		}),
+		updatedByUser: one(users, {
+			fields: [productVariants.updatedBy],
+			references: [users.id],
+		}),
+	}),
+);
@@ -11,6 +11,8 @@ import {
 } from 'drizzle-orm/pg-core';
 import { users } from '../../users';
 import { orderItems } from './orderItems';
+import { productMedia } from './productMedia';
+import { productVariants } from './productVariants';
 
 export const productStatusEnum = pgEnum('product_status', [
 	'new',
@@ -29,6 +31,8 @@ export const products = pgTable('products', {
 	warrantyPeriod: varchar('warranty_period', { length: 100 }),
 	returnPeriodDays: varchar('return_period_days', { length: 50 }),
 	qty: integer('qty'),
+	// Held by unpaid orders; available stock is qty - reservedQty
+	reservedQty: integer('reserved_qty').default(0).notNull(),
 	amount: integer('amount'),
 	currency: varchar('currency', { length: 10 }).default('NGN'),
 	type: varchar('type', { length: 50 }),
@@ -51,6 +55,8 @@ export type InsertProduct = InferInsertModel<typeof products>;
 
 export const productsRelations = relations(products, ({ many, one }) => ({
 	orderItems: many(orderItems), //  Linked via mapping
+	variants: many(productVariants),
+	media: many(productMedia),
 	createdByUser: one(users, {
 		fields: [products.createdBy],
 		references: [users.id],
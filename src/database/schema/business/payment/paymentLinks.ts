@@ -0,0 +1,80 @@
+import {
+	relations,
+	sql,
+	InferSelectModel,
+	InferInsertModel,
+} from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	integer,
+	text,
+	timestamp,
+	pgEnum,
+	index,
+	uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { users } from '../../users';
+import { orders } from '../order/orders';
+
+export const paymentLinkStatusEnum = pgEnum('payment_link_status', [
+	'open',
+	'paid',
+	'expired',
+]);
+
+// A Stripe Checkout session sent to the customer on WhatsApp for one order
+export const paymentLinks = pgTable(
+	'payment_links',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		orderID: uuid('order_id')
+			.notNull()
+			.references(() => orders.id, { onDelete: 'cascade' }),
+		// cs_...
+		stripeSessionId: varchar('stripe_session_id', { length: 255 })
+			.notNull()
+			.unique(),
+		url: text('url').notNull(),
+		status: paymentLinkStatusEnum('status').default('open').notNull(),
+
+		// Smallest currency unit, as sent to Stripe
+		amount: integer('amount').notNull(),
+		currency: varchar('currency', { length: 10 }).notNull(),
+
+		expiresAt: timestamp('expires_at').notNull(),
+		// Last time the link went out on WhatsApp (first send or reminder)
+		lastSentAt: timestamp('last_sent_at'),
+		remindersSent: integer('reminders_sent').default(0).notNull(),
+		paidAt: timestamp('paid_at'),
+
+		createdBy: uuid('created_by').references(() => users.id, {
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+		updatedAt: timestamp('updated_at').defaultNow().notNull(),
+	},
+	(t) => [
+		// One live link per order; paid and expired ones are kept as history
+		uniqueIndex('payment_links_open_order_idx')
+			.on(t.orderID)
+			.where(sql`${t.status} = 'open'`),
+		index('payment_links_status_expires_idx').on(t.status, t.expiresAt),
+	],
+);
+
+export type SelectPaymentLink = InferSelectModel<typeof paymentLinks>;
+export type InsertPaymentLink = InferInsertModel<typeof paymentLinks>;
+
+export const paymentLinksRelations = relations(paymentLinks, ({ one }) => ({
+	order: one(orders, {
+		fields: [paymentLinks.orderID],
+		references: [orders.id],
+	}),
+	createdByUser: one(users, {
+		fields: [paymentLinks.createdBy],
+		references: [users.id],
+	}),
+}));
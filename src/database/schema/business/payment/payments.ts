@@ -0,0 +1,77 @@
+import { relations, InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	integer,
+	text,
+	timestamp,
+	pgEnum,
+	index,
+} from 'drizzle-orm/pg-core';
+import { users } from '../../users';
+import { orders } from '../order/orders';
+import { refunds } from './refunds';
+
+export const paymentStatusEnum = pgEnum('payment_status', [
+	'requires_action',
+	'processing',
+	'succeeded',
+	'failed',
+	'canceled',
+	'partially_refunded',
+	'refunded',
+]);
+
+// One row per payment attempt (Stripe PaymentIntent) on an order
+export const payments = pgTable(
+	'payments',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		orderID: uuid('order_id')
+			.notNull()
+			.references(() => orders.id, { onDelete: 'cascade' }),
+		provider: varchar('provider', { length: 50 })
+			.default('stripe')
+			.notNull(),
+		// Null when Stripe rejected the attempt before creating an intent
+		paymentIntentId: varchar('payment_intent_id', { length: 255 }).unique(),
+		status: paymentStatusEnum('status').notNull(),
+
+		// Smallest currency unit, as sent to Stripe
+		amount: integer('amount').notNull(),
+		currency: varchar('currency', { length: 10 }).notNull(),
+		amountRefunded: integer('amount_refunded').default(0).notNull(),
+		pointsApplied: integer('points_applied').default(0).notNull(),
+
+		cardBrand: varchar('card_brand', { length: 50 }),
+		cardLast4: varchar('card_last4', { length: 4 }),
+		cardFunding: varchar('card_funding', { length: 20 }),
+
+		failureCode: varchar('failure_code', { length: 100 }),
+		failureMessage: text('failure_message'),
+
+		createdBy: uuid('created_by').references(() => users.id, {
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+		updatedAt: timestamp('updated_at').defaultNow().notNull(),
+	},
+	(t) => [index('payments_order_created_at_idx').on(t.orderID, t.createdAt)],
+);
+
+export type SelectPayment = InferSelectModel<typeof payments>;
+export type InsertPayment = InferInsertModel<typeof payments>;
+
+export const paymentsRelations = relations(payments, ({ one, many }) => ({
+	order: one(orders, {
+		fields: [payments.orderID],
+		references: [orders.id],
+	}),
+	refunds: many(refunds),
+	createdByUser: one(users, {
+		fields: [payments.createdBy],
+		references: [users.id],
+	}),
+}));
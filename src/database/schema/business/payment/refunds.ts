@@ -0,0 +1,71 @@
+import { relations, InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	integer,
+	text,
+	timestamp,
+	index,
+} from 'drizzle-orm/pg-core';
+import { users } from '../../users';
+import type { SelectOrderNotification } from '../order/orderNotifications';
+import { orders } from '../order/orders';
+import { payments } from './payments';
+
+// A refund issued from the admin API against a payment (Stripe Refund)
+export const refunds = pgTable(
+	'refunds',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		orderID: uuid('order_id')
+			.notNull()
+			.references(() => orders.id, { onDelete: 'cascade' }),
+		paymentID: uuid('payment_id')
+			.notNull()
+			.references(() => payments.id, { onDelete: 'cascade' }),
+		// re_...
+		stripeRefundId: varchar('stripe_refund_id', { length: 255 })
+			.notNull()
+			.unique(),
+		// Stripe refund status: pending, succeeded, failed, canceled
+		status: varchar('status', { length: 50 }).notNull(),
+
+		// Smallest currency unit, as sent to Stripe
+		amount: integer('amount').notNull(),
+		currency: varchar('currency', { length: 10 }).notNull(),
+		reason: text('reason'),
+
+		// WhatsApp message telling the customer about the refund
+		notificationResult: varchar('notification_result', {
+			length: 20,
+		}).$type<SelectOrderNotification['result']>(),
+		notificationDetail: text('notification_detail'),
+		waMessageId: varchar('wa_message_id', { length: 255 }),
+
+		createdBy: uuid('created_by').references(() => users.id, {
+			onDelete: 'set null',
+		}),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+	},
+	(t) => [index('refunds_order_created_at_idx').on(t.orderID, t.createdAt)],
+);
+
+export type SelectRefund = InferSelectModel<typeof refunds>;
+export type InsertRefund = InferInsertModel<typeof refunds>;
+
+export const refundsRelations = relations(refunds, ({ one }) => ({
+	order: one(orders, {
+		fields: [refunds.orderID],
+		references: [orders.id],
+	}),
+	payment: one(payments, {
+		fields: [refunds.paymentID],
+		references: [payments.id],
+	}),
+	createdByUser: one(users, {
+		fields: [refunds.createdBy],
+		references: [users.id],
+	}),
+}));
@@ -0,0 +1,32 @@
+import { InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core';
+
+// Stripe events already handled, so redelivered events are skipped
+export const stripeWebhookEvents = pgTable(
+	'stripe_webhook_events',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		// evt_...
+		stripeEventId: varchar('stripe_event_id', { length: 255 })
+			.notNull()
+			.unique(),
+		type: varchar('type', { length: 100 }).notNull(),
+		paymentIntentId: varchar('payment_intent_id', { length: 255 }),
+		orderNo: varchar('order_no', { length: 100 }),
+		// What handling the event did, e.g. finalized or already_paid
+		outcome: varchar('outcome', { length: 50 }),
+
+		processedAt: timestamp('processed_at').defaultNow().notNull(),
+	},
+	(t) => [
+		index('stripe_webhook_events_payment_intent_idx').on(t.paymentIntentId),
+	],
+);
+
+export type SelectStripeWebhookEvent = InferSelectModel<
+	typeof stripeWebhookEvents
+>;
+export type InsertStripeWebhookEvent = InferInsertModel<
+	typeof stripeWebhookEvents
+>;
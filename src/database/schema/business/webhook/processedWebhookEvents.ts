@@ -0,0 +1,40 @@
+import { InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	timestamp,
+	pgEnum,
+	index,
+} from 'drizzle-orm/pg-core';
+
+export const webhookEventTypeEnum = pgEnum('webhook_event_type', [
+	'message',
+	'status',
+]);
+
+export const processedWebhookEvents = pgTable(
+	'processed_webhook_events',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		// message:<wamid> or status:<wamid>:<status>
+		eventKey: varchar('event_key', { length: 320 }).notNull().unique(),
+		eventType: webhookEventTypeEnum('event_type').notNull(),
+		waMessageId: varchar('wa_message_id', { length: 255 }),
+		waId: varchar('wa_id', { length: 20 }),
+		subType: varchar('sub_type', { length: 50 }),
+
+		processedAt: timestamp('processed_at').defaultNow().notNull(),
+	},
+	(t) => [
+		index('processed_webhook_events_processed_at_idx').on(t.processedAt),
+	],
+);
+
+export type SelectProcessedWebhookEvent = InferSelectModel<
+	typeof processedWebhookEvents
+>;
+export type InsertProcessedWebhookEvent = InferInsertModel<
+	typeof processedWebhookEvents
+>;
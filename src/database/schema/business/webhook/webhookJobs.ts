@@ -0,0 +1,123 @@
+import { relations, InferSelectModel, InferInsertModel } from 'drizzle-orm';
+import {
+	pgTable,
+	uuid,
+	varchar,
+	text,
+	integer,
+	timestamp,
+	jsonb,
+	pgEnum,
+	index,
+	uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { users } from '../../users';
+import { webhookEventTypeEnum } from './processedWebhookEvents';
+
+export const webhookJobStatusEnum = pgEnum('webhook_job_status', [
+	'pending',
+	'processing',
+	'completed',
+	'dead',
+]);
+
+export const webhookJobs = pgTable(
+	'webhook_jobs',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		// Same key as processed_webhook_events, one job per webhook event
+		eventKey: varchar('event_key', { length: 320 }).notNull().unique(),
+		eventType: webhookEventTypeEnum('event_type').notNull(),
+		payload: jsonb('payload').notNull(),
+		// Customer a message came from; their messages run one at a time
+		waId: varchar('wa_id', { length: 20 }),
+
+		status: webhookJobStatusEnum('status').default('pending').notNull(),
+		attempts: integer('attempts').default(0).notNull(),
+		maxAttempts: integer('max_attempts').notNull(),
+		nextRunAt: timestamp('next_run_at').defaultNow().notNull(),
+		lockedAt: timestamp('locked_at'),
+		lastError: text('last_error'),
+		completedAt: timestamp('completed_at'),
+
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+		updatedAt: timestamp('updated_at').defaultNow().notNull(),
+	},
+	(t) => [
+		index('webhook_jobs_status_next_run_at_idx').on(t.status, t.nextRunAt),
+		index('webhook_jobs_wa_id_created_at_idx').on(t.waId, t.createdAt),
+	],
+);
+
+export type SelectWebhookJob = InferSelectModel<typeof webhookJobs>;
+export type InsertWebhookJob = InferInsertModel<typeof webhookJobs>;
+
+// Side effects (WhatsApp sends, journey steps) a job has already carried out,
+// so a retry of the job skips them instead of doing them twice
+export const webhookJobEffects = pgTable(
+	'webhook_job_effects',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		jobID: uuid('job_id')
+			.notNull()
+			.references(() => webhookJobs.id, { onDelete: 'cascade' }),
+		// e.g. send:<phone>:<payload hash>#0
+		effectKey: varchar('effect_key', { length: 255 }).notNull(),
+		// What the effect returned, handed back when a retry skips it
+		result: jsonb('result'),
+
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+	},
+	(t) => [
+		uniqueIndex('webhook_job_effects_job_key_idx').on(t.jobID, t.effectKey),
+	],
+);
+
+export type SelectWebhookJobEffect = InferSelectModel<typeof webhookJobEffects>;
+export type InsertWebhookJobEffect = InferInsertModel<typeof webhookJobEffects>;
+
+export const webhookDeadLetters = pgTable(
+	'webhook_dead_letters',
+	{
+		id: uuid('id').defaultRandom().primaryKey(),
+
+		jobID: uuid('job_id').references(() => webhookJobs.id, {
+			onDelete: 'set null',
+		}),
+		eventKey: varchar('event_key', { length: 320 }).notNull(),
+		eventType: webhookEventTypeEnum('event_type').notNull(),
+		payload: jsonb('payload').notNull(),
+		attempts: integer('attempts').notNull(),
+		error: text('error'),
+		failedAt: timestamp('failed_at').defaultNow().notNull(),
+
+		replayedAt: timestamp('replayed_at'),
+		replayedBy: uuid('replayed_by').references(() => users.id, {
+			onDelete: 'set null',
+		}),
+	},
+	(t) => [index('webhook_dead_letters_failed_at_idx').on(t.failedAt)],
+);
+
+export type SelectWebhookDeadLetter = InferSelectModel<
+	typeof webhookDeadLetters
+>;
+export type InsertWebhookDeadLetter = InferInsertModel<
+	typeof webhookDeadLetters
+>;
+
+export const webhookDeadLettersRelations = relations(
+	webhookDeadLetters,
+	({ one }) => ({
+		job: one(webhookJobs, {
+			fields: [webhookDeadLetters.jobID],
+			references: [webhookJobs.id],
+		}),
+		replayedByUser: one(users, {
+			fields: [webhookDeadLetters.replayedBy],
+			references: [users.id],
+		}),
+	}),
+);
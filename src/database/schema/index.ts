@@ -79,6 +79,20 @@ export {
 	type InsertProduct,
 } from './business/order/products';
 
+export {
+	productVariants,
+	productVariantsRelations,
+	type SelectProductVariant,
+	type InsertProductVariant,
+} from './business/order/productVariants';
+
+export {
+	productMedia,
+	productMediaRelations,
+	type SelectProductMedia,
+	type InsertProductMedia,
+} from './business/order/productMedia';
+
 export {
 	orderItems,
 	orderItemsRelations,
@@ -86,9 +100,157 @@ export {
 	type InsertOrderItem,
 } from './business/order/orderItems';
 
+export {
+	orderStatusHistory,
+	orderStatusHistoryRelations,
+	type SelectOrderStatusHistory,
+	type InsertOrderStatusHistory,
+} from './business/order/orderStatusHistory';
+
+export {
+	orderNotifications,
+	orderNotificationsRelations,
+	orderNotificationResultEnum,
+	type SelectOrderNotification,
+	type InsertOrderNotification,
+} from './business/order/orderNotifications';
+
+// Inventory schemas
+export {
+	inventoryReservations,
+	inventoryReservationsRelations,
+	reservationStatusEnum,
+	type SelectInventoryReservation,
+	type InsertInventoryReservation,
+} from './business/inventory/inventoryReservations';
+
+export {
+	inventoryMovements,
+	inventoryMovementsRelations,
+	inventoryMovementTypeEnum,
+	type SelectInventoryMovement,
+	type InsertInventoryMovement,
+} from './business/inventory/inventoryMovements';
+
+// Catalog schemas
+export {
+	catalogItems,
+	type SelectCatalogItem,
+	type InsertCatalogItem,
+} from './business/catalog/catalogItems';
+
+export {
+	catalogSyncOutbox,
+	catalogSyncOutboxRelations,
+	catalogSyncOperationEnum,
+	catalogSyncStatusEnum,
+	type SelectCatalogSyncOutbox,
+	type InsertCatalogSyncOutbox,
+} from './business/catalog/catalogSyncOutbox';
+
+export {
+	catalogReconciliations,
+	catalogReconciliationsRelations,
+	catalogReconciliationItems,
+	catalogReconciliationItemsRelations,
+	catalogReconciliationStatusEnum,
+	catalogDifferenceKindEnum,
+	type CatalogFieldDifference,
+	type SelectCatalogReconciliation,
+	type InsertCatalogReconciliation,
+	type SelectCatalogReconciliationItem,
+	type InsertCatalogReconciliationItem,
+} from './business/catalog/catalogReconciliations';
+
 export {
 	customerProducts,
 	customerProductsRelations,
 	type SelectCustomerProduct,
 	type InsertCustomerProduct,
 } from './business/customer/customerProducts';
+
+// Conversation schemas
+export {
+	conversations,
+	conversationsRelations,
+	type SelectConversation,
+	type InsertConversation,
+} from './business/conversation/conversations';
+
+export {
+	messages,
+	messagesRelations,
+	messageDirectionEnum,
+	messageStatusEnum,
+	type SelectMessage,
+	type InsertMessage,
+} from './business/conversation/messages';
+
+export {
+	conversationSessions,
+	conversationSessionsRelations,
+	sessionStatusEnum,
+	type SelectConversationSession,
+	type InsertConversationSession,
+} from './business/conversation/conversationSessions';
+
+// Webhook schemas
+export {
+	processedWebhookEvents,
+	webhookEventTypeEnum,
+	type SelectProcessedWebhookEvent,
+	type InsertProcessedWebhookEvent,
+} from './business/webhook/processedWebhookEvents';
+
+export {
+	webhookJobs,
+	webhookJobStatusEnum,
+	webhookJobEffects,
+	webhookDeadLetters,
+	webhookDeadLettersRelations,
+	type SelectWebhookJob,
+	type InsertWebhookJob,
+	type SelectWebhookJobEffect,
+	type InsertWebhookJobEffect,
+	type SelectWebhookDeadLetter,
+	type InsertWebhookDeadLetter,
+} from './business/webhook/webhookJobs';
+
+// Payment schemas
+export {
+	payments,
+	paymentsRelations,
+	paymentStatusEnum,
+	type SelectPayment,
+	type InsertPayment,
+} from './business/payment/payments';
+
+export {
+	refunds,
+	refundsRelations,
+	type SelectRefund,
+	type InsertRefund,
+} from './business/payment/refunds';
+
+export {
+	paymentLinks,
+	paymentLinksRelations,
+	paymentLinkStatusEnum,
+	type SelectPaymentLink,
+	type InsertPaymentLink,
+} from './business/payment/paymentLinks';
+
+export {
+	stripeWebhookEvents,
+	type SelectStripeWebhookEvent,
+	type InsertStripeWebhookEvent,
+} from './business/payment/stripeWebhookEvents';
+
+// Chatbot schemas
+export {
+	chatbotIntents,
+	chatbotIntentsRelations,
+	chatbotActionEnum,
+	type SelectChatbotIntent,
+	type InsertChatbotIntent,
+} from './business/chatbot/chatbotIntents';
@@ -86,6 +86,10 @@ import logger from '@/lib/logger';
 	await seeds.users(db);
 	logger.debug('✅ Users and UserRoles seeded');
 
+	// Not truncated above: keeps intents edited by marketing
+	await seeds.chatbotIntents(db);
+	logger.debug('✅ Chatbot intents seeded');
+
 	logger.info('🎉 All seeds completed successfully!');
 
 	await closeConnection();
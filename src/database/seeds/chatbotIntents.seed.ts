@@ -0,0 +1,64 @@
+import { type dbConnection } from '../index';
+import { chatbotIntents, InsertChatbotIntent } from '../schema';
+
+// Mirrors the keyword routing the bot shipped with
+export const DEFAULT_CHATBOT_INTENTS: InsertChatbotIntent[] = [
+	{
+		name: 'Main menu',
+		keywords: ['MENU', 'BACK'],
+		buttonIds: ['MENU', 'BACK'],
+		action: 'menu',
+	},
+	{
+		name: 'Add points',
+		keywords: ['ADD_POINTS', 'ADD POINTS'],
+		buttonIds: ['ADD_POINTS'],
+		action: 'add_points',
+	},
+	{
+		name: 'View catalog',
+		keywords: ['VIEW_CATALOG', 'CATALOG', 'VIEW CATALOG'],
+		buttonIds: ['VIEW_CATALOG'],
+		action: 'catalog',
+	},
+	{
+		name: 'View balance',
+		keywords: ['VIEW_BALANCE', 'BALANCE', 'VIEW BALANCE'],
+		buttonIds: ['VIEW_BALANCE'],
+		action: 'balance',
+	},
+	{
+		name: 'Try wigs',
+		keywords: ['TRY', 'TRY WIG', 'WIG'],
+		buttonIds: ['TRY_WIG'],
+		action: 'try_wig',
+	},
+	{
+		name: 'Reorder',
+		keywords: ['REORDER', 'ORDER AGAIN', 'REPEAT ORDER'],
+		buttonIds: ['REORDER'],
+		action: 'start_journey',
+		journey: 'reorder',
+	},
+	{
+		name: 'Update address',
+		keywords: ['ADDRESS', 'UPDATE ADDRESS', 'CHANGE ADDRESS'],
+		buttonIds: ['UPDATE_ADDRESS'],
+		action: 'start_journey',
+		journey: 'address_capture',
+	},
+	{
+		name: 'Feedback',
+		keywords: ['FEEDBACK', 'REVIEW'],
+		buttonIds: ['FEEDBACK'],
+		action: 'start_journey',
+		journey: 'feedback',
+	},
+];
+
+export default async function seed(db: dbConnection) {
+	await db
+		.insert(chatbotIntents)
+		.values(DEFAULT_CHATBOT_INTENTS)
+		.onConflictDoNothing({ target: chatbotIntents.name });
+}
@@ -2,3 +2,4 @@ export { default as rolePermissions } from './rolePermissions.seed';
 export { default as roles } from './roles.seed';
 export { default as permissions } from './permissions.seed';
 export { default as users } from './users.seed';
+export { default as chatbotIntents } from './chatbotIntents.seed';
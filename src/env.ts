@@ -65,11 +65,69 @@ const envSchema = z.object({
 	WHATSAPP_ACCESS_TOKEN: z.string(),
 	WHATSAPP_PHONE_NUMBER_ID: z.string(),
 	WHATSAPP_API_VERSION: z.string().optional(),
+	WHATSAPP_APP_SECRET: z.string().optional(),
+	WHATSAPP_SKIP_SIGNATURE_VERIFICATION: stringBoolean,
 	TZ: z.string().default('UTC'),
 	WHATSAPP_TRY_ON_BASE_API: z.string(),
+	WEBHOOK_EVENT_RETENTION_HOURS: z.coerce
+		.number()
+		.int()
+		.positive()
+		.default(72),
+	WEBHOOK_WORKER_CONCURRENCY: z.coerce.number().int().positive().default(4),
+	WEBHOOK_JOB_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
+	INVENTORY_RESERVATION_TTL_MINUTES: z.coerce
+		.number()
+		.int()
+		.positive()
+		.default(60),
+	CHATBOT_FALLBACK_MESSAGE: z
+		.string()
+		.default(
+			"Sorry, I didn't understand that 🌸\nReply *MENU* to see what I can help you with.",
+		),
+	WHATSAPP_TEMPLATE_LANGUAGE: z.string().default('en'),
+	WHATSAPP_ORDER_SHIPPED_TEMPLATE: z.string().default('order_shipped'),
+	WHATSAPP_ORDER_DELIVERED_TEMPLATE: z.string().default('order_delivered'),
+	WHATSAPP_ORDER_CANCELLED_TEMPLATE: z.string().default('order_cancelled'),
+	WHATSAPP_ORDER_REFUNDED_TEMPLATE: z.string().default('order_refunded'),
+
+	FB_ACCESS_TOKEN: z.string().optional(),
+	FB_CATALOG_ID: z.string().optional(),
+	FB_API_VERSION: z.string().default('v24.0'),
+	CATALOG_MIRROR_STALE_MINUTES: z.coerce
+		.number()
+		.int()
+		.positive()
+		.default(15),
+	CATALOG_SYNC_MAX_ATTEMPTS: z.coerce.number().int().positive().default(6),
+	CATALOG_SYNC_BATCH_SIZE: z.coerce.number().int().positive().default(50),
+	CATALOG_RECONCILE_INTERVAL_HOURS: z.coerce
+		.number()
+		.int()
+		.positive()
+		.default(24),
 
 	STRIPE_SECRET_KEY: z.string().optional(),
 	STRIPE_PUBLISHABLE_KEY: z.string().optional(),
+	// Signing secret of the Stripe webhook endpoint (whsec_...)
+	STRIPE_WEBHOOK_SECRET: z.string().optional(),
+	// Stripe Checkout only accepts an expiry between 30 minutes and 24 hours
+	PAYMENT_LINK_TTL_MINUTES: z.coerce
+		.number()
+		.int()
+		.min(30)
+		.max(24 * 60)
+		.default(24 * 60),
+	PAYMENT_LINK_REMINDER_INTERVAL_MINUTES: z.coerce
+		.number()
+		.int()
+		.positive()
+		.default(240),
+	PAYMENT_LINK_MAX_REMINDERS: z.coerce.number().int().min(0).default(2),
+
+	// Order-currency value of one redeemed loyalty point
+	LOYALTY_POINT_VALUE: z.coerce.number().positive().default(1),
 });
 
 export function initEnv() {
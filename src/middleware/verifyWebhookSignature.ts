@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import AppError from '@/abstractions/AppError';
+import env from '@/env';
+import logger from '@/lib/logger';
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+/**
+ * Reject webhook POSTs whose X-Hub-Signature-256 header does not match an
+ * HMAC of the raw body signed with the Meta app secret
+ */
+const verifyWebhookSignature = (
+	req: Request,
+	_res: Response,
+	next: NextFunction,
+) => {
+	if (env.WHATSAPP_SKIP_SIGNATURE_VERIFICATION) {
+		return next();
+	}
+
+	if (!env.WHATSAPP_APP_SECRET) {
+		logger.error(
+			'Webhook signature verification is enabled but WHATSAPP_APP_SECRET is not set',
+		);
+		throw new AppError(
+			'Webhook signature verification is not configured',
+			StatusCodes.INTERNAL_SERVER_ERROR,
+		);
+	}
+
+	const header = req.get('x-hub-signature-256');
+	if (!header?.startsWith(SIGNATURE_PREFIX) || !req.rawBody) {
+		logger.warn('Webhook rejected: missing signature', { ip: req.ip });
+		throw new AppError(
+			'Missing webhook signature',
+			StatusCodes.UNAUTHORIZED,
+		);
+	}
+
+	const expected = crypto
+		.createHmac('sha256', env.WHATSAPP_APP_SECRET)
+		.update(req.rawBody)
+		.digest();
+	const received = Buffer.from(header.slice(SIGNATURE_PREFIX.length), 'hex');
+
+	if (
+		received.length !== expected.length ||
+		!crypto.timingSafeEqual(received, expected)
+	) {
+		logger.warn('Webhook rejected: signature mismatch', { ip: req.ip });
+		throw new AppError(
+			'Invalid webhook signature',
+			StatusCodes.UNAUTHORIZED,
+		);
+	}
+
+	next();
+};
+
+export default verifyWebhookSignature;
@@ -1,9 +1,16 @@
 import { Router } from 'express';
+import CatalogController from '@/components/web/catalog/catalog.controller';
+import ChatbotIntentController from '@/components/web/chatbotIntents/chatbotIntents.controller';
+import ConversationController from '@/components/web/conversations/conversations.controller';
 import CustomerController from '@/components/web/customers/customerMaster/customerMaster.controller';
+import InventoryController from '@/components/web/inventory/inventory.controller';
+import JourneyController from '@/components/web/journeys/journeys.controller';
+import OrderMasterPostAuthController from '@/components/web/orders/OrderMasterPostAuth/orderMasterPostAuth.controller';
 import ProductController from '@/components/web/products/products.controller';
 import SessionController from '@/components/web/session/session.controller';
+import WebhookEventController from '@/components/web/webhookEvents/webhookEvents.controller';
+import WebhookJobController from '@/components/web/webhookJobs/webhookJobs.controller';
 import protect from '@/middleware/protect';
-import OrderMasterPostAuthController from '@/components/web/orders/OrderMasterPostAuth/orderMasterPostAuth.controller';
 
 export default function webPostAuthRoutes(): Router {
 	const router = Router();
@@ -20,8 +27,34 @@ export default function webPostAuthRoutes(): Router {
 	const productController: ProductController = new ProductController();
 	router.use('/products', productController.register());
 
-	const orderPostAuthController : OrderMasterPostAuthController = new OrderMasterPostAuthController();
+	const catalogController: CatalogController = new CatalogController();
+	router.use('/catalog', catalogController.register());
+
+	const orderPostAuthController: OrderMasterPostAuthController =
+		new OrderMasterPostAuthController();
 	router.use('/orders/postAuth', orderPostAuthController.register());
 
+	const inventoryController: InventoryController = new InventoryController();
+	router.use('/inventory', inventoryController.register());
+
+	const conversationController: ConversationController =
+		new ConversationController();
+	router.use('/conversations', conversationController.register());
+
+	const chatbotIntentController: ChatbotIntentController =
+		new ChatbotIntentController();
+	router.use('/chatbot-intents', chatbotIntentController.register());
+
+	const journeyController: JourneyController = new JourneyController();
+	router.use('/journeys', journeyController.register());
+
+	const webhookEventController: WebhookEventController =
+		new WebhookEventController();
+	router.use('/webhook-events', webhookEventController.register());
+
+	const webhookJobController: WebhookJobController =
+		new WebhookJobController();
+	router.use('/webhook-jobs', webhookJobController.register());
+
 	return router;
 }
@@ -3,6 +3,8 @@ import AuthWebController from '../../components/web/auth/auth-web.controller';
 import OrderWebController from '../../components/web/orders/orderMaster/orderMaster.controller';
 import WebhookWebController from '../../components/web/webhook/webhook-web.controller';
 import VirtualTryOnController from '@/components/web/customers/VirtualTryOnApis/virtualTryOn.controller';
+import StripeWebhookController from '@/components/web/payments/stripeWebhook.controller';
+import ProductMediaFileController from '@/components/web/products/productMediaFile.controller';
 /**
  * Here, you can register routes by instantiating the controller.
  *
@@ -15,6 +17,12 @@ export default function webPreAuthRoutes(): Router {
 	const webhookWebController: WebhookWebController =
 		new WebhookWebController();
 	router.use('/webhook', webhookWebController.register());
+
+	// Signed by Stripe, so it sits outside the session check
+	const stripeWebhookController: StripeWebhookController =
+		new StripeWebhookController();
+	router.use('/stripe/webhook', stripeWebhookController.register());
+
 	const orderWebController: OrderWebController = new OrderWebController();
 	router.use('/orders', orderWebController.register());
 
@@ -22,5 +30,10 @@ export default function webPreAuthRoutes(): Router {
 		new VirtualTryOnController();
 	router.use('/virtual-tryon', virtualTryOnController.register());
 
+	// Product images are fetched by the Facebook catalog and WhatsApp
+	const productMediaFileController: ProductMediaFileController =
+		new ProductMediaFileController();
+	router.use('/product-media', productMediaFileController.register());
+
 	return router;
 }
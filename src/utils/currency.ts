@@ -0,0 +1,35 @@
+// src/utils/currency.ts
+
+// Currencies Stripe charges in whole units (no minor unit)
+const ZERO_DECIMAL_CURRENCIES = new Set([
+	'BIF',
+	'CLP',
+	'DJF',
+	'GNF',
+	'JPY',
+	'KMF',
+	'KRW',
+	'MGA',
+	'PYG',
+	'RWF',
+	'UGX',
+	'VND',
+	'VUV',
+	'XAF',
+	'XOF',
+	'XPF',
+]);
+
+const minorUnitFactor = (currency: string) =>
+	ZERO_DECIMAL_CURRENCIES.has(currency.toUpperCase()) ? 1 : 100;
+
+/**
+ * Major units (e.g. naira) to the smallest unit Stripe charges in (kobo)
+ */
+export function toSmallestUnit(amount: number, currency: string): number {
+	return Math.round(amount * minorUnitFactor(currency));
+}
+
+export function fromSmallestUnit(amount: number, currency: string): number {
+	return amount / minorUnitFactor(currency);
+}
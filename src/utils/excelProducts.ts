@@ -0,0 +1,184 @@
+// src/utils/excelProducts.ts
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import { StatusCodes } from 'http-status-codes';
+import AppError from '@/abstractions/AppError';
+
+export const PRODUCT_TEMPLATE_HEADERS = [
+	'contentId',
+	'productName',
+	'productType',
+	'sku',
+	'weight',
+	'dimensions',
+	'warrantyPeriod',
+	'returnPeriodDays',
+	'qty',
+	'amount',
+	'currency',
+	'type',
+	'points',
+	'imageUrl',
+] as const;
+
+export type ProductSheetFormat = 'xlsx' | 'csv';
+
+// Upload types accepted for an import; browsers send CSV under several
+export const PRODUCT_SHEET_TYPES = [
+	'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+	'text/csv',
+	'application/csv',
+	'application/vnd.ms-excel',
+	'text/plain',
+];
+
+export type ProductSheetRow = Partial<
+	Record<(typeof PRODUCT_TEMPLATE_HEADERS)[number], string | number | null>
+>;
+
+export interface ParsedProductRow {
+	// Spreadsheet row number, so errors point at the right line
+	rowNumber: number;
+	values: Partial<Record<(typeof PRODUCT_TEMPLATE_HEADERS)[number], string>>;
+}
+
+function addProductsSheet(wb: ExcelJS.Workbook, rows: ProductSheetRow[]) {
+	const ws = wb.addWorksheet('Products');
+
+	ws.addRow([...PRODUCT_TEMPLATE_HEADERS]);
+	for (const row of rows) {
+		ws.addRow(PRODUCT_TEMPLATE_HEADERS.map((header) => row[header] ?? ''));
+	}
+
+	// Make header bold
+	ws.getRow(1).font = { bold: true };
+
+	// Auto-adjust column width
+	PRODUCT_TEMPLATE_HEADERS.forEach((_, idx) => {
+		const col = ws.getColumn(idx + 1);
+		let max = 10;
+		col.eachCell((cell) => {
+			const len = (cell.value?.toString() || '').length;
+			if (len > max) max = len + 2;
+		});
+		col.width = max;
+	});
+}
+
+async function writeWorkbook(
+	wb: ExcelJS.Workbook,
+	format: ProductSheetFormat,
+): Promise<Buffer> {
+	const buf =
+		format === 'csv'
+			? await wb.csv.writeBuffer()
+			: await wb.xlsx.writeBuffer();
+	return Buffer.from(buf);
+}
+
+export async function buildProductsTemplate(
+	format: ProductSheetFormat = 'xlsx',
+): Promise<Buffer> {
+	const wb = new ExcelJS.Workbook();
+
+	// A couple of example rows
+	addProductsSheet(wb, [
+		{
+			contentId: 'SAREE-001',
+			productName: 'Silk Saree',
+			productType: 'apparel',
+			sku: 'SAREE-001-RED',
+			weight: '0.8kg',
+			dimensions: '30x20x5cm',
+			warrantyPeriod: '',
+			returnPeriodDays: '7',
+			qty: 25,
+			amount: 15000,
+			currency: 'NGN',
+			type: 'physical',
+			points: 150,
+			imageUrl: 'https://example.com/images/saree-001.jpg',
+		},
+		{
+			contentId: 'BAG-014',
+			productName: 'Leather Tote',
+			productType: 'accessories',
+			sku: 'BAG-014-BRN',
+			qty: 10,
+			amount: 22000,
+			currency: 'NGN',
+			points: 0,
+		},
+	]);
+
+	return writeWorkbook(wb, format);
+}
+
+/**
+ * Current products in the template layout, so an export can be edited and
+ * uploaded again
+ */
+export async function buildProductsExport(
+	rows: ProductSheetRow[],
+	format: ProductSheetFormat = 'xlsx',
+): Promise<Buffer> {
+	const wb = new ExcelJS.Workbook();
+	addProductsSheet(wb, rows);
+	return writeWorkbook(wb, format);
+}
+
+/**
+ * Parse an uploaded Excel or CSV file into raw cell text keyed by header.
+ * Validation happens in the service so each row can report its own errors.
+ */
+export async function parseProductsSheet(
+	buffer: Buffer,
+	format: ProductSheetFormat,
+): Promise<ParsedProductRow[]> {
+	const wb = new ExcelJS.Workbook();
+	try {
+		if (format === 'csv') {
+			await wb.csv.read(Readable.from(buffer));
+		} else {
+			await wb.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+		}
+	} catch {
+		throw new AppError(
+			`File is not a readable ${format.toUpperCase()} file`,
+			StatusCodes.BAD_REQUEST,
+		);
+	}
+	const ws = wb.worksheets[0];
+
+	if (!ws) {
+		throw new AppError('No worksheet found', StatusCodes.BAD_REQUEST);
+	}
+
+	// Columns are matched by header name, so their order does not matter
+	const columns = new Map<
+		number,
+		(typeof PRODUCT_TEMPLATE_HEADERS)[number]
+	>();
+	ws.getRow(1).eachCell((cell, colNumber) => {
+		const header = PRODUCT_TEMPLATE_HEADERS.find(
+			(h) => h.toLowerCase() === cell.text.trim().toLowerCase(),
+		);
+		if (header) columns.set(colNumber, header);
+	});
+
+	const rows: ParsedProductRow[] = [];
+	ws.eachRow((row, rowNumber) => {
+		if (rowNumber === 1) return; // skip header
+
+		const values: ParsedProductRow['values'] = {};
+		for (const [colNumber, header] of columns) {
+			const text = row.getCell(colNumber).text.trim();
+			if (text) values[header] = text;
+		}
+
+		if (Object.keys(values).length === 0) return; // skip empty rows
+		rows.push({ rowNumber, values });
+	});
+
+	return rows;
+}
@@ -0,0 +1,40 @@
+// src/utils/imageThumbnail.ts
+import sharp from 'sharp';
+
+export const PRODUCT_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const THUMBNAIL_SIZE = 320;
+
+export interface GeneratedThumbnail {
+	buffer: Buffer;
+	contentType: string;
+	// Dimensions of the original image
+	width: number | null;
+	height: number | null;
+}
+
+/**
+ * Square-bounded JPEG thumbnail of an uploaded image. Throws when the buffer
+ * is not a readable image.
+ */
+export async function generateThumbnail(
+	buffer: Buffer,
+): Promise<GeneratedThumbnail> {
+	const image = sharp(buffer).rotate(); // honour EXIF orientation
+	const { width, height } = await image.metadata();
+
+	const thumbnail = await image
+		.resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+			fit: 'inside',
+			withoutEnlargement: true,
+		})
+		.jpeg({ quality: 80 })
+		.toBuffer();
+
+	return {
+		buffer: thumbnail,
+		contentType: 'image/jpeg',
+		width: width ?? null,
+		height: height ?? null,
+	};
+}
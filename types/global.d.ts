@@ -8,6 +8,7 @@ declare module 'express-serve-static-core' {
 		zodBody?: unknown; // TypeScript will infer actual type from parseRequest
 		zodQuery?: unknown;
 		zodParams?: unknown;
+		rawBody?: Buffer; // Unparsed JSON body, kept for webhook signature checks
 	}
 }
 // types/global.d.ts